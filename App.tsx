@@ -1,93 +1,454 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { jsPDF } from 'jspdf';
-import html2canvas from 'html2canvas';
 import { 
-  PUPILS, 
-  TEACHERS, 
-  SUBJECTS, 
-  TIMESLOTS 
+  APPROVER,
+  ATTENDANCE_STATUSES,
+  DEFAULT_PUPILS, 
+  DEFAULT_TEACHERS, 
+  DEFAULT_SETTINGS,
+  DEFAULT_SUBJECTS,
+  DEFAULT_TIMESLOTS,
+  PROGRAMME_NAME,
+  REVIEWER,
+  SCHOOL_LOCATION,
+  SCHOOL_NAME,
+  YEARS
 } from './constants';
-import { Subject, Timeslot, SavedReport, SubjectStats } from './types';
+import { AttendanceStatus, Catalogue, SavedReport, AttendanceRate, Pupil, Teacher, Roster, NotificationType, PupilIdMigrationReport, AppSettings, Language, SyncStatus, BackupFile, Snapshot, TimetableSlot, MissingSession, ReviewStatus, Assessment, SubjectImpact, WarningLetter, LetterStatus, DeletedReport } from './types';
+import { createRosterId, pupilsForSheet, sortPupils, sortTeachers } from './services/roster';
+import { migrateLegacyPupilIds, upgradePupilYears, upgradeTeacherRoles } from './services/migrations';
+import { buildMonthlyRegister, buildPupilProfile, calculateSubjectStats, calculateYearStats, expectedPupilIdsOf, findPupilsAtRisk, pupilYearAt, targetYearsOf } from './services/analytics';
+import { applyPull, fetchRemoteHistory, GOOGLE_SCRIPT_URL, planPull, PullPreview, sendDeletion, sendReport } from './services/sync';
+import { describeChanges, findDuplicateGroups, findDuplicateSession, mergeAttendance, sessionKey } from './services/reports';
+import { attendanceToCsv, exportXlsx, importAttendanceCsv, ImportPreview, summaryToCsv } from './services/spreadsheet';
+import { downloadText } from './services/download';
+import { createBackup, loadSnapshots, mergeById, saveSnapshot } from './services/backup';
+import { getItem, loadReports, onStorageNotice, persistReports, setItem } from './services/storage';
+import { ensureCatalogueCovers } from './services/catalogue';
+import { findMissingSessions, findScheduledSlot } from './services/timetable';
+import { parseDate, todayIso } from './services/dates';
+import { academicYearOf, academicYearsIn, rolloverPupils } from './services/academicYear';
+import { canEditReport, clearSession, isSupervisor, loadSession, saveSession } from './services/auth';
+import { InstallPromptEvent, registerServiceWorker } from './services/pwa';
+import { createI18n, LANGUAGES, LONG_DATE, MALAY } from './services/i18n';
+import { MessageKey } from './services/messages';
+import { countPresent, isExcusedStatus, isPresentStatus, statusOf } from './services/attendance';
+import { buildAnalyticsPdf, buildImpactPdf, buildMonthlyRegisterPdf, buildSessionPdf, buildWarningLetterPdf, reportSignatures } from './services/pdf';
+import { buildLetterStatuses, nextReference } from './services/letters';
+import { EMPTY_HISTORY_FILTER, filterReports, HistoryFilter, HistorySort, paginate, sortReports } from './services/history';
+import { canReturnReport, checkReviewStamps, reopenPatch, ReviewAction, reviewActionFor, reviewPatch, reviewQueue, reviewStatusOf, returnPatch, submitPatch } from './services/review';
+import RosterManager from './components/RosterManager';
+import PupilProfileModal from './components/PupilProfileModal';
+import DuplicateSessionModal from './components/DuplicateSessionModal';
+import ImportPreviewModal from './components/ImportPreviewModal';
+import DataManager from './components/DataManager';
+import CatalogueManager from './components/CatalogueManager';
+import TimetableManager from './components/TimetableManager';
+import SignInScreen from './components/SignInScreen';
+import TrendAnalysis from './components/TrendAnalysis';
+import AssessmentManager from './components/AssessmentManager';
+import ImpactAnalysis from './components/ImpactAnalysis';
+import WarningLetters from './components/WarningLetters';
+import HistoryControls, { ExportFormat } from './components/HistoryControls';
+import Pagination from './components/Pagination';
+import SyncPullModal from './components/SyncPullModal';
 
-// URL Google Apps Script yang telah di-deploy
-const GOOGLE_SCRIPT_URL = "https://script.google.com/macros/s/AKfycbzcwYvFACKA0E08QH8P6Gqbb-P_azjiaF_DF0RIFIDd36HF2jtV6c8LhKF9PG0Pa_59Nw/exec"; 
+const SYNC_BADGES: Record<SyncStatus | 'unknown', { label: MessageKey; className: string }> = {
+  pending: { label: 'sync.pending', className: 'bg-amber-50 text-amber-700' },
+  sent: { label: 'sync.sent', className: 'bg-emerald-50 text-emerald-700' },
+  failed: { label: 'sync.failed', className: 'bg-rose-50 text-rose-600' },
+  unknown: { label: 'sync.unknown', className: 'bg-slate-100 text-slate-500' }
+};
+
+const REVIEW_BADGES: Record<ReviewStatus, { label: MessageKey; className: string }> = {
+  draft: { label: 'review.draft', className: 'bg-slate-100 text-slate-500' },
+  submitted: { label: 'review.submitted', className: 'bg-amber-50 text-amber-700' },
+  disemak: { label: 'review.disemak', className: 'bg-sky-50 text-sky-700' },
+  disahkan: { label: 'review.disahkan', className: 'bg-emerald-50 text-emerald-700' }
+};
 
 interface Notification {
   id: string;
   message: string;
-  type: 'success' | 'info' | 'error';
+  type: NotificationType;
 }
 
 const App: React.FC = () => {
   // Navigation state
-  const [activeTab, setActiveTab] = useState<'record' | 'preview' | 'history' | 'analytics'>('record');
+  const [activeTab, setActiveTab] = useState<'record' | 'preview' | 'history' | 'analytics' | 'assessments' | 'letters' | 'timetable' | 'roster' | 'data'>('record');
   
   // Dashboard state (Current Session)
   const [selectedDate, setSelectedDate] = useState<string>(new Date().toISOString().split('T')[0]);
+  const [currentTeacherId, setCurrentTeacherId] = useState<string | null>(null);
   const [selectedTeacherId, setSelectedTeacherId] = useState<string>('');
-  const [selectedSubject, setSelectedSubject] = useState<Subject | ''>('');
-  const [selectedTimeslot, setSelectedTimeslot] = useState<Timeslot | ''>('');
-  const [attendance, setAttendance] = useState<Record<string, boolean>>({});
+  const [selectedSubjectId, setSelectedSubjectId] = useState<string>('');
+  const [selectedTimeslotId, setSelectedTimeslotId] = useState<string>('');
+  const [attendance, setAttendance] = useState<Record<string, AttendanceStatus>>({});
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [targetYears, setTargetYears] = useState<number[]>(YEARS);
+  const [editingReportId, setEditingReportId] = useState<string | null>(null);
+  const [pendingImport, setPendingImport] = useState<{ filename: string; preview: ImportPreview } | null>(null);
+  const [pendingPull, setPendingPull] = useState<PullPreview | null>(null);
+  const [pendingConflict, setPendingConflict] = useState<{ existing: SavedReport; incoming: Omit<SavedReport, 'id' | 'timestamp'> } | null>(null);
   
   // UI state
   const [expandedYear, setExpandedYear] = useState<number | null>(null);
   const [analyticsYear, setAnalyticsYear] = useState<number>(new Date().getFullYear());
   const [analyticsMonth, setAnalyticsMonth] = useState<number>(new Date().getMonth());
+  const [analyticsAcademicYear, setAnalyticsAcademicYear] = useState<number | null>(null); // null: every academic year
+  const [historyFilter, setHistoryFilter] = useState<HistoryFilter>(EMPTY_HISTORY_FILTER);
+  const [historySort, setHistorySort] = useState<HistorySort>('date_desc');
+  const [historyPage, setHistoryPage] = useState(1);
+  const [selectedReportIds, setSelectedReportIds] = useState<string[]>([]);
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [hasLoaded, setHasLoaded] = useState(false);
   const [isSavingToCloud, setIsSavingToCloud] = useState(false);
+  const [isPulling, setIsPulling] = useState(false);
+  const [profilePupilId, setProfilePupilId] = useState<string | null>(null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [installPrompt, setInstallPrompt] = useState<InstallPromptEvent | null>(null);
 
   // Persistence state
   const [savedReports, setSavedReports] = useState<SavedReport[]>([]);
+  const [pupils, setPupils] = useState<Pupil[]>(DEFAULT_PUPILS);
+  const [teachers, setTeachers] = useState<Teacher[]>(DEFAULT_TEACHERS);
+  const [catalogue, setCatalogue] = useState<Catalogue>({ subjects: DEFAULT_SUBJECTS, timeslots: DEFAULT_TIMESLOTS });
+  const [timetable, setTimetable] = useState<TimetableSlot[]>([]);
+  const [assessments, setAssessments] = useState<Assessment[]>([]);
+  const [warningLetters, setWarningLetters] = useState<WarningLetter[]>([]);
+  const [deletedReports, setDeletedReports] = useState<DeletedReport[]>([]);
+  const [pupilIdMigration, setPupilIdMigration] = useState<PupilIdMigrationReport | null>(null);
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
   const [isExporting, setIsExporting] = useState(false);
 
+  const i18n = useMemo(() => createI18n(settings.language), [settings.language]);
+  const { t } = i18n;
+  // Official PDFs follow the interface language only when the school allows it
+  const pdfI18n = settings.forceMalayPdf ? MALAY : i18n;
+
   // Refs
-  const reportRef = useRef<HTMLDivElement>(null);
-  const analyticsReportRef = useRef<HTMLDivElement>(null);
+  const isSyncing = useRef(false);
+  const persistedReports = useRef<SavedReport[]>([]);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  // Listeners registered once on mount read the current language through this
+  const i18nRef = useRef(i18n);
+  i18nRef.current = i18n;
 
-  // Load from localStorage on mount
+  // Load from local storage on mount
   useEffect(() => {
-    const data = localStorage.getItem('sk_attendance_history_v2');
-    if (data) {
+    onStorageNotice(notice => addNotification(i18nRef.current.t(`notify.storage.${notice}`), notice === 'blocked' ? "info" : "error"));
+    const load = async () => {
       try {
-        const parsed = JSON.parse(data);
-        if (Array.isArray(parsed)) {
-          setSavedReports(parsed);
+        let reports = await loadReports();
+        persistedReports.current = reports;
+        const storedRoster = await getItem<Roster>('roster');
+        let storedPupils: Pupil[] | null = null;
+        let storedTeachers = DEFAULT_TEACHERS;
+        if (storedRoster && Array.isArray(storedRoster.pupils) && Array.isArray(storedRoster.teachers)) {
+          storedPupils = storedRoster.pupils;
+          storedTeachers = upgradeTeacherRoles(storedRoster.teachers);
+          setTeachers(storedTeachers);
         }
+        const storedCatalogue = ensureCatalogueCovers(await getItem<Catalogue>('catalogue') || { subjects: DEFAULT_SUBJECTS, timeslots: DEFAULT_TIMESLOTS }, reports);
+        setCatalogue(storedCatalogue);
+        const storedTimetable = await getItem<TimetableSlot[]>('timetable') || [];
+        setTimetable(storedTimetable);
+        setAssessments(await getItem<Assessment[]>('assessments') || []);
+        setWarningLetters(await getItem<WarningLetter[]>('warningLetters') || []);
+        setDeletedReports(await getItem<DeletedReport[]>('deletedReports') || []);
+        const storedSettings = { ...DEFAULT_SETTINGS, ...await getItem<AppSettings>('settings') };
+        setSettings(storedSettings);
+        i18nRef.current = createI18n(storedSettings.language);
+
+        // A reload keeps the teacher signed in until the tab is closed
+        const sessionTeacher = storedTeachers.find(t => t.id === loadSession() && t.active);
+        if (sessionTeacher) beginSession(sessionTeacher, storedTimetable, reports, storedCatalogue.timeslots);
+
+        // One-time rewrite of index-based pupil ids (p-0, p-1, ...) to stable ids
+        const migrationReport = await getItem<PupilIdMigrationReport>('pupilIdMigration');
+        if (migrationReport) {
+          setPupilIdMigration(migrationReport);
+        } else {
+          const migration = migrateLegacyPupilIds(storedPupils, reports);
+          // The flag goes last, so an interrupted save runs the migration again next time
+          await persistReports(migration.reports, reports);
+          await setItem('roster', { pupils: migration.pupils, teachers: storedTeachers });
+          reports = migration.reports;
+          persistedReports.current = reports;
+          storedPupils = migration.pupils;
+          await setItem('pupilIdMigration', migration.report);
+          setPupilIdMigration(migration.report);
+          if (migration.report.unmapped.length > 0) {
+            addNotification(i18nRef.current.t('notify.unmappedPupils', { count: migration.report.unmapped.length }), "error");
+          }
+        }
+
+        // Pin every older report to the Tahun its pupils were in, before any rollover moves them
+        reports = reports.map(r => upgradePupilYears(r, storedPupils || DEFAULT_PUPILS));
+
+        setSavedReports(reports);
+        if (storedPupils) setPupils(storedPupils);
+        setSnapshots(await loadSnapshots());
+        setHasLoaded(true);
       } catch (e) {
-        console.error("Failed to load history", e);
+        console.error("Failed to load local data", e);
+        addNotification(t('notify.storageOpenFailed'), "error");
       }
-    }
-    setHasLoaded(true);
+    };
+    load();
   }, []);
 
-  // Sync state to localStorage ONLY after initial load has completed
+  // Persist changes ONLY after initial load has completed
+  useEffect(() => {
+    if (!hasLoaded) return;
+    const previous = persistedReports.current;
+    persistedReports.current = savedReports;
+    persistReports(savedReports, previous).catch(e => {
+      console.error("Failed to save history", e);
+      addNotification(i18nRef.current.t('notify.storageSaveFailed'), "error");
+    });
+  }, [savedReports, hasLoaded]);
+
   useEffect(() => {
     if (hasLoaded) {
-      localStorage.setItem('sk_attendance_history_v2', JSON.stringify(savedReports));
+      const roster: Roster = { pupils, teachers };
+      setItem('roster', roster).catch(e => console.error("Failed to save roster", e));
     }
-  }, [savedReports, hasLoaded]);
+  }, [pupils, teachers, hasLoaded]);
+
+  useEffect(() => {
+    if (hasLoaded) {
+      setItem('catalogue', catalogue).catch(e => console.error("Failed to save catalogue", e));
+    }
+  }, [catalogue, hasLoaded]);
+
+  useEffect(() => {
+    if (hasLoaded) {
+      setItem('timetable', timetable).catch(e => console.error("Failed to save timetable", e));
+    }
+  }, [timetable, hasLoaded]);
+
+  useEffect(() => {
+    if (hasLoaded) {
+      setItem('assessments', assessments).catch(e => console.error("Failed to save assessments", e));
+    }
+  }, [assessments, hasLoaded]);
+
+  useEffect(() => {
+    if (hasLoaded) {
+      setItem('warningLetters', warningLetters).catch(e => console.error("Failed to save warning letters", e));
+    }
+  }, [warningLetters, hasLoaded]);
+
+  useEffect(() => {
+    if (hasLoaded) {
+      setItem('deletedReports', deletedReports).catch(e => console.error("Failed to save deleted report ids", e));
+    }
+  }, [deletedReports, hasLoaded]);
+
+  useEffect(() => {
+    if (hasLoaded) {
+      setItem('settings', settings).catch(e => console.error("Failed to save settings", e));
+    }
+  }, [settings, hasLoaded]);
+
+  // Track connectivity so the outbox can resume when the device is back online
+  useEffect(() => {
+    const goOnline = () => {
+      setIsOnline(true);
+      addNotification(i18nRef.current.t('notify.online'), "success");
+    };
+    const goOffline = () => {
+      setIsOnline(false);
+      addNotification(i18nRef.current.t('notify.offline'), "info");
+    };
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, []);
+
+  // Cache the app for offline use and offer installation on supported phones
+  useEffect(() => {
+    registerServiceWorker(() => addNotification(i18nRef.current.t('notify.offlineReady'), "success"));
+    const capturePrompt = (e: Event) => {
+      e.preventDefault();
+      setInstallPrompt(e as InstallPromptEvent);
+    };
+    const clearPrompt = () => setInstallPrompt(null);
+    window.addEventListener('beforeinstallprompt', capturePrompt);
+    window.addEventListener('appinstalled', clearPrompt);
+    return () => {
+      window.removeEventListener('beforeinstallprompt', capturePrompt);
+      window.removeEventListener('appinstalled', clearPrompt);
+    };
+  }, []);
+
+  // Failed deliveries go back into the queue on reconnect and then once a minute
+  useEffect(() => {
+    if (!isOnline) return;
+    const requeueFailed = () => {
+      setSavedReports(prev => 
+        prev.some(r => r.syncStatus === 'failed')
+          ? prev.map(r => r.syncStatus === 'failed' ? { ...r, syncStatus: 'pending' as SyncStatus } : r)
+          : prev
+      );
+      setDeletedReports(prev =>
+        prev.some(d => d.syncStatus === 'failed')
+          ? prev.map(d => d.syncStatus === 'failed' ? { ...d, syncStatus: 'pending' as SyncStatus } : d)
+          : prev
+      );
+    };
+    requeueFailed();
+    const timer = setInterval(requeueFailed, 60000);
+    return () => clearInterval(timer);
+  }, [isOnline]);
+
+  // Outbox: deliver pending reports one at a time
+  useEffect(() => {
+    if (!hasLoaded || !isOnline || isSyncing.current) return;
+    const queue = savedReports.filter(r => r.syncStatus === 'pending');
+    if (queue.length === 0) return;
+
+    // Only settles the version that was sent: a record edited or reviewed while the
+    // request was in flight keeps its 'pending' status so the newer copy goes out next
+    const settleReport = (sent: SavedReport, patch: Partial<SavedReport>) => 
+      setSavedReports(prev => prev.map(r => r.id === sent.id && r.updatedAt === sent.updatedAt ? { ...r, ...patch } : r));
+
+    const flush = async () => {
+      isSyncing.current = true;
+      setIsSavingToCloud(true);
+      let sent = 0;
+      let failed = 0;
+      for (const report of queue) {
+        try {
+          await sendReport(report, pupils);
+          settleReport(report, { syncStatus: 'sent', lastSyncAt: new Date().toISOString(), lastSyncError: undefined });
+          sent++;
+        } catch (error) {
+          console.error("Cloud save failed", error);
+          settleReport(report, { 
+            syncStatus: 'failed', 
+            syncAttempts: (report.syncAttempts || 0) + 1, 
+            lastSyncError: error instanceof Error ? error.message : String(error) 
+          });
+          failed++;
+        }
+      }
+      isSyncing.current = false;
+      setIsSavingToCloud(false);
+      if (sent > 0) addNotification(i18nRef.current.t('notify.syncSent', { count: sent }), "success");
+      if (failed > 0) addNotification(i18nRef.current.t('notify.syncFailed', { count: failed }), "error");
+    };
+    flush();
+  }, [savedReports, pupils, isOnline, hasLoaded]);
+
+  // Deletions go out after reports, sharing the outbox lock so only one request runs at a time
+  useEffect(() => {
+    if (!hasLoaded || !isOnline || isSyncing.current) return;
+    const queue = deletedReports.filter(d => d.syncStatus === 'pending');
+    if (queue.length === 0 || savedReports.some(r => r.syncStatus === 'pending')) return;
+
+    const flush = async () => {
+      isSyncing.current = true;
+      for (const deleted of queue) {
+        let syncStatus: SyncStatus = 'sent';
+        try {
+          await sendDeletion(deleted);
+        } catch (error) {
+          console.error("Cloud delete failed", error);
+          syncStatus = 'failed';
+        }
+        setDeletedReports(prev => prev.map(d => d.id === deleted.id ? { ...d, syncStatus } : d));
+      }
+      isSyncing.current = false;
+    };
+    flush();
+  }, [deletedReports, savedReports, isOnline, hasLoaded]);
 
   // Derived state for current session
+  const currentTeacher = useMemo(() => 
+    teachers.find(t => t.id === currentTeacherId && t.active) || null, 
+  [teachers, currentTeacherId]);
+  const supervisor = isSupervisor(currentTeacher);
+
   const teacherName = useMemo(() => 
-    TEACHERS.find(t => t.id === selectedTeacherId)?.name || 'Tiada Guru Dipilih', 
-  [selectedTeacherId]);
+    teachers.find(teacher => teacher.id === selectedTeacherId)?.name || t('record.noTeacher'), 
+  [teachers, selectedTeacherId, t]);
+
+  const editingReport = useMemo(() => 
+    savedReports.find(r => r.id === editingReportId) || null, 
+  [savedReports, editingReportId]);
+
+  // Pupils expected at this session. Includes deactivated pupils when an older
+  // record that marked them is loaded, shown in the Tahun they were in then.
+  const sheetPupils = useMemo(() => 
+    pupilsForSheet(pupils, attendance)
+      .map(p => editingReport ? { ...p, year: pupilYearAt(editingReport, p) } : p)
+      .filter(p => targetYears.includes(p.year)), 
+  [pupils, attendance, targetYears, editingReport]);
 
   const formattedDate = useMemo(() => {
     if (!selectedDate) return 'N/A';
-    return new Date(selectedDate).toLocaleDateString('ms-MY', {
-      day: '2-digit',
-      month: 'long',
-      year: 'numeric'
-    });
-  }, [selectedDate]);
+    return i18n.formatDate(selectedDate, LONG_DATE);
+  }, [selectedDate, i18n]);
 
   const totalPresent = useMemo(() => 
-    Object.values(attendance).filter(val => val).length, 
-  [attendance]);
+    countPresent(attendance, sheetPupils.map(p => p.id)), 
+  [sheetPupils, attendance]);
+
+  const sessionSignatures = useMemo(() => 
+    reportSignatures(teacherName, editingReport, teachers, i18n), 
+  [teacherName, editingReport, teachers, i18n]);
+
+  const pendingReviews = useMemo(() => 
+    reviewQueue(savedReports, currentTeacher), 
+  [savedReports, currentTeacher]);
+
+  // An edited report keeps the labels it was saved with unless the selection changes
+  const subjectName = useMemo(() => 
+    editingReport?.subjectId === selectedSubjectId
+      ? editingReport.subject
+      : catalogue.subjects.find(s => s.id === selectedSubjectId)?.name || '', 
+  [editingReport, selectedSubjectId, catalogue.subjects]);
+
+  const timeslotLabel = useMemo(() => 
+    editingReport?.timeslotId === selectedTimeslotId
+      ? editingReport.timeslot
+      : catalogue.timeslots.find(t => t.id === selectedTimeslotId)?.label || '', 
+  [editingReport, selectedTimeslotId, catalogue.timeslots]);
+
+  const duplicateGroups = useMemo(() => findDuplicateGroups(savedReports), [savedReports]);
+
+  const duplicateKeys = useMemo(() => 
+    new Set(duplicateGroups.map(group => sessionKey(group[0]))), 
+  [duplicateGroups]);
+
+  const filteredHistory = useMemo(() =>
+    sortReports(filterReports(savedReports, historyFilter, pupils), historySort, pupils),
+  [savedReports, historyFilter, historySort, pupils]);
+
+  const historyPageData = useMemo(() => paginate(filteredHistory, historyPage), [filteredHistory, historyPage]);
+
+  // Bulk actions only touch selected records the current filter still shows
+  const selectedReports = useMemo(() =>
+    filteredHistory.filter(r => selectedReportIds.includes(r.id)),
+  [filteredHistory, selectedReportIds]);
+
+  const profile = useMemo(() => {
+    const pupil = pupils.find(p => p.id === profilePupilId);
+    return pupil ? buildPupilProfile(pupil, savedReports, pupils, settings.excludeExcusedAbsences) : null;
+  }, [profilePupilId, pupils, savedReports, settings.excludeExcusedAbsences]);
+
+  const pupilsAtRisk = useMemo(() => 
+    findPupilsAtRisk(savedReports, pupils, settings.absenceStreakThreshold, settings.excludeExcusedAbsences), 
+  [savedReports, pupils, settings.absenceStreakThreshold, settings.excludeExcusedAbsences]);
 
   // Notification helper
-  const addNotification = (message: string, type: 'success' | 'info' | 'error' = 'success') => {
+  const addNotification = (message: string, type: NotificationType = 'success') => {
     const id = Math.random().toString(36).substring(2, 9);
     setNotifications(prev => [...prev, { id, message, type }]);
     setTimeout(() => {
@@ -95,157 +456,629 @@ const App: React.FC = () => {
     }, 4000);
   };
 
+  const unsentCount = useMemo(() => 
+    savedReports.filter(r => r.syncStatus === 'pending' || r.syncStatus === 'failed').length, 
+  [savedReports]);
+
+  const installApp = async () => {
+    if (!installPrompt) return;
+    await installPrompt.prompt();
+    setInstallPrompt(null);
+  };
+
+  const missingSessions = useMemo(() => 
+    findMissingSessions(timetable, savedReports, catalogue.timeslots, settings.missingSessionLookbackDays), 
+  [timetable, savedReports, catalogue.timeslots, settings.missingSessionLookbackDays]);
+
+  // Surat Amaran counts restart every calendar year
+  const letterYear = new Date().getFullYear();
+  const letterStatuses = useMemo(() =>
+    buildLetterStatuses(savedReports, pupils, warningLetters, settings.warningThresholds, letterYear),
+  [savedReports, pupils, warningLetters, settings.warningThresholds, letterYear]);
+  const lettersDue = letterStatuses.filter(s => s.dueLevel !== null).length;
+
   // Analytics Calculation
-  const stats = useMemo(() => {
-    const filterByMonth = (r: SavedReport) => {
-      const d = new Date(r.date);
-      return d.getFullYear() === analyticsYear && d.getMonth() === analyticsMonth;
-    };
+  const academicYearOptions = useMemo(() =>
+    academicYearsIn(savedReports, settings.academicYears),
+  [savedReports, settings.academicYears]);
 
-    const filterByYear = (r: SavedReport) => {
-      return new Date(r.date).getFullYear() === analyticsYear;
-    };
+  const analyticsReports = useMemo(() => analyticsAcademicYear === null
+    ? savedReports
+    : savedReports.filter(r => academicYearOf(r.date, settings.academicYears) === analyticsAcademicYear),
+  [savedReports, analyticsAcademicYear, settings.academicYears]);
 
-    const calculate = (reports: SavedReport[]): SubjectStats[] => {
-      return SUBJECTS.map(subject => {
-        const subReports = reports.filter(r => r.subject === subject);
-        const totalPresentInSubject = subReports.reduce((acc, r) => acc + r.totalPresent, 0);
-        const totalPossibleInSubject = subReports.length * PUPILS.length;
-        return {
-          subject,
-          totalPresent: totalPresentInSubject,
-          totalPossible: totalPossibleInSubject,
-          percentage: totalPossibleInSubject > 0 ? Math.round((totalPresentInSubject / totalPossibleInSubject) * 100) : 0,
-          sessionCount: subReports.length
-        };
-      });
-    };
+  const monthlyReports = useMemo(() => analyticsReports.filter(r => {
+    const d = new Date(r.date);
+    return d.getFullYear() === analyticsYear && d.getMonth() === analyticsMonth;
+  }), [analyticsReports, analyticsYear, analyticsMonth]);
+
+  const stats = useMemo(() => {
+    const yearlyReports = analyticsReports.filter(r => new Date(r.date).getFullYear() === analyticsYear);
 
     return {
-      monthly: calculate(savedReports.filter(filterByMonth)),
-      yearly: calculate(savedReports.filter(filterByYear))
+      monthly: calculateSubjectStats(monthlyReports, catalogue.subjects, pupils, settings.excludeExcusedAbsences),
+      yearly: calculateSubjectStats(yearlyReports, catalogue.subjects, pupils, settings.excludeExcusedAbsences),
+      monthlyByYear: calculateYearStats(monthlyReports, pupils, settings.excludeExcusedAbsences),
+      yearlyByYear: calculateYearStats(yearlyReports, pupils, settings.excludeExcusedAbsences)
     };
-  }, [savedReports, analyticsYear, analyticsMonth]);
+  }, [analyticsReports, monthlyReports, catalogue.subjects, pupils, analyticsYear, settings.excludeExcusedAbsences]);
+
+  const periodLabelIn = (labels: typeof i18n) => `${labels.monthName(analyticsMonth)} ${analyticsYear}`;
+
+  // Mean of the subjects that had at least one session this year
+  const yearlyAverage = useMemo(() => {
+    const held = stats.yearly.filter(s => s.sessionCount > 0);
+    return held.length > 0 ? Math.round(held.reduce((acc, s) => acc + s.percentage, 0) / held.length) : 0;
+  }, [stats.yearly]);
 
   // Attendance logic
   const toggleAttendance = (pupilId: string) => {
-    setAttendance(prev => ({ ...prev, [pupilId]: !prev[pupilId] }));
+    setAttendance(prev => ({ ...prev, [pupilId]: isPresentStatus(statusOf(prev, pupilId)) ? 'tidak_hadir' : 'hadir' }));
+  };
+
+  const setPupilStatus = (pupilId: string, status: AttendanceStatus) => {
+    setAttendance(prev => ({ ...prev, [pupilId]: status }));
+  };
+
+  const setPupilNote = (pupilId: string, note: string) => {
+    setNotes(prev => {
+      const next = { ...prev, [pupilId]: note };
+      if (!note.trim()) delete next[pupilId];
+      return next;
+    });
   };
 
   const selectAllInYear = (year: number) => {
     const newState = { ...attendance };
-    PUPILS.filter(p => p.year === year).forEach(p => newState[p.id] = true);
+    sheetPupils.filter(p => p.active && p.year === year).forEach(p => newState[p.id] = 'hadir');
     setAttendance(newState);
-    addNotification(`Semua murid Tahun ${year} ditanda hadir.`, 'info');
+    addNotification(t('notify.yearAllPresent', { year }), 'info');
+  };
+
+  const toggleTargetYear = (year: number) => {
+    setTargetYears(prev => prev.includes(year) 
+      ? prev.filter(y => y !== year) 
+      : YEARS.filter(y => y === year || prev.includes(y)));
   };
 
   const deselectAllInYear = (year: number) => {
     const newState = { ...attendance };
-    PUPILS.filter(p => p.year === year).forEach(p => newState[p.id] = false);
+    sheetPupils.filter(p => p.active && p.year === year).forEach(p => newState[p.id] = 'tidak_hadir');
     setAttendance(newState);
-    addNotification(`Kehadiran Tahun ${year} telah diset semula.`, 'info');
+    addNotification(t('notify.yearReset', { year }), 'info');
   };
 
   // Actions
-  const handleSaveSession = async () => {
-    if (!selectedTeacherId || !selectedSubject || !selectedTimeslot) {
-      addNotification("Sila pilih Guru, Subjek, dan Slot Masa.", "error");
-      return;
+  // Updates a stored record in place and appends what changed to its audit trail
+  const applyReportUpdate = (original: SavedReport, patch: Partial<SavedReport>, note?: string): boolean => {
+    const updated: SavedReport = { ...original, ...patch };
+    const changes = describeChanges(original, updated, pupils);
+    if (changes.length === 0 && !note) return false;
+    const reopen = changes.length > 0 ? reopenPatch(original) : {};
+    if (Object.keys(reopen).length > 0) {
+      Object.assign(updated, reopen);
+      changes.push("Semakan dibatalkan kerana rekod diubah");
+    }
+    const now = new Date().toISOString();
+    updated.updatedAt = now;
+    updated.auditTrail = [...(original.auditTrail || []), { at: now, by: currentTeacher?.name, changes: note ? [note, ...changes] : changes }];
+    if (GOOGLE_SCRIPT_URL) {
+      updated.syncStatus = 'pending';
+      updated.syncAttempts = 0;
     }
+    setSavedReports(prev => prev.map(r => r.id === updated.id ? updated : r));
+    return true;
+  };
 
-    const reportId = Date.now().toString();
-    const timestampStr = new Date().toLocaleTimeString('ms-MY');
+  const resolveConflict = async (action: 'merge' | 'replace') => {
+    if (!pendingConflict) return;
+    const { existing, incoming } = pendingConflict;
+    if (!canEditReport(currentTeacher, existing)) return;
+    if (action === 'merge') {
+      const mergedAttendance = mergeAttendance(existing.attendance, incoming.attendance);
+      const mergedYears = YEARS.filter(y => targetYearsOf(existing, pupils).includes(y) || (incoming.targetYears || []).includes(y));
+      const mergedExpected = Array.from(new Set([...expectedPupilIdsOf(existing, pupils), ...(incoming.expectedPupilIds || [])]));
+      applyReportUpdate(existing, {
+        attendance: mergedAttendance,
+        notes: { ...existing.notes, ...incoming.notes },
+        targetYears: mergedYears,
+        expectedPupilIds: mergedExpected,
+        pupilYears: { ...incoming.pupilYears, ...existing.pupilYears },
+        totalPresent: countPresent(mergedAttendance, mergedExpected)
+      }, `Digabungkan dengan rekod ${incoming.teacherName}`);
+      addNotification(t('notify.merged'), "success");
+    } else {
+      await takeSnapshot(`Sebelum ganti rekod ${existing.subject} ${existing.date}`);
+      applyReportUpdate(existing, incoming, `Diganti dengan rekod ${incoming.teacherName}`);
+      addNotification(t('notify.replaced'), "success");
+    }
+    // Further saves of this session now edit the surviving record
+    setEditingReportId(existing.id);
+    setPendingConflict(null);
+  };
 
-    const newReport: SavedReport = {
-      id: reportId,
+  // Drafts stay with the teacher; submitting puts the session in the supervisors' review queue
+  const handleSaveSession = (submit: boolean) => {
+    if (!selectedTeacherId || !selectedSubjectId || !selectedTimeslotId) {
+      addNotification(t('notify.selectSession'), "error");
+      return;
+    }
+    if (targetYears.length === 0) {
+      addNotification(t('notify.selectYear'), "error");
+      return;
+    }
+
+    const sessionData = {
       date: selectedDate,
-      timestamp: timestampStr,
       teacherId: selectedTeacherId,
       teacherName,
-      subject: selectedSubject as Subject,
-      timeslot: selectedTimeslot as Timeslot,
+      subjectId: selectedSubjectId,
+      subject: subjectName,
+      timeslotId: selectedTimeslotId,
+      timeslot: timeslotLabel,
       attendance: { ...attendance },
-      totalPresent
+      notes: { ...notes },
+      totalPresent,
+      targetYears: [...targetYears],
+      expectedPupilIds: sheetPupils.map(p => p.id),
+      pupilYears: Object.fromEntries(sheetPupils.map(p => [p.id, p.year]))
     };
 
-    // Prepare data for Google Sheets
-    const pupilData = PUPILS.map(p => ({
-      name: p.name,
-      year: p.year,
-      isPresent: !!attendance[p.id]
-    }));
+    // Edit mode: update the original record in place instead of inserting a new one
+    if (editingReport) {
+      if (!canEditReport(currentTeacher, editingReport)) {
+        addNotification(t('notify.ownRecordsOnly'), "error");
+        return;
+      }
+      const clash = findDuplicateSession(savedReports, sessionData, editingReport.id);
+      if (clash) {
+        addNotification(t('notify.sessionClash', { subject: clash.subject, date: clash.date, timeslot: clash.timeslot, teacher: clash.teacherName }), "error");
+        return;
+      }
+      const submitting = submit && reviewStatusOf(editingReport) === 'draft';
+      if (applyReportUpdate(editingReport, submitting ? { ...sessionData, ...submitPatch() } : sessionData, submitting ? "Dihantar untuk semakan" : undefined)) {
+        addNotification(submitting ? t('notify.updatedAndSubmitted') : t('notify.updated'), "info");
+        if (GOOGLE_SCRIPT_URL && !isOnline) {
+          addNotification(t('notify.offlineUpdateQueued'), "info");
+        }
+      } else {
+        addNotification(t('notify.noChanges'), "info");
+      }
+      return;
+    }
+
+    const existing = findDuplicateSession(savedReports, sessionData);
+    if (existing) {
+      setPendingConflict({ existing, incoming: sessionData });
+      return;
+    }
+
+    const newReport: SavedReport = {
+      id: Date.now().toString(),
+      timestamp: MALAY.formatTime(new Date()),
+      ...sessionData,
+      ...(submit ? submitPatch() : { reviewStatus: 'draft' as ReviewStatus }),
+      syncStatus: GOOGLE_SCRIPT_URL ? 'pending' : undefined,
+      syncAttempts: 0
+    };
 
-    setIsSavingToCloud(true);
-    
-    // Save locally first
+    // Save locally first; the outbox effect delivers it to Google Sheets
     setSavedReports(prev => [newReport, ...prev]);
-    addNotification(`Rekod disimpan secara lokal!`, "info");
+    addNotification(submit ? t('notify.savedAndSubmitted') : t('notify.draftSaved'), "info");
 
-    // Save to Google Sheets if URL provided
-    if (GOOGLE_SCRIPT_URL) {
-      try {
-        const response = await fetch(GOOGLE_SCRIPT_URL, {
-          method: 'POST',
-          mode: 'no-cors', // Apps Script requires no-cors often or handles it via redirect
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            ...newReport,
-            pupilData
-          })
-        });
-        addNotification(`Berjaya dihantar ke Google Sheets!`, "success");
-      } catch (error) {
-        console.error("Cloud save failed", error);
-        addNotification("Gagal simpan ke awan, tetapi disimpan di peranti.", "error");
-      }
-    } else {
-      addNotification("URL Google Script tidak ditetapkan. Data hanya disimpan di peranti ini.", "info");
+    if (!GOOGLE_SCRIPT_URL) {
+      addNotification(t('notify.noScriptUrl'), "info");
+    } else if (!isOnline) {
+      addNotification(t('notify.offlineQueued'), "info");
     }
-
-    setIsSavingToCloud(false);
   };
 
-  const exportPDF = async (ref: React.RefObject<HTMLDivElement | null>, filename: string) => {
-    if (!ref.current) return;
+  const exportPDF = (build: () => jsPDF, filename: string) => {
     setIsExporting(true);
-    addNotification("Menjana PDF, sila tunggu...", "info");
     try {
-      const canvas = await html2canvas(ref.current, { scale: 2 });
-      const imgData = canvas.toDataURL('image/png');
-      const pdf = new jsPDF('p', 'mm', 'a4');
-      const width = pdf.internal.pageSize.getWidth();
-      const height = (canvas.height * width) / canvas.width;
-      pdf.addImage(imgData, 'PNG', 0, 0, width, height);
-      pdf.save(filename);
-      addNotification("PDF berjaya dimuat turun!", "success");
+      build().save(filename);
+      addNotification(t('notify.pdfDownloaded'), "success");
     } catch (e) {
       console.error(e);
-      addNotification("Gagal menjana PDF.", "error");
+      addNotification(t('notify.pdfFailed'), "error");
     } finally {
       setIsExporting(false);
     }
   };
 
-  const deleteFromHistory = (e: React.MouseEvent, id: string) => {
+  const exportSessionPDF = () => exportPDF(() => buildSessionPdf({
+    formattedDate: pdfI18n.formatDate(selectedDate, LONG_DATE),
+    teacherName,
+    subject: subjectName || 'N/A',
+    timeslot: timeslotLabel || 'N/A',
+    years: targetYears,
+    pupils: sheetPupils,
+    attendance,
+    notes,
+    signatures: reportSignatures(teacherName, editingReport, teachers, pdfI18n)
+  }, pdfI18n), `Kehadiran_${selectedDate}_${subjectName}.pdf`);
+
+  const exportAnalyticsPDF = () => exportPDF(() => buildAnalyticsPdf({
+    periodLabel: periodLabelIn(pdfI18n),
+    year: analyticsYear,
+    ...stats,
+    yearlyAverage
+  }, pdfI18n), `Analisis_Kehadiran_${analyticsYear}_Bulan_${analyticsMonth + 1}.pdf`);
+
+  const exportRegisterPDF = () => exportPDF(
+    () => buildMonthlyRegisterPdf(periodLabelIn(pdfI18n), buildMonthlyRegister(monthlyReports, pupils, settings.excludeExcusedAbsences), pdfI18n),
+    `Daftar_Kehadiran_${analyticsYear}_Bulan_${analyticsMonth + 1}.pdf`
+  );
+
+  const exportImpactPDF = (impact: SubjectImpact[]) => exportPDF(
+    () => buildImpactPdf(impact, pdfI18n),
+    `Impak_Gilap_Permata_${todayIso()}.pdf`
+  );
+
+  const warningLetterFilename = (letter: WarningLetter) =>
+    `Surat_Amaran_${letter.level}_${letter.pupilName.replace(/\s+/g, '_')}.pdf`;
+
+  // Logged before the PDF is built, so a failed download can be reprinted from the log
+  const issueWarningLetter = (status: LetterStatus) => {
+    if (!currentTeacher || status.dueLevel === null) return;
+    const letter: WarningLetter = {
+      id: createRosterId('w'),
+      pupilId: status.pupil.id,
+      pupilName: status.pupil.name,
+      pupilYear: status.pupil.year,
+      guardianName: status.pupil.guardianName,
+      level: status.dueLevel,
+      year: letterYear,
+      reference: nextReference(warningLetters, letterYear),
+      absences: status.absences,
+      issuedAt: new Date().toISOString(),
+      issuedById: currentTeacher.id,
+      issuedByName: currentTeacher.name
+    };
+    setWarningLetters(prev => [...prev, letter]);
+    exportPDF(() => buildWarningLetterPdf(letter), warningLetterFilename(letter));
+  };
+
+  const reprintWarningLetter = (letter: WarningLetter) =>
+    exportPDF(() => buildWarningLetterPdf(letter), warningLetterFilename(letter));
+
+  const deleteWarningLetter = async (letter: WarningLetter) => {
+    if (!supervisor) return;
+    await takeSnapshot(`Sebelum padam Surat Amaran ${letter.reference}`);
+    setWarningLetters(prev => prev.filter(l => l.id !== letter.id));
+    addNotification(t('letters.deleted', { reference: letter.reference }), "info");
+  };
+
+  const loadReportForEditing = (report: SavedReport) => {
+    setSelectedDate(report.date);
+    setSelectedTeacherId(report.teacherId);
+    setSelectedSubjectId(report.subjectId);
+    setSelectedTimeslotId(report.timeslotId);
+    setAttendance(report.attendance);
+    setNotes(report.notes || {});
+    setTargetYears(targetYearsOf(report, pupils));
+    setEditingReportId(report.id);
+    setActiveTab('preview');
+    window.scrollTo(0, 0);
+  };
+
+  const applyScheduledSlot = (slot: TimetableSlot) => {
+    setSelectedSubjectId(slot.subjectId);
+    setSelectedTimeslotId(slot.timeslotId);
+    setTargetYears([...slot.targetYears]);
+    addNotification(i18nRef.current.t('notify.prefilled'), "info");
+  };
+
+  // New sessions are always recorded under the signed-in teacher, prefilled from today's timetable
+  const beginSession = (teacher: Teacher, slots: TimetableSlot[], reports: SavedReport[], timeslots: Catalogue['timeslots']) => {
+    setCurrentTeacherId(teacher.id);
+    setSelectedTeacherId(teacher.id);
+    const slot = findScheduledSlot(slots, todayIso(), teacher.id, reports, timeslots);
+    if (slot) applyScheduledSlot(slot);
+  };
+
+  const handleSignIn = (teacher: Teacher) => {
+    saveSession(teacher.id);
+    setSettings(prev => ({ ...prev, lastTeacherId: teacher.id }));
+    setEditingReportId(null);
+    setAttendance({});
+    setNotes({});
+    setSelectedDate(todayIso());
+    setSelectedSubjectId('');
+    setSelectedTimeslotId('');
+    setTargetYears(YEARS);
+    beginSession(teacher, timetable, savedReports, catalogue.timeslots);
+    addNotification(t('notify.welcome', { name: teacher.name }), "success");
+  };
+
+  const changeLanguage = (language: Language) => setSettings(prev => ({ ...prev, language }));
+
+  const handleSetPin = (teacherId: string, pinHash: string) =>
+    setTeachers(prev => prev.map(t => t.id === teacherId ? { ...t, pinHash, pinTemporary: undefined } : t));
+
+  const handleSignOut = () => {
+    clearSession();
+    setCurrentTeacherId(null);
+    setEditingReportId(null);
+    setActiveTab('record');
+  };
+
+  const recordMissingSession = ({ date, slot }: MissingSession) => {
+    setEditingReportId(null);
+    setAttendance({});
+    setNotes({});
+    setSelectedDate(date);
+    setSelectedTeacherId(currentTeacherId || '');
+    setSelectedSubjectId(slot.subjectId);
+    setSelectedTimeslotId(slot.timeslotId);
+    setTargetYears([...slot.targetYears]);
+    setActiveTab('record');
+    window.scrollTo(0, 0);
+  };
+
+  const startNewSession = () => {
+    setEditingReportId(null);
+    setSelectedTeacherId(currentTeacherId || '');
+    setAttendance({});
+    setNotes({});
+    setSelectedDate(new Date().toISOString().split('T')[0]);
+    addNotification(t('notify.editEnded'), "info");
+  };
+
+  const retrySync = (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    setSavedReports(prev => prev.map(r => r.id === id ? { ...r, syncStatus: 'pending' } : r));
+  };
+
+  const handleExport = (format: ExportFormat, reports: SavedReport[] = savedReports) => {
+    if (reports.length === 0) {
+      addNotification(t('notify.nothingToExport'), "error");
+      return;
+    }
+    const stamp = new Date().toISOString().split('T')[0];
+    if (format === 'xlsx') {
+      exportXlsx(reports, pupils, `Kehadiran_${stamp}.xlsx`);
+    } else if (format === 'summary') {
+      downloadText(summaryToCsv(reports, pupils), `Ringkasan_Kehadiran_${stamp}.csv`, 'text/csv');
+    } else {
+      downloadText(attendanceToCsv(reports, pupils), `Kehadiran_${stamp}.csv`, 'text/csv');
+    }
+    addNotification(t('notify.exportDownloaded'), "success");
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const preview = importAttendanceCsv(await file.text(), savedReports, pupils, teachers, catalogue);
+      setPendingImport({ filename: file.name, preview });
+    } catch (error) {
+      console.error(error);
+      addNotification(t('notify.csvReadFailed'), "error");
+    }
+  };
+
+  const confirmImport = () => {
+    if (!pendingImport) return;
+    // Queued like a session saved on this device, so the outbox delivers it
+    const imported: SavedReport[] = pendingImport.preview.reports.map(r => ({
+      ...r,
+      syncStatus: GOOGLE_SCRIPT_URL ? 'pending' : undefined,
+      syncAttempts: 0
+    }));
+    setSavedReports(prev => [...prev, ...imported].sort((a, b) => b.date.localeCompare(a.date) || b.id.localeCompare(a.id)));
+    setPendingImport(null);
+    addNotification(t('notify.imported', { count: imported.length }), "success");
+  };
+
+  // Pull: other devices' sessions come back from the sheet and are merged by report id
+  const pullFromSheets = async () => {
+    if (!isOnline) {
+      addNotification(t('notify.pullOffline'), "error");
+      return;
+    }
+    setIsPulling(true);
+    try {
+      const remote = await fetchRemoteHistory();
+      const reports = remote.reports.map(r => checkReviewStamps(upgradePupilYears(r, pupils), teachers));
+      const preview = planPull(savedReports, { ...remote, reports }, pupils, deletedReports);
+      if (preview.added.length + preview.updated.length + preview.conflicts.length + preview.removed.length === 0) {
+        addNotification(t('notify.pullUpToDate'), "info");
+      } else {
+        setPendingPull(preview);
+      }
+    } catch (error) {
+      console.error("Pull from sheet failed", error);
+      addNotification(t('notify.pullFailed', { error: error instanceof Error ? error.message : String(error) }), "error");
+    } finally {
+      setIsPulling(false);
+    }
+  };
+
+  const confirmPull = async (useRemote: Set<string>) => {
+    if (!pendingPull) return;
+    const preview = pendingPull;
+    await takeSnapshot("Sebelum tarik rekod dari Google Sheets");
+    setSavedReports(prev => applyPull(prev, preview, useRemote, pupils, deletedReports));
+    setCatalogue(prev => ensureCatalogueCovers(prev, [...preview.added, ...preview.updated, ...preview.conflicts.map(c => c.remote)]));
+    const replaced = new Set([...preview.updated.map(r => r.id), ...useRemote, ...preview.removed.map(r => r.id)]);
+    if (editingReportId && replaced.has(editingReportId)) setEditingReportId(null);
+    setPendingPull(null);
+    addNotification(t('notify.pulled', { added: preview.added.length, updated: replaced.size - preview.removed.length, removed: preview.removed.length }), "success");
+  };
+
+  // Rolling local copy of everything, taken before any destructive action
+  const takeSnapshot = async (reason: string) => {
+    const updated = await saveSnapshot(reason, createBackup(savedReports, { pupils, teachers }, catalogue, timetable, assessments, warningLetters, settings));
+    setSnapshots(updated);
+    if (updated.length === 0) {
+      addNotification(t('notify.snapshotFull'), "error");
+    }
+  };
+
+  const handleRestore = async (backup: BackupFile) => {
+    await takeSnapshot("Sebelum pemulihan sandaran");
+    // A restored record that had been deleted is sent again, so the sheet has it back
+    const deletedIds = new Set(deletedReports.map(d => d.id));
+    const restored = backup.reports.map(r => deletedIds.has(r.id) && GOOGLE_SCRIPT_URL ? { ...r, syncStatus: 'pending' as SyncStatus, syncAttempts: 0 } : r);
+    setSavedReports(prev => mergeById(prev, restored).sort((a, b) => b.date.localeCompare(a.date) || b.id.localeCompare(a.id)));
+    setDeletedReports(prev => prev.filter(d => !backup.reports.some(r => r.id === d.id)));
+    setPupils(prev => sortPupils(mergeById(prev, backup.roster.pupils)));
+    setTeachers(prev => sortTeachers(mergeById(prev, backup.roster.teachers)));
+    setCatalogue(prev => ensureCatalogueCovers({
+      subjects: mergeById(prev.subjects, backup.catalogue.subjects),
+      timeslots: mergeById(prev.timeslots, backup.catalogue.timeslots)
+    }, backup.reports));
+    setTimetable(prev => mergeById(prev, backup.timetable));
+    setAssessments(prev => mergeById(prev, backup.assessments));
+    setWarningLetters(prev => mergeById(prev, backup.warningLetters));
+    setSettings(backup.settings);
+    setEditingReportId(null);
+    addNotification(t('notify.restored', { count: backup.reports.length }), "success");
+  };
+
+  // Tahun Baru: older reports are pinned to their Tahun first, so past analytics keep grouping pupils where they were
+  const startNewSchoolYear = async (startDate: string) => {
+    const year = parseDate(startDate).getFullYear();
+    if (!supervisor || settings.academicYears.some(y => y.year === year)) return;
+    await takeSnapshot(`Sebelum Tahun Baru ${year}`);
+    setSavedReports(prev => prev.map(r => upgradePupilYears(r, pupils)));
+    setPupils(prev => sortPupils(rolloverPupils(prev, year)));
+    setSettings(prev => ({
+      ...prev,
+      academicYears: [...prev.academicYears, { year, startDate }].sort((a, b) => a.startDate.localeCompare(b.startDate))
+    }));
+    addNotification(t('notify.newSchoolYear', { year }), "success");
+  };
+
+  const saveAssessment = (assessment: Assessment) =>
+    setAssessments(prev => prev.some(a => a.id === assessment.id)
+      ? prev.map(a => a.id === assessment.id ? assessment : a)
+      : [...prev, assessment]);
+
+  const deleteAssessment = async (assessment: Assessment) => {
+    if (!canEditReport(currentTeacher, assessment)) return;
+    await takeSnapshot(`Sebelum padam pentaksiran ${assessment.title}`);
+    setAssessments(prev => prev.filter(a => a.id !== assessment.id));
+    addNotification(t('assessments.deleted', { title: assessment.title }), "info");
+  };
+
+  const submitForReview = (report: SavedReport) => {
+    if (!canEditReport(currentTeacher, report) || reviewStatusOf(report) !== 'draft') return;
+    applyReportUpdate(report, submitPatch(), "Dihantar untuk semakan");
+    addNotification(t('notify.submitted'), "success");
+  };
+
+  const reviewReport = (report: SavedReport, action: ReviewAction) => {
+    if (!currentTeacher || reviewActionFor(currentTeacher, report) !== action) return;
+    applyReportUpdate(report, reviewPatch(action, currentTeacher), `${action === 'semak' ? 'Disemak' : 'Disahkan'} oleh ${currentTeacher.name}`);
+    addNotification(action === 'semak' ? t('notify.reviewed') : t('notify.approved'), "success");
+  };
+
+  const returnReport = (report: SavedReport) => {
+    if (!currentTeacher || !canReturnReport(currentTeacher, report)) return;
+    const comment = window.prompt(t('prompt.returnReason', { subject: report.subject, date: report.date, teacher: report.teacherName }))?.trim();
+    if (!comment) return;
+    applyReportUpdate(report, returnPatch(currentTeacher, comment), `Dipulangkan oleh ${currentTeacher.name}: ${comment}`);
+    addNotification(t('notify.returned'), "info");
+  };
+
+  // Deleting removes the record from the sheet too, and keeps a pull from bringing it back
+  const recordDeletions = (ids: string[]) => {
+    const deletedAt = new Date().toISOString();
+    setDeletedReports(prev => [
+      ...prev.filter(d => !ids.includes(d.id)),
+      ...ids.map(id => ({ id, deletedAt, syncStatus: GOOGLE_SCRIPT_URL ? 'pending' as SyncStatus : undefined }))
+    ]);
+  };
+
+  const deleteFromHistory = async (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
-    if (window.confirm("Padam rekod ini secara kekal?")) {
-      const updated = savedReports.filter(r => r.id !== id);
-      setSavedReports(updated);
-      addNotification("Rekod telah dipadam daripada sejarah.", "info");
+    if (!supervisor) return;
+    if (window.confirm(t('confirm.deleteRecord'))) {
+      const target = savedReports.find(r => r.id === id);
+      await takeSnapshot(`Sebelum padam rekod ${target ? `${target.subject} ${target.date}` : id}`);
+      setSavedReports(prev => prev.filter(r => r.id !== id));
+      recordDeletions([id]);
+      if (editingReportId === id) setEditingReportId(null);
+      addNotification(t('notify.deleted'), "info");
     }
   };
 
-  const handleClearHistory = (e: React.MouseEvent) => {
+  const deleteSelectedReports = async () => {
+    if (!supervisor || selectedReports.length === 0) return;
+    if (!window.confirm(t('confirm.deleteSelected', { count: selectedReports.length }))) return;
+    await takeSnapshot(`Sebelum padam ${selectedReports.length} rekod terpilih`);
+    const ids = new Set(selectedReports.map(r => r.id));
+    setSavedReports(prev => prev.filter(r => !ids.has(r.id)));
+    recordDeletions(selectedReports.map(r => r.id));
+    if (editingReportId && ids.has(editingReportId)) setEditingReportId(null);
+    setSelectedReportIds([]);
+    addNotification(t('notify.deletedSelected', { count: ids.size }), "info");
+  };
+
+  const changeHistoryFilter = (filter: HistoryFilter) => {
+    setHistoryFilter(filter);
+    setHistoryPage(1);
+  };
+
+  const toggleReportSelected = (id: string) =>
+    setSelectedReportIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+
+  const handleClearHistory = async (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (window.confirm("Padam SEMUA rekod sejarah? Tindakan ini tidak boleh dibatalkan.")) {
-      setSavedReports([]);
-      addNotification("Semua rekod sejarah telah dikosongkan.", "info");
+    if (!supervisor) return;
+    if (window.confirm(t('confirm.clearHistory'))) {
+      const ids: string[] = savedReports.map(r => r.id);
+      const cleared = new Set(ids);
+      await takeSnapshot("Sebelum kosongkan semua sejarah");
+      // Only what was confirmed; the sheet is told too, so the next pull does not bring it back
+      setSavedReports(prev => prev.filter(r => !cleared.has(r.id)));
+      recordDeletions(ids);
+      setEditingReportId(null);
+      addNotification(t('notify.historyCleared'), "info");
     }
   };
 
-  const BarChart = ({ data, colorClass = "bg-indigo-600" }: { data: SubjectStats[], colorClass?: string }) => (
+  const editBanner = editingReport && (
+    <div className="bg-amber-50 border border-amber-200 p-5 rounded-3xl flex flex-col sm:flex-row justify-between sm:items-center gap-4">
+      <div>
+        <p className="text-sm font-black text-amber-900">✏️ {t('edit.mode')} — {editingReport.subject} • {editingReport.date} • {editingReport.timeslot} • {t(REVIEW_BADGES[reviewStatusOf(editingReport)].label)}</p>
+        {reviewStatusOf(editingReport) === 'draft' && editingReport.returnComment && (
+          <p className="text-[11px] font-bold text-rose-600">↩️ {t('edit.returnedBy', { name: editingReport.returnedBy?.byName || '' })}: {editingReport.returnComment}</p>
+        )}
+        <p className="text-[11px] font-bold text-amber-700">
+          {canEditReport(currentTeacher, editingReport)
+            ? t('edit.updatesOriginal')
+            : t('edit.viewOnly', { teacher: editingReport.teacherName })}
+        </p>
+        {editingReport.auditTrail && editingReport.auditTrail.length > 0 && (
+          <details className="mt-2">
+            <summary className="text-[10px] font-black uppercase text-amber-700 cursor-pointer">{t('edit.auditTrail', { count: editingReport.auditTrail.length })}</summary>
+            <div className="mt-2 space-y-2">
+              {[...editingReport.auditTrail].reverse().map(entry => (
+                <div key={entry.at} className="text-[11px] font-bold text-amber-900 bg-white/70 px-3 py-2 rounded-xl border border-amber-100">
+                  <p className="text-[10px] font-black text-amber-600">{i18n.formatDateTime(entry.at)}{entry.by ? ` • ${entry.by}` : ''}</p>
+                  {entry.changes.map((c, idx) => <p key={idx}>• {c}</p>)}
+                </div>
+              ))}
+            </div>
+          </details>
+        )}
+      </div>
+      <button onClick={startNewSession} className="px-4 py-2 bg-white text-amber-700 border border-amber-200 rounded-xl text-xs font-black hover:bg-amber-100 transition-colors whitespace-nowrap">
+        {t('edit.end')}
+      </button>
+    </div>
+  );
+
+  const BarChart = ({ data, colorClass = "bg-indigo-600" }: { data: (AttendanceRate & { label: string })[], colorClass?: string }) => (
     <div className="space-y-6">
-      <div className="flex items-end gap-4 h-64 border-b-2 border-slate-200 pb-2 relative pt-12 px-4">
+      <div className={`flex items-end ${data.length > 6 ? 'gap-1' : 'gap-4'} h-64 border-b-2 border-slate-200 pb-2 relative pt-12 px-4`}>
+        {data.length === 0 && (
+          <p className="flex-1 self-center text-center text-xs font-bold text-slate-300 italic">{t('common.noData')}</p>
+        )}
         {data.map((s, idx) => (
           <div key={idx} className="flex-1 flex flex-col items-center group relative h-full justify-end">
             <div 
@@ -257,7 +1090,7 @@ const App: React.FC = () => {
               </div>
             </div>
             <div className="mt-4 text-[9px] font-black text-slate-400 uppercase tracking-tighter text-center h-10 flex items-center justify-center leading-tight">
-              {s.subject}
+              {s.label}
             </div>
           </div>
         ))}
@@ -272,6 +1105,19 @@ const App: React.FC = () => {
     </div>
   );
 
+  if (hasLoaded && !currentTeacher) {
+    return (
+      <SignInScreen
+        teachers={teachers}
+        lastTeacherId={settings.lastTeacherId}
+        onSignIn={handleSignIn}
+        onSetPin={handleSetPin}
+        onLanguageChange={changeLanguage}
+        i18n={i18n}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen flex flex-col bg-slate-50">
       {/* Toast Notifications */}
@@ -300,17 +1146,52 @@ const App: React.FC = () => {
       <header className="bg-indigo-800 text-white shadow-xl px-6 py-5 sticky top-0 z-40">
         <div className="max-w-7xl mx-auto flex flex-col md:flex-row justify-between items-center gap-6">
           <div className="text-center md:text-left">
-            <h1 className="text-2xl font-black tracking-tight leading-none">SK KG KLID/PLAJAU</h1>
-            <p className="text-indigo-300 text-xs font-bold uppercase tracking-widest mt-1">Dashboard Kehadiran • Kelas Gilap Permata</p>
+            <h1 className="text-2xl font-black tracking-tight leading-none">{SCHOOL_NAME}</h1>
+            <p className="text-indigo-300 text-xs font-bold uppercase tracking-widest mt-1">{t('header.subtitle')}</p>
+            {currentTeacher && (
+              <p className="text-indigo-100 text-[11px] font-bold mt-2">
+                👤 {currentTeacher.name}{supervisor ? ` (${i18n.roleLabel(currentTeacher.role)})` : ''}
+                <button onClick={handleSignOut} className="ml-3 text-[10px] font-black uppercase text-indigo-300 hover:text-white underline">{t('header.signOut')}</button>
+              </p>
+            )}
+            <div className="flex flex-wrap justify-center md:justify-start items-center gap-2 mt-2">
+              <span
+                title={isOnline ? t('header.onlineHint') : t('header.offlineHint')}
+                className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-[10px] font-black uppercase ${isOnline ? 'bg-emerald-500/20 text-emerald-200' : 'bg-amber-500/20 text-amber-200'}`}
+              >
+                <span className={`w-2 h-2 rounded-full ${isOnline ? 'bg-emerald-400' : 'bg-amber-400 animate-pulse'}`}></span>
+                {isOnline ? (isSavingToCloud ? t('header.sending') : t('header.online')) : t('header.offline')}
+                {unsentCount > 0 && ` • ${t('header.unsent', { count: unsentCount })}`}
+              </span>
+              {installPrompt && (
+                <button onClick={installApp} className="px-2.5 py-1 rounded-full text-[10px] font-black uppercase bg-white/10 text-indigo-100 hover:bg-white/20">{t('header.install')}</button>
+              )}
+              <div title={t('header.language')} className="flex rounded-full bg-white/10 p-0.5">
+                {LANGUAGES.map(l => (
+                  <button
+                    key={l.value}
+                    onClick={() => changeLanguage(l.value)}
+                    className={`px-2 py-0.5 rounded-full text-[10px] font-black ${settings.language === l.value ? 'bg-white text-indigo-900' : 'text-indigo-200 hover:text-white'}`}
+                  >
+                    {l.label}
+                  </button>
+                ))}
+              </div>
+            </div>
           </div>
 
           <div className="flex bg-indigo-900/50 p-1 rounded-2xl border border-indigo-700/50 backdrop-blur-md overflow-x-auto max-w-full">
             {[
-              { id: 'record', label: 'Rekod', icon: '📝' },
-              { id: 'preview', label: 'Pratonton', icon: '📄' },
-              { id: 'history', label: 'Sejarah', icon: '📚' },
-              { id: 'analytics', label: 'Analisis', icon: '📊' }
-            ].map((tab) => (
+              { id: 'record', label: t('tab.record'), icon: '📝' },
+              { id: 'preview', label: t('tab.preview'), icon: '📄' },
+              { id: 'history', label: t('tab.history'), icon: '📚' },
+              { id: 'analytics', label: t('tab.analytics'), icon: '📊' },
+              { id: 'assessments', label: t('tab.assessments'), icon: '🎯' },
+              { id: 'letters', label: t('tab.letters'), icon: '✉️', badge: lettersDue },
+              { id: 'timetable', label: t('tab.timetable'), icon: '🗓️', badge: missingSessions.length },
+              { id: 'roster', label: t('tab.roster'), icon: '👥', supervisorOnly: true },
+              { id: 'data', label: t('tab.data'), icon: '💾', supervisorOnly: true }
+            ].filter(tab => supervisor || !tab.supervisorOnly).map((tab) => (
               <button
                 key={tab.id}
                 onClick={() => setActiveTab(tab.id as any)}
@@ -321,6 +1202,7 @@ const App: React.FC = () => {
               >
                 <span className="text-sm">{tab.icon}</span>
                 {tab.label}
+                {tab.badge ? <span className="bg-rose-500 text-white text-[9px] px-1.5 py-0.5 rounded-full">{tab.badge}</span> : null}
               </button>
             ))}
           </div>
@@ -332,53 +1214,65 @@ const App: React.FC = () => {
         {/* RECORD TAB */}
         {activeTab === 'record' && (
           <div className="space-y-8 animate-in fade-in duration-500">
+            {editBanner}
             <div className="bg-white p-8 rounded-3xl shadow-sm border border-slate-200 grid grid-cols-1 md:grid-cols-4 gap-8">
               <div className="space-y-2">
-                <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Tarikh Sesi</label>
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">{t('record.date')}</label>
                 <input type="date" value={selectedDate} onChange={(e) => setSelectedDate(e.target.value)} className="w-full p-4 bg-slate-50 border-2 border-slate-100 rounded-2xl font-bold text-slate-700 outline-none focus:border-indigo-500 transition-colors" />
               </div>
               <div className="space-y-2">
-                <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Guru</label>
-                <select value={selectedTeacherId} onChange={(e) => setSelectedTeacherId(e.target.value)} className="w-full p-4 bg-slate-50 border-2 border-slate-100 rounded-2xl font-bold text-slate-700 outline-none focus:border-indigo-500 transition-colors">
-                  <option value="">Pilih Guru</option>
-                  {TEACHERS.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
-                </select>
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">{t('common.teacher')}</label>
+                <p className="w-full p-4 bg-slate-100 border-2 border-slate-100 rounded-2xl font-bold text-slate-500 truncate" title={t('record.teacherHint')}>{teacherName}</p>
               </div>
               <div className="space-y-2">
-                <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Subjek</label>
-                <select value={selectedSubject} onChange={(e) => setSelectedSubject(e.target.value as Subject)} className="w-full p-4 bg-slate-50 border-2 border-slate-100 rounded-2xl font-bold text-slate-700 outline-none focus:border-indigo-500 transition-colors">
-                  <option value="">Pilih Subjek</option>
-                  {SUBJECTS.map(s => <option key={s} value={s}>{s}</option>)}
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">{t('common.subject')}</label>
+                <select value={selectedSubjectId} onChange={(e) => setSelectedSubjectId(e.target.value)} className="w-full p-4 bg-slate-50 border-2 border-slate-100 rounded-2xl font-bold text-slate-700 outline-none focus:border-indigo-500 transition-colors">
+                  <option value="">{t('record.chooseSubject')}</option>
+                  {catalogue.subjects.filter(s => s.active || s.id === selectedSubjectId).map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
                 </select>
               </div>
               <div className="space-y-2">
-                <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Slot Masa</label>
-                <select value={selectedTimeslot} onChange={(e) => setSelectedTimeslot(e.target.value as Timeslot)} className="w-full p-4 bg-slate-50 border-2 border-slate-100 rounded-2xl font-bold text-slate-700 outline-none focus:border-indigo-500 transition-colors">
-                  <option value="">Pilih Slot Masa</option>
-                  {TIMESLOTS.map(t => <option key={t} value={t}>{t}</option>)}
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">{t('common.timeslot')}</label>
+                <select value={selectedTimeslotId} onChange={(e) => setSelectedTimeslotId(e.target.value)} className="w-full p-4 bg-slate-50 border-2 border-slate-100 rounded-2xl font-bold text-slate-700 outline-none focus:border-indigo-500 transition-colors">
+                  <option value="">{t('record.chooseTimeslot')}</option>
+                  {catalogue.timeslots.filter(t => t.active || t.id === selectedTimeslotId).map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
                 </select>
               </div>
+              <div className="space-y-3 md:col-span-4">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">{t('record.targetYears')}</label>
+                <div className="flex flex-wrap gap-2">
+                  {YEARS.map(year => (
+                    <button 
+                      key={year} 
+                      onClick={() => toggleTargetYear(year)} 
+                      className={`px-4 py-2 rounded-full text-xs font-black border-2 transition-all ${targetYears.includes(year) ? 'bg-indigo-600 border-indigo-600 text-white shadow' : 'bg-white border-slate-100 text-slate-400 hover:border-slate-200'}`}
+                    >
+                      {t('common.year', { year })}
+                    </button>
+                  ))}
+                </div>
+              </div>
             </div>
 
             <div className="grid grid-cols-1 gap-4 max-w-4xl mx-auto">
-              {[1, 2, 3, 4, 5, 6].map(year => {
+              {targetYears.map(year => {
                 const isExpanded = expandedYear === year;
-                const yearPupils = PUPILS.filter(p => p.year === year);
-                const presentInYear = yearPupils.filter(p => attendance[p.id]).length;
+                const yearPupils = sheetPupils.filter(p => p.year === year);
+                const presentInYear = countPresent(attendance, yearPupils.map(p => p.id));
                 return (
                   <div key={year} className="bg-white rounded-3xl shadow-sm border border-slate-200 overflow-hidden flex flex-col transition-all">
                     <button onClick={() => setExpandedYear(isExpanded ? null : year)} className={`w-full px-8 py-6 flex justify-between items-center transition-colors ${isExpanded ? 'bg-indigo-50/30' : 'hover:bg-slate-50'}`}>
                       <div className="flex items-center gap-4">
                         <div className={`w-10 h-10 rounded-2xl flex items-center justify-center font-black ${isExpanded ? 'bg-indigo-600 text-white shadow-lg' : 'bg-slate-100 text-slate-600'}`}>{year}</div>
                         <div className="text-left">
-                          <h3 className="font-black text-slate-800">Tahun {year}</h3>
-                          <p className="text-[10px] font-bold text-slate-400 uppercase">{presentInYear} / {yearPupils.length} Hadir</p>
+                          <h3 className="font-black text-slate-800">{t('common.year', { year })}</h3>
+                          <p className="text-[10px] font-bold text-slate-400 uppercase">{t('common.presentOf', { present: presentInYear, total: yearPupils.length })}</p>
                         </div>
                       </div>
                       <div className="flex items-center gap-4">
                         <div className="hidden sm:flex gap-2">
-                          <button onClick={(e) => { e.stopPropagation(); selectAllInYear(year); }} className="text-[10px] font-black uppercase text-indigo-600 border border-indigo-100 px-3 py-1 rounded-full bg-white hover:bg-indigo-50">Semua</button>
-                          <button onClick={(e) => { e.stopPropagation(); deselectAllInYear(year); }} className="text-[10px] font-black uppercase text-rose-500 border border-rose-100 px-3 py-1 rounded-full bg-white hover:bg-rose-50">Reset</button>
+                          <button onClick={(e) => { e.stopPropagation(); selectAllInYear(year); }} className="text-[10px] font-black uppercase text-indigo-600 border border-indigo-100 px-3 py-1 rounded-full bg-white hover:bg-indigo-50">{t('record.all')}</button>
+                          <button onClick={(e) => { e.stopPropagation(); deselectAllInYear(year); }} className="text-[10px] font-black uppercase text-rose-500 border border-rose-100 px-3 py-1 rounded-full bg-white hover:bg-rose-50">{t('record.reset')}</button>
                         </div>
                         <svg className={`w-6 h-6 text-slate-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M19 9l-7 7-7-7"></path></svg>
                       </div>
@@ -386,12 +1280,39 @@ const App: React.FC = () => {
                     {isExpanded && (
                       <div className="px-8 pb-8 animate-in slide-in-from-top-4 duration-300">
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-4 border-t border-slate-100 pt-6">
-                          {yearPupils.map(p => (
-                            <label key={p.id} className={`flex items-center p-4 rounded-2xl cursor-pointer transition-all border-2 ${attendance[p.id] ? 'bg-indigo-50 border-indigo-200' : 'bg-slate-50/30 border-transparent hover:border-slate-100'}`}>
-                              <input type="checkbox" checked={!!attendance[p.id]} onChange={() => toggleAttendance(p.id)} className="h-6 w-6 appearance-none rounded-lg border-2 border-slate-300 checked:bg-indigo-600 transition-all cursor-pointer" />
-                              <span className={`ml-4 text-sm font-bold ${attendance[p.id] ? 'text-indigo-900 font-extrabold' : 'text-slate-600'}`}>{p.name}</span>
-                            </label>
-                          ))}
+                          {yearPupils.map(p => {
+                            const status = statusOf(attendance, p.id);
+                            const isPresent = isPresentStatus(status);
+                            return (
+                              <div key={p.id} className={`p-4 rounded-2xl transition-all border-2 ${isPresent ? 'bg-indigo-50 border-indigo-200' : 'bg-slate-50/30 border-transparent hover:border-slate-100'}`}>
+                                <div className="flex items-center gap-2">
+                                  <label className="flex items-center flex-1 cursor-pointer">
+                                    <input type="checkbox" checked={isPresent} onChange={() => toggleAttendance(p.id)} className="h-6 w-6 appearance-none rounded-lg border-2 border-slate-300 checked:bg-indigo-600 transition-all cursor-pointer" />
+                                    <span className={`ml-4 flex-1 text-sm font-bold ${isPresent ? 'text-indigo-900 font-extrabold' : 'text-slate-600'}`}>{p.name}</span>
+                                  </label>
+                                  <select
+                                    value={status}
+                                    onChange={(e) => setPupilStatus(p.id, e.target.value as AttendanceStatus)}
+                                    className="text-[10px] font-black uppercase bg-white border border-slate-200 rounded-lg px-2 py-1 text-slate-600 outline-none focus:border-indigo-500"
+                                  >
+                                    {ATTENDANCE_STATUSES.map(s => <option key={s.value} value={s.value}>{i18n.statusLabel(s.value)}</option>)}
+                                  </select>
+                                  <button onClick={() => setProfilePupilId(p.id)} title={t('record.profile')} className="text-slate-300 hover:text-indigo-600 p-1 rounded-lg transition-colors">
+                                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z"></path></svg>
+                                  </button>
+                                </div>
+                                {status !== 'hadir' && (
+                                  <input
+                                    type="text"
+                                    value={notes[p.id] || ''}
+                                    onChange={(e) => setPupilNote(p.id, e.target.value)}
+                                    placeholder={t('record.notePlaceholder')}
+                                    className="mt-3 w-full px-3 py-2 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-600 outline-none focus:border-indigo-500"
+                                  />
+                                )}
+                              </div>
+                            );
+                          })}
                         </div>
                       </div>
                     )}
@@ -402,7 +1323,7 @@ const App: React.FC = () => {
             
             <div className="flex justify-center pt-8">
               <button onClick={() => { setActiveTab('preview'); window.scrollTo(0, 0); }} className="px-12 py-5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-full font-black shadow-2xl active:scale-95 transition-all flex items-center gap-3">
-                Teruskan ke Pratonton & Simpan
+                {t('record.continue')}
               </button>
             </div>
           </div>
@@ -411,83 +1332,95 @@ const App: React.FC = () => {
         {/* PREVIEW TAB */}
         {activeTab === 'preview' && (
           <div className="max-w-4xl mx-auto space-y-10 animate-in slide-in-from-bottom-6 duration-500">
+            {editBanner}
             <div className="bg-white p-6 rounded-3xl border border-slate-200 flex flex-col sm:flex-row justify-between items-center gap-4">
               <div className="text-center sm:text-left">
-                <h2 className="text-xl font-black text-slate-800">Pratonton Sesi</h2>
-                <p className="text-slate-500 text-xs font-bold uppercase tracking-widest">{selectedSubject || 'Tiada Subjek'} • {formattedDate}</p>
+                <h2 className="text-xl font-black text-slate-800">{t('preview.title')}</h2>
+                <p className="text-slate-500 text-xs font-bold uppercase tracking-widest">{subjectName || t('preview.noSubject')} • {formattedDate}</p>
               </div>
               <div className="flex gap-3">
+                {(!editingReport || reviewStatusOf(editingReport) === 'draft') && (
+                  <button 
+                    onClick={() => handleSaveSession(true)} 
+                    disabled={isSavingToCloud}
+                    className="px-6 py-3 bg-indigo-600 text-white rounded-2xl font-black shadow-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 flex items-center gap-2"
+                  >
+                    {isSavingToCloud ? t('preview.saving') : editingReport ? t('preview.updateAndSubmit') : t('preview.saveAndSubmit')}
+                  </button>
+                )}
                 <button 
-                  onClick={handleSaveSession} 
+                  onClick={() => handleSaveSession(false)} 
                   disabled={isSavingToCloud}
-                  className="px-6 py-3 bg-indigo-600 text-white rounded-2xl font-black shadow-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 flex items-center gap-2"
+                  className="px-6 py-3 bg-white border-2 border-slate-100 text-slate-700 rounded-2xl font-black hover:border-indigo-200 transition-colors disabled:opacity-50"
                 >
-                  {isSavingToCloud ? 'Menyimpan...' : 'Simpan Sesi'}
+                  {editingReport ? t('preview.updateRecord') : t('preview.saveDraft')}
                 </button>
-                <button onClick={() => exportPDF(reportRef, `Kehadiran_${selectedDate}_${selectedSubject}.pdf`)} disabled={isExporting} className="px-6 py-3 bg-emerald-600 text-white rounded-2xl font-black shadow-lg hover:bg-emerald-700 transition-colors disabled:opacity-50">Muat Turun PDF</button>
+                <button onClick={exportSessionPDF} disabled={isExporting} className="px-6 py-3 bg-emerald-600 text-white rounded-2xl font-black shadow-lg hover:bg-emerald-700 transition-colors disabled:opacity-50">{t('preview.downloadPdf')}</button>
               </div>
             </div>
+            {!isOnline && (
+              <p className="bg-amber-50 border border-amber-200 text-amber-800 text-xs font-bold px-5 py-3 rounded-2xl">
+                {t('preview.offline')}
+              </p>
+            )}
 
             <div className="bg-white shadow-2xl rounded-[2.5rem] border border-slate-200 overflow-hidden ring-8 ring-slate-100">
-              <div ref={reportRef} className="p-16 bg-white min-h-[1000px] text-slate-900">
+              <div className="p-16 bg-white min-h-[1000px] text-slate-900">
                 <div className="border-b-8 border-indigo-700 pb-10 mb-12 flex justify-between items-end">
                   <div className="space-y-1">
-                    <h1 className="text-4xl font-black text-indigo-900 uppercase tracking-tighter">Rekod Kehadiran</h1>
-                    <p className="text-xl font-bold text-slate-500">SK KG KLID/PLAJAU</p>
-                    <p className="text-lg font-medium text-slate-400">Kelas Bimbingan dan Gilap Permata</p>
+                    <h1 className="text-4xl font-black text-indigo-900 uppercase tracking-tighter">{t('preview.heading')}</h1>
+                    <p className="text-xl font-bold text-slate-500">{SCHOOL_NAME}</p>
+                    <p className="text-lg font-medium text-slate-400">{PROGRAMME_NAME}</p>
                   </div>
                   <div className="text-right">
                     <div className="bg-indigo-50 px-4 py-2 rounded-xl mb-1"><p className="text-xl font-black text-indigo-700 leading-none">{formattedDate}</p></div>
-                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Tarikh Laporan</p>
+                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('preview.reportDate')}</p>
                   </div>
                 </div>
 
                 <div className="grid grid-cols-3 gap-8 mb-12 bg-slate-50 p-10 rounded-3xl border-2 border-slate-100">
-                  <div><p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Guru</p><p className="text-lg font-black leading-tight">{teacherName}</p></div>
-                  <div><p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Subjek</p><p className="text-lg font-black text-indigo-700 leading-tight">{selectedSubject || 'N/A'}</p></div>
-                  <div><p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Slot Masa</p><p className="text-lg font-black leading-tight">{selectedTimeslot || 'N/A'}</p></div>
+                  <div><p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">{t('common.teacher')}</p><p className="text-lg font-black leading-tight">{teacherName}</p></div>
+                  <div><p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">{t('common.subject')}</p><p className="text-lg font-black text-indigo-700 leading-tight">{subjectName || 'N/A'}</p></div>
+                  <div><p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">{t('common.timeslot')}</p><p className="text-lg font-black leading-tight">{timeslotLabel || 'N/A'}</p></div>
                 </div>
 
                 <div className="grid grid-cols-2 gap-x-12 gap-y-10">
-                  {[1, 2, 3, 4, 5, 6].map(year => (
+                  {targetYears.map(year => (
                     <div key={year} className="break-inside-avoid">
-                      <div className="flex items-center gap-3 mb-4"><span className="bg-indigo-700 text-white text-[10px] font-black px-2 py-1 rounded">TAHUN {year}</span><div className="h-[2px] flex-1 bg-slate-100"></div></div>
+                      <div className="flex items-center gap-3 mb-4"><span className="bg-indigo-700 text-white text-[10px] font-black px-2 py-1 rounded uppercase">{t('common.year', { year })}</span><div className="h-[2px] flex-1 bg-slate-100"></div></div>
                       <div className="space-y-2">
-                        {PUPILS.filter(p => p.year === year).map(p => (
-                          <div key={p.id} className="flex items-center justify-between border-b border-slate-50 pb-1">
-                            <span className={`text-[11px] font-bold ${attendance[p.id] ? 'text-slate-800 font-extrabold' : 'text-slate-300'}`}>{p.name}</span>
-                            <div className={`w-3 h-3 rounded-full ${attendance[p.id] ? 'bg-emerald-500 shadow-[0_0_5px_rgba(16,185,129,0.5)]' : 'bg-slate-100'}`}></div>
-                          </div>
-                        ))}
+                        {sheetPupils.filter(p => p.year === year).map(p => {
+                          const status = statusOf(attendance, p.id);
+                          return (
+                            <div key={p.id} className="flex items-center justify-between gap-2 border-b border-slate-50 pb-1">
+                              <span onClick={() => setProfilePupilId(p.id)} className={`text-[11px] font-bold cursor-pointer hover:underline ${isPresentStatus(status) ? 'text-slate-800 font-extrabold' : 'text-slate-300'}`}>{p.name}</span>
+                              <div className="flex items-center gap-2">
+                                {status !== 'hadir' && status !== 'tidak_hadir' && (
+                                  <span title={notes[p.id]} className="text-[8px] font-black uppercase text-slate-500 bg-slate-100 px-1.5 py-0.5 rounded">{i18n.statusLabel(status)}</span>
+                                )}
+                                <div className={`w-3 h-3 rounded-full ${status === 'hadir' ? 'bg-emerald-500 shadow-[0_0_5px_rgba(16,185,129,0.5)]' : status === 'lewat' ? 'bg-amber-400' : isExcusedStatus(status) ? 'bg-slate-300' : 'bg-slate-100'}`}></div>
+                              </div>
+                            </div>
+                          );
+                        })}
                       </div>
                     </div>
                   ))}
                 </div>
 
                 <div className="mt-20 pt-10 border-t-2 border-slate-100 flex flex-wrap justify-between items-end gap-12">
-                  <div className="w-56 border-b-2 border-slate-200 pb-2 flex flex-col">
-                    <span className="text-[10px] font-black text-slate-300 italic mb-4">Disediakan oleh:</span>
-                    <p className="text-[11px] font-black text-slate-500 uppercase">({teacherName})</p>
-                    <p className="text-[9px] font-bold text-slate-300 mt-1">Guru Bertugas</p>
-                  </div>
-                  
-                  <div className="w-56 border-b-2 border-slate-200 pb-2 flex flex-col">
-                    <span className="text-[10px] font-black text-slate-300 italic mb-4">Disemak oleh:</span>
-                    <p className="text-[11px] font-black text-slate-500 uppercase">(ENCIK RAFFI BIN SMAIL)</p>
-                    <p className="text-[9px] font-bold text-slate-300 mt-1 leading-tight">Penolong Kanan Pentadbiran dan Akademik</p>
-                    <p className="text-[8px] font-black text-slate-300 uppercase mt-0.5 tracking-tighter">SK KG KLID/PLAJAU, DALAT</p>
-                  </div>
-
-                  <div className="w-56 border-b-2 border-slate-200 pb-2 flex flex-col">
-                    <span className="text-[10px] font-black text-slate-300 italic mb-4">Disahkan oleh:</span>
-                    <p className="text-[11px] font-black text-slate-500 uppercase">(ENCIK RAZELI BIN SIRAT)</p>
-                    <p className="text-[9px] font-bold text-slate-300 mt-1 leading-tight">Guru Besar</p>
-                    <p className="text-[8px] font-black text-slate-300 uppercase mt-0.5 tracking-tighter">SK KG KLID/PLAJAU, DALAT</p>
-                  </div>
+                  {sessionSignatures.map(slot => (
+                    <div key={slot.label} className="w-56 border-b-2 border-slate-200 pb-2 flex flex-col">
+                      <span className="text-[10px] font-black text-slate-300 italic mb-4">{slot.label}</span>
+                      <p className="text-[11px] font-black text-slate-500 uppercase">({slot.name})</p>
+                      <p className="text-[9px] font-bold text-slate-300 mt-1 leading-tight">{slot.role}</p>
+                      {slot.date && <p className="text-[9px] font-black text-emerald-600 mt-0.5">{t('preview.signedOn', { date: slot.date })}</p>}
+                    </div>
+                  ))}
 
                   <div className="text-right flex-1 min-w-[120px]">
-                    <p className="text-4xl font-black text-indigo-900 leading-none">{totalPresent} <span className="text-xl text-slate-300 font-bold">/ {PUPILS.length}</span></p>
-                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-2">Jumlah Murid Hadir</p>
+                    <p className="text-4xl font-black text-indigo-900 leading-none">{totalPresent} <span className="text-xl text-slate-300 font-bold">/ {sheetPupils.length}</span></p>
+                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-2">{t('preview.totalPresent')}</p>
                   </div>
                 </div>
               </div>
@@ -498,41 +1431,171 @@ const App: React.FC = () => {
         {/* HISTORY TAB */}
         {activeTab === 'history' && (
           <div className="space-y-8 animate-in slide-in-from-right-8 duration-500">
-            <div className="flex justify-between items-center">
+            <div className="flex flex-col lg:flex-row justify-between lg:items-center gap-4">
               <div>
-                <h2 className="text-2xl font-black text-slate-800">Sejarah Rekod</h2>
-                <p className="text-slate-500 text-sm font-medium">Senarai semua sesi kehadiran yang telah disimpan.</p>
+                <h2 className="text-2xl font-black text-slate-800">{t('history.title')}</h2>
+                <p className="text-slate-500 text-sm font-medium">{t('history.subtitle')}</p>
+              </div>
+              <div className="flex flex-wrap items-center gap-3">
+                <select value="" onChange={(e) => setProfilePupilId(e.target.value)} className="px-4 py-2 bg-white border-2 border-slate-100 rounded-xl text-xs font-black text-slate-600 outline-none focus:border-indigo-500">
+                  <option value="">{t('history.viewProfile')}</option>
+                  {YEARS.map(year => (
+                    <optgroup key={year} label={t('common.year', { year })}>
+                      {pupils.filter(p => p.year === year).map(p => <option key={p.id} value={p.id}>{p.name}{p.active ? '' : ` ${t('history.inactive')}`}</option>)}
+                    </optgroup>
+                  ))}
+                </select>
+                {supervisor && (
+                  <>
+                    <input ref={importInputRef} type="file" accept=".csv,text/csv" onChange={handleImportFile} className="hidden" />
+                    <button onClick={() => importInputRef.current?.click()} className="px-4 py-2 bg-white border-2 border-slate-100 text-slate-600 rounded-xl text-xs font-black hover:border-indigo-200 transition-colors">
+                      {t('history.importCsv')}
+                    </button>
+                  </>
+                )}
+                {GOOGLE_SCRIPT_URL && (
+                  <button onClick={pullFromSheets} disabled={isPulling} className="px-4 py-2 bg-white border-2 border-slate-100 text-slate-600 rounded-xl text-xs font-black hover:border-indigo-200 transition-colors disabled:opacity-50">
+                    {isPulling ? t('history.pulling') : t('history.pull')}
+                  </button>
+                )}
+                {savedReports.length > 0 && (
+                  <select value="" onChange={(e) => handleExport(e.target.value as ExportFormat)} className="px-4 py-2 bg-white border-2 border-slate-100 rounded-xl text-xs font-black text-slate-600 outline-none focus:border-indigo-500">
+                    <option value="">{t('history.export')}</option>
+                    <option value="csv">{t('history.exportCsv')}</option>
+                    <option value="summary">{t('history.exportSummary')}</option>
+                    <option value="xlsx">{t('history.exportXlsx')}</option>
+                  </select>
+                )}
+                {supervisor && savedReports.length > 0 && (
+                  <button onClick={(e) => handleClearHistory(e)} className="px-4 py-2 bg-rose-50 text-rose-600 rounded-xl text-xs font-black hover:bg-rose-100 transition-colors flex items-center gap-2">
+                    {t('history.clear')}
+                  </button>
+                )}
               </div>
-              {savedReports.length > 0 && (
-                <button onClick={(e) => handleClearHistory(e)} className="px-4 py-2 bg-rose-50 text-rose-600 rounded-xl text-xs font-black hover:bg-rose-100 transition-colors flex items-center gap-2">
-                  🗑️ Kosongkan Sejarah
-                </button>
-              )}
             </div>
+            {pendingReviews.length > 0 && (
+              <div className="bg-amber-50 p-8 rounded-3xl border border-amber-200 space-y-4">
+                <div>
+                  <h3 className="text-xl font-black text-amber-900">{t('review.queueTitle', { count: pendingReviews.length })}</h3>
+                  <p className="text-amber-700 text-xs font-bold">{t('review.queueHint')}</p>
+                </div>
+                <div className="space-y-2 max-h-96 overflow-y-auto">
+                  {pendingReviews.map(r => {
+                    const action = reviewActionFor(currentTeacher, r);
+                    return (
+                      <div key={r.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-white/80 p-4 rounded-2xl border border-amber-100">
+                        <div>
+                          <p className="text-sm font-black text-slate-800">{r.subject} • {r.date} • {r.timeslot}</p>
+                          <p className="text-[10px] font-bold text-slate-500">
+                            {r.teacherName} • {t('history.presentLower', { present: r.totalPresent, total: expectedPupilIdsOf(r, pupils).length })}
+                            {r.reviewedBy ? ` • ${t('review.reviewedBy', { name: r.reviewedBy.byName })}` : ''}
+                          </p>
+                        </div>
+                        <div className="flex gap-2">
+                          <button onClick={() => loadReportForEditing(r)} className="text-[10px] font-black uppercase text-indigo-600 border border-indigo-100 px-3 py-1 rounded-full bg-white hover:bg-indigo-50">{t('common.view')}</button>
+                          <button onClick={() => returnReport(r)} className="text-[10px] font-black uppercase text-rose-500 border border-rose-100 px-3 py-1 rounded-full bg-white hover:bg-rose-50">{t('review.return')}</button>
+                          {action && (
+                            <button onClick={() => reviewReport(r, action)} className="text-[10px] font-black uppercase text-white bg-emerald-600 px-3 py-1 rounded-full hover:bg-emerald-700">
+                              {action === 'semak' ? t('review.semak') : t('review.sahkan')}
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {savedReports.length > 0 && (
+              <HistoryControls
+                filter={historyFilter}
+                sort={historySort}
+                catalogue={catalogue}
+                resultCount={filteredHistory.length}
+                totalCount={savedReports.length}
+                selectedCount={selectedReports.length}
+                onFilterChange={changeHistoryFilter}
+                onSortChange={(sort) => { setHistorySort(sort); setHistoryPage(1); }}
+                onSelectAll={() => setSelectedReportIds(filteredHistory.map(r => r.id))}
+                onClearSelection={() => setSelectedReportIds([])}
+                onExportSelected={(format) => handleExport(format, selectedReports)}
+                onDeleteSelected={supervisor ? deleteSelectedReports : undefined}
+                i18n={i18n}
+              />
+            )}
+
             {savedReports.length === 0 ? (
               <div className="bg-white p-32 text-center rounded-[3rem] border-4 border-dashed border-slate-200 text-slate-400 font-bold">
-                Tiada rekod ditemui. Sila rekod kehadiran di tab pertama.
+                {t('history.empty')}
               </div>
+            ) : filteredHistory.length === 0 ? (
+              <p className="text-sm font-bold text-slate-400 italic text-center py-16">{t('history.noMatch')}</p>
             ) : (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-                {savedReports.map(report => (
-                  <div key={report.id} className="bg-white p-8 rounded-3xl shadow-sm border border-slate-200 hover:shadow-xl transition-all group relative overflow-hidden">
-                    <div className="flex justify-between items-start mb-4">
-                      <span className="bg-indigo-100 text-indigo-700 text-[10px] font-black px-3 py-1 rounded-lg uppercase tracking-widest">{report.subject}</span>
-                      <button onClick={(e) => deleteFromHistory(e, report.id)} className="text-rose-400 hover:text-rose-600 transition-colors p-2 rounded-lg hover:bg-rose-50 bg-slate-50 border border-slate-100">
-                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"></path></svg>
-                      </button>
-                    </div>
-                    <h4 className="text-2xl font-black text-slate-800 leading-none mb-1">{new Date(report.date).toLocaleDateString('ms-MY', { day: '2-digit', month: 'short', year: 'numeric' })}</h4>
-                    <p className="text-xs font-bold text-slate-400 uppercase mb-6 tracking-wider">{report.timeslot}</p>
-                    <div className="space-y-2 mb-6 text-xs font-bold text-slate-500">
-                      <div className="flex items-center gap-2">✅ <span className="text-slate-700">{report.totalPresent} / {PUPILS.length} Hadir</span></div>
-                      <div className="flex items-center gap-2">👤 <span className="text-slate-400 italic">{report.teacherName}</span></div>
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+                  {historyPageData.items.map(report => (
+                    <div key={report.id} className={`bg-white p-8 rounded-3xl shadow-sm border hover:shadow-xl transition-all group relative overflow-hidden ${selectedReportIds.includes(report.id) ? 'border-indigo-400 ring-2 ring-indigo-100' : 'border-slate-200'}`}>
+                      <div className="flex justify-between items-start mb-4">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={selectedReportIds.includes(report.id)}
+                            onChange={() => toggleReportSelected(report.id)}
+                            title={t('history.select')}
+                            className="h-4 w-4"
+                          />
+                          <span className="bg-indigo-100 text-indigo-700 text-[10px] font-black px-3 py-1 rounded-lg uppercase tracking-widest">{report.subject}</span>
+                          {duplicateKeys.has(sessionKey(report)) && (
+                            <span className="bg-rose-100 text-rose-600 text-[10px] font-black px-3 py-1 rounded-lg uppercase tracking-widest">{t('history.duplicate')}</span>
+                          )}
+                        </div>
+                        {supervisor && (
+                          <button onClick={(e) => deleteFromHistory(e, report.id)} className="text-rose-400 hover:text-rose-600 transition-colors p-2 rounded-lg hover:bg-rose-50 bg-slate-50 border border-slate-100">
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"></path></svg>
+                          </button>
+                        )}
+                      </div>
+                      <h4 className="text-2xl font-black text-slate-800 leading-none mb-1">{i18n.formatDate(report.date, { day: '2-digit', month: 'short', year: 'numeric' })}</h4>
+                      <p className="text-xs font-bold text-slate-400 uppercase mb-6 tracking-wider">{report.timeslot}</p>
+                      <div className="space-y-2 mb-6 text-xs font-bold text-slate-500">
+                        <div className="flex items-center gap-2">✅ <span className="text-slate-700">{t('common.presentOf', { present: report.totalPresent, total: expectedPupilIdsOf(report, pupils).length })}</span></div>
+                        <div className="flex items-center gap-2">👤 <span className="text-slate-400 italic">{report.teacherName}</span></div>
+                        <div className="flex items-center gap-2">
+                          🛡️
+                          <span className={`px-2 py-0.5 rounded-md text-[10px] font-black uppercase ${REVIEW_BADGES[reviewStatusOf(report)].className}`}>
+                            {t(REVIEW_BADGES[reviewStatusOf(report)].label)}
+                          </span>
+                          {reviewStatusOf(report) === 'draft' && canEditReport(currentTeacher, report) && (
+                            <button onClick={() => submitForReview(report)} className="text-[10px] font-black uppercase text-indigo-600 hover:underline">{t('review.submit')}</button>
+                          )}
+                        </div>
+                        {report.reviewedBy && <div className="flex items-center gap-2 pl-6 text-[10px] text-slate-400">{t('review.reviewedBy', { name: report.reviewedBy.byName })} • {i18n.formatDate(report.reviewedBy.at)}</div>}
+                        {report.approvedBy && <div className="flex items-center gap-2 pl-6 text-[10px] text-slate-400">{t('review.approvedBy', { name: report.approvedBy.byName })} • {i18n.formatDate(report.approvedBy.at)}</div>}
+                        {reviewStatusOf(report) === 'draft' && report.returnComment && (
+                          <div className="text-[11px] text-rose-600 bg-rose-50 px-3 py-2 rounded-xl">↩️ {report.returnedBy?.byName}: {report.returnComment}</div>
+                        )}
+                        {report.auditTrail && report.auditTrail.length > 0 && (
+                          <div className="flex items-center gap-2">✏️ <span className="text-amber-600">{t('history.editedTimes', { count: report.auditTrail.length })} • {i18n.formatDate(report.updatedAt || report.auditTrail[report.auditTrail.length - 1].at)}</span></div>
+                        )}
+                        <div className="flex items-center gap-2">
+                          ☁️
+                          <span className={`px-2 py-0.5 rounded-md text-[10px] font-black uppercase ${SYNC_BADGES[report.syncStatus || 'unknown'].className}`} title={report.lastSyncError}>
+                            {t(SYNC_BADGES[report.syncStatus || 'unknown'].label)}
+                          </span>
+                          {report.syncStatus !== 'sent' && report.syncStatus !== 'pending' && GOOGLE_SCRIPT_URL && (
+                            <button onClick={(e) => retrySync(e, report.id)} className="text-[10px] font-black uppercase text-indigo-600 hover:underline">
+                              {report.syncStatus === 'failed' ? t('history.retry') : t('sync.send')}
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                      <button onClick={() => loadReportForEditing(report)} className="w-full py-4 bg-slate-50 hover:bg-indigo-600 hover:text-white text-indigo-600 rounded-2xl font-black transition-all border border-slate-100 group-hover:border-indigo-600 shadow-sm">{canEditReport(currentTeacher, report) ? t('history.viewEdit') : t('history.viewRecord')}</button>
                     </div>
-                    <button onClick={() => { setSelectedDate(report.date); setSelectedTeacherId(report.teacherId); setSelectedSubject(report.subject); setSelectedTimeslot(report.timeslot); setAttendance(report.attendance); setActiveTab('preview'); window.scrollTo(0,0); }} className="w-full py-4 bg-slate-50 hover:bg-indigo-600 hover:text-white text-indigo-600 rounded-2xl font-black transition-all border border-slate-100 group-hover:border-indigo-600 shadow-sm">Lihat Perincian Rekod</button>
-                  </div>
-                ))}
-              </div>
+                  ))}
+                </div>
+                <Pagination page={historyPageData.page} pageCount={historyPageData.pageCount} onPageChange={setHistoryPage} i18n={i18n} />
+              </>
             )}
           </div>
         )}
@@ -543,8 +1606,19 @@ const App: React.FC = () => {
             {/* Filter Controls */}
             <div className="bg-white p-8 rounded-3xl shadow-sm border border-slate-200 flex flex-col md:flex-row gap-8 items-end justify-between">
               <div className="flex gap-6 w-full md:w-auto">
+                <div className="space-y-2 flex-1 md:w-40">
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('analytics.academicYear')}</label>
+                  <select 
+                    value={analyticsAcademicYear ?? ''} 
+                    onChange={(e) => setAnalyticsAcademicYear(e.target.value === '' ? null : Number(e.target.value))}
+                    className="w-full p-4 bg-slate-50 border-2 border-slate-100 rounded-2xl font-bold text-slate-700 focus:border-indigo-500 outline-none"
+                  >
+                    <option value="">{t('analytics.allAcademicYears')}</option>
+                    {academicYearOptions.map(y => <option key={y} value={y}>{y}</option>)}
+                  </select>
+                </div>
                 <div className="space-y-2 flex-1 md:w-32">
-                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Pilih Tahun</label>
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('analytics.chooseYear')}</label>
                   <select 
                     value={analyticsYear} 
                     onChange={(e) => setAnalyticsYear(Number(e.target.value))}
@@ -554,32 +1628,144 @@ const App: React.FC = () => {
                   </select>
                 </div>
                 <div className="space-y-2 flex-1 md:w-48">
-                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Pilih Bulan</label>
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('analytics.chooseMonth')}</label>
                   <select 
                     value={analyticsMonth} 
                     onChange={(e) => setAnalyticsMonth(Number(e.target.value))}
                     className="w-full p-4 bg-slate-50 border-2 border-slate-100 rounded-2xl font-bold text-slate-700 focus:border-indigo-500 outline-none"
                   >
                     {Array.from({ length: 12 }).map((_, i) => (
-                      <option key={i} value={i}>{new Date(0, i).toLocaleString('ms-MY', { month: 'long' })}</option>
+                      <option key={i} value={i}>{i18n.monthName(i)}</option>
                     ))}
                   </select>
                 </div>
+                <label className="flex items-center gap-3 cursor-pointer flex-1 md:w-56 self-center">
+                  <input 
+                    type="checkbox" 
+                    checked={settings.excludeExcusedAbsences} 
+                    onChange={(e) => setSettings(prev => ({ ...prev, excludeExcusedAbsences: e.target.checked }))}
+                    className="h-5 w-5 accent-indigo-600 cursor-pointer"
+                  />
+                  <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest leading-tight">{t('analytics.excludeExcused')}</span>
+                </label>
               </div>
-              <button 
-                onClick={() => exportPDF(analyticsReportRef, `Analisis_Kehadiran_${analyticsYear}_Bulan_${analyticsMonth + 1}.pdf`)}
-                disabled={isExporting}
-                className="px-8 py-4 bg-indigo-600 text-white rounded-2xl font-black shadow-lg flex items-center gap-3 w-full md:w-auto justify-center hover:bg-indigo-700 transition-colors disabled:opacity-50"
-              >
-                💾 Simpan Laporan Analisis PDF
-              </button>
+              <div className="flex flex-col gap-3 w-full md:w-auto">
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <button 
+                    onClick={exportAnalyticsPDF}
+                    disabled={isExporting}
+                    className="px-8 py-4 bg-indigo-600 text-white rounded-2xl font-black shadow-lg flex items-center gap-3 w-full md:w-auto justify-center hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                  >
+                    {t('analytics.savePdf')}
+                  </button>
+                  <button 
+                    onClick={exportRegisterPDF}
+                    disabled={isExporting}
+                    className="px-8 py-4 bg-white border-2 border-slate-100 text-slate-700 rounded-2xl font-black flex items-center gap-3 w-full md:w-auto justify-center hover:border-indigo-200 transition-colors disabled:opacity-50"
+                  >
+                    {t('analytics.registerPdf')}
+                  </button>
+                </div>
+                <label className="flex items-center gap-2 cursor-pointer self-end">
+                  <input
+                    type="checkbox"
+                    checked={settings.forceMalayPdf}
+                    onChange={(e) => setSettings(prev => ({ ...prev, forceMalayPdf: e.target.checked }))}
+                    className="h-4 w-4 accent-indigo-600 cursor-pointer"
+                  />
+                  <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{t('analytics.forceMalayPdf')}</span>
+                </label>
+              </div>
+            </div>
+
+            {/* Duplicate Sessions */}
+            {duplicateGroups.length > 0 && (
+              <div className="bg-rose-50 p-8 rounded-3xl border border-rose-200 space-y-4">
+                <div>
+                  <h3 className="text-xl font-black text-rose-900">{t('analytics.duplicatesTitle')}</h3>
+                  <p className="text-rose-700 text-xs font-bold">{t('analytics.duplicatesHint', { count: duplicateGroups.length })}</p>
+                </div>
+                <div className="space-y-3">
+                  {duplicateGroups.map(group => (
+                    <div key={sessionKey(group[0])} className="bg-white/80 p-4 rounded-2xl border border-rose-100">
+                      <p className="text-sm font-black text-slate-800">{group[0].subject} • {group[0].date} • {group[0].timeslot}</p>
+                      <div className="mt-2 space-y-1">
+                        {group.map(r => (
+                          <div key={r.id} className="flex items-center justify-between gap-3 text-xs font-bold text-slate-500">
+                            <span>{t('analytics.duplicateEntry', { teacher: r.teacherName, time: r.timestamp, count: r.totalPresent })}</span>
+                            <div className="flex gap-2">
+                              <button onClick={() => loadReportForEditing(r)} className="text-[10px] font-black uppercase text-indigo-600 hover:underline">{t('common.view')}</button>
+                              {supervisor && <button onClick={(e) => deleteFromHistory(e, r.id)} className="text-[10px] font-black uppercase text-rose-500 hover:underline">{t('common.delete')}</button>}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Absence Alerts */}
+            <div className="bg-white p-8 rounded-3xl shadow-sm border border-slate-200 space-y-6">
+              <div className="flex flex-col md:flex-row justify-between md:items-end gap-4">
+                <div>
+                  <h3 className="text-xl font-black text-slate-800">{t('analytics.atRiskTitle')}</h3>
+                  <p className="text-slate-500 text-xs font-bold">{t('analytics.atRiskHint', { count: settings.absenceStreakThreshold })}</p>
+                </div>
+                <div className="space-y-2 md:w-48">
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('analytics.absenceThreshold')}</label>
+                  <input 
+                    type="number" 
+                    min={1} 
+                    value={settings.absenceStreakThreshold} 
+                    onChange={(e) => setSettings(prev => ({ ...prev, absenceStreakThreshold: Math.max(1, Number(e.target.value) || 1) }))}
+                    className="w-full p-3 bg-slate-50 border-2 border-slate-100 rounded-2xl font-bold text-slate-700 focus:border-indigo-500 outline-none"
+                  />
+                </div>
+              </div>
+              {pupilsAtRisk.length === 0 ? (
+                <p className="text-sm font-bold text-emerald-600">{t('analytics.noneAtRisk')}</p>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                  {pupilsAtRisk.map(r => (
+                    <button key={r.pupil.id} onClick={() => setProfilePupilId(r.pupil.id)} className="text-left p-4 rounded-2xl bg-rose-50 border border-rose-100 hover:border-rose-300 transition-colors">
+                      <p className="text-sm font-black text-rose-900 leading-tight">{r.pupil.name}</p>
+                      <p className="text-[10px] font-black text-rose-500 uppercase mt-1">{t('analytics.atRiskEntry', { year: r.pupil.year, streak: r.currentAbsenceStreak, percentage: r.percentage })}</p>
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
 
+            <TrendAnalysis
+              reports={analyticsReports}
+              pupils={pupils}
+              subjects={catalogue.subjects}
+              excludeExcused={settings.excludeExcusedAbsences}
+              terms={settings.terms}
+              onTermsChange={(terms) => setSettings(prev => ({ ...prev, terms }))}
+              canEditTerms={supervisor}
+              notify={addNotification}
+              i18n={i18n}
+            />
+
+            <ImpactAnalysis
+              reports={analyticsReports}
+              pupils={pupils}
+              subjects={catalogue.subjects}
+              assessments={assessments}
+              excludeExcused={settings.excludeExcusedAbsences}
+              onExportPdf={exportImpactPDF}
+              isExporting={isExporting}
+              i18n={i18n}
+            />
+
             <div className="bg-white shadow-xl rounded-[2.5rem] border border-slate-200 overflow-hidden ring-8 ring-slate-100">
-              <div ref={analyticsReportRef} className="p-16 bg-white min-h-[800px] text-slate-900">
+              <div className="p-16 bg-white min-h-[800px] text-slate-900">
                 <div className="mb-12 border-b-4 border-slate-100 pb-8">
-                  <h2 className="text-4xl font-black text-indigo-900 uppercase tracking-tighter leading-none mb-2">Analisis Prestasi Subjek</h2>
-                  <p className="text-xl font-bold text-slate-400">SK KG KLID/PLAJAU • {new Date(0, analyticsMonth).toLocaleString('ms-MY', { month: 'long' })} {analyticsYear}</p>
+                  <h2 className="text-4xl font-black text-indigo-900 uppercase tracking-tighter leading-none mb-2">{t('analytics.heading')}</h2>
+                  <p className="text-xl font-bold text-slate-400">{SCHOOL_NAME} • {periodLabelIn(i18n)}</p>
                 </div>
 
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-16">
@@ -587,25 +1773,25 @@ const App: React.FC = () => {
                   <div className="space-y-8">
                     <div className="border-l-8 border-indigo-700 pl-6 flex justify-between items-end">
                       <div>
-                        <h3 className="text-2xl font-black text-slate-800">Kehadiran Subjek Bulanan</h3>
-                        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Pecahan Mengikut Subjek</p>
+                        <h3 className="text-2xl font-black text-slate-800">{t('analytics.monthlySubject')}</h3>
+                        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('analytics.bySubject')}</p>
                       </div>
-                      <span className="text-[10px] font-black bg-indigo-50 text-indigo-700 px-3 py-1 rounded-full uppercase">Bulanan</span>
+                      <span className="text-[10px] font-black bg-indigo-50 text-indigo-700 px-3 py-1 rounded-full uppercase">{t('analytics.monthly')}</span>
                     </div>
                     
                     <div className="bg-slate-50/50 p-6 rounded-[2rem] border border-slate-100">
-                      <BarChart data={stats.monthly} colorClass="bg-indigo-600" />
+                      <BarChart data={stats.monthly.map(s => ({ ...s, label: s.subject }))} colorClass="bg-indigo-600" />
                     </div>
 
                     <div className="grid grid-cols-2 gap-4">
                       {stats.monthly.map(s => (
-                        <div key={s.subject} className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+                        <div key={s.subjectId} className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
                           <p className="text-[9px] font-black text-slate-400 uppercase tracking-wider mb-1">{s.subject}</p>
                           <div className="flex items-baseline gap-2">
                             <p className="text-2xl font-black text-indigo-700">{s.percentage}%</p>
                             <p className="text-[10px] text-slate-400 font-bold">({s.totalPresent}/{s.totalPossible})</p>
                           </div>
-                          <p className="text-[10px] text-slate-300 font-black mt-2 uppercase tracking-tighter">{s.sessionCount} Kelas Direkodkan</p>
+                          <p className="text-[10px] text-slate-300 font-black mt-2 uppercase tracking-tighter">{t('analytics.classesRecorded', { count: s.sessionCount })}</p>
                         </div>
                       ))}
                     </div>
@@ -615,55 +1801,81 @@ const App: React.FC = () => {
                   <div className="space-y-8">
                     <div className="border-l-8 border-emerald-500 pl-6 flex justify-between items-end">
                       <div>
-                        <h3 className="text-2xl font-black text-slate-800">Kehadiran Subjek Tahunan</h3>
-                        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Ringkasan Tahunan {analyticsYear}</p>
+                        <h3 className="text-2xl font-black text-slate-800">{t('analytics.yearlySubject')}</h3>
+                        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('analytics.yearlySummary', { year: analyticsYear })}</p>
                       </div>
-                      <span className="text-[10px] font-black bg-emerald-50 text-emerald-700 px-3 py-1 rounded-full uppercase">Tahunan</span>
+                      <span className="text-[10px] font-black bg-emerald-50 text-emerald-700 px-3 py-1 rounded-full uppercase">{t('analytics.yearly')}</span>
                     </div>
 
                     <div className="bg-emerald-50/20 p-6 rounded-[2rem] border border-emerald-50">
-                      <BarChart data={stats.yearly} colorClass="bg-emerald-500" />
+                      <BarChart data={stats.yearly.map(s => ({ ...s, label: s.subject }))} colorClass="bg-emerald-500" />
                     </div>
 
                     <div className="grid grid-cols-2 gap-4">
                       {stats.yearly.map(s => (
-                        <div key={s.subject} className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+                        <div key={s.subjectId} className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
                           <p className="text-[9px] font-black text-slate-400 uppercase tracking-wider mb-1">{s.subject}</p>
                           <div className="flex items-baseline gap-2">
                             <p className="text-2xl font-black text-emerald-600">{s.percentage}%</p>
                             <p className="text-[10px] text-slate-400 font-bold">({s.totalPresent}/{s.totalPossible})</p>
                           </div>
-                          <p className="text-[10px] text-slate-300 font-black mt-2 uppercase tracking-tighter">{s.sessionCount} Jumlah Sesi</p>
+                          <p className="text-[10px] text-slate-300 font-black mt-2 uppercase tracking-tighter">{t('analytics.totalSessions', { count: s.sessionCount })}</p>
                         </div>
                       ))}
                     </div>
                   </div>
                 </div>
 
+                {/* Per-Tahun Breakdown */}
+                <div className="mt-16 space-y-8">
+                  <div className="border-l-8 border-amber-500 pl-6">
+                    <h3 className="text-2xl font-black text-slate-800">{t('analytics.byYear')}</h3>
+                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('analytics.byYearHint')}</p>
+                  </div>
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-16">
+                    <div className="bg-amber-50/30 p-6 rounded-[2rem] border border-amber-50">
+                      <p className="text-[10px] font-black text-amber-700 uppercase tracking-widest mb-2">{t('analytics.monthly')}</p>
+                      <BarChart data={stats.monthlyByYear.map(s => ({ ...s, label: t('common.year', { year: s.year }) }))} colorClass="bg-amber-500" />
+                    </div>
+                    <div className="bg-amber-50/30 p-6 rounded-[2rem] border border-amber-50">
+                      <p className="text-[10px] font-black text-amber-700 uppercase tracking-widest mb-2">{t('analytics.yearlyOf', { year: analyticsYear })}</p>
+                      <BarChart data={stats.yearlyByYear.map(s => ({ ...s, label: t('common.year', { year: s.year }) }))} colorClass="bg-amber-500" />
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-3 md:grid-cols-6 gap-4">
+                    {stats.yearlyByYear.map(s => (
+                      <div key={s.year} className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+                        <p className="text-[9px] font-black text-slate-400 uppercase tracking-wider mb-1">{t('common.year', { year: s.year })}</p>
+                        <p className="text-2xl font-black text-amber-600">{s.percentage}%</p>
+                        <p className="text-[10px] text-slate-400 font-bold">({s.totalPresent}/{s.totalPossible})</p>
+                        <p className="text-[10px] text-slate-300 font-black mt-2 uppercase tracking-tighter">{t('analytics.sessions', { count: s.sessionCount })}</p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
                 <div className="mt-24 pt-10 border-t-2 border-slate-100 flex flex-wrap justify-between items-end bg-slate-50 -mx-16 -mb-16 p-16 gap-12">
                   <div className="w-64 border-b-2 border-slate-200 pb-2 flex flex-col">
-                    <span className="text-[10px] font-black text-slate-300 italic mb-4">Disemak oleh:</span>
-                    <p className="text-xs font-black text-slate-400 uppercase">(ENCIK RAFFI BIN SMAIL)</p>
-                    <p className="text-[9px] font-bold text-slate-300 mt-1 leading-tight">Penolong Kanan Pentadbiran dan Akademik</p>
-                    <p className="text-[8px] font-black text-slate-300 uppercase mt-0.5 tracking-tighter">SK KG KLID/PLAJAU, DALAT</p>
+                    <span className="text-[10px] font-black text-slate-300 italic mb-4">{t('signature.reviewedBy')}</span>
+                    <p className="text-xs font-black text-slate-400 uppercase">({REVIEWER.name})</p>
+                    <p className="text-[9px] font-bold text-slate-300 mt-1 leading-tight">{REVIEWER.role}</p>
+                    <p className="text-[8px] font-black text-slate-300 uppercase mt-0.5 tracking-tighter">{SCHOOL_LOCATION}</p>
                   </div>
 
                   <div className="w-64 border-b-2 border-slate-200 pb-2 flex flex-col">
-                    <span className="text-[10px] font-black text-slate-300 italic mb-4">Disahkan oleh:</span>
-                    <p className="text-xs font-black text-slate-400 uppercase">(ENCIK RAZELI BIN SIRAT)</p>
-                    <p className="text-[9px] font-bold text-slate-300 mt-1 leading-tight">Guru Besar</p>
-                    <p className="text-[8px] font-black text-slate-300 uppercase mt-0.5 tracking-tighter">SK KG KLID/PLAJAU, DALAT</p>
+                    <span className="text-[10px] font-black text-slate-300 italic mb-4">{t('signature.approvedBy')}</span>
+                    <p className="text-xs font-black text-slate-400 uppercase">({APPROVER.name})</p>
+                    <p className="text-[9px] font-bold text-slate-300 mt-1 leading-tight">{APPROVER.role}</p>
+                    <p className="text-[8px] font-black text-slate-300 uppercase mt-0.5 tracking-tighter">{SCHOOL_LOCATION}</p>
                   </div>
                   
                   <div className="text-right flex-1 min-w-[200px]">
-                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Purata Kadar Kehadiran Tahunan</p>
+                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">{t('analytics.yearlyAverage')}</p>
                     <div className="flex items-baseline justify-end gap-3">
                       <p className="text-5xl font-black text-indigo-900 leading-none">
-                        {stats.yearly.length > 0 && stats.yearly.some(s => s.sessionCount > 0) 
-                          ? Math.round(stats.yearly.reduce((acc, s) => acc + s.percentage, 0) / stats.yearly.filter(s => s.sessionCount > 0).length || 1) 
-                          : 0}%
+                        {yearlyAverage}%
                       </p>
-                      <span className="text-sm font-black text-slate-300 uppercase">Jumlah Keseluruhan</span>
+                      <span className="text-sm font-black text-slate-300 uppercase">{t('analytics.overall')}</span>
                     </div>
                   </div>
                 </div>
@@ -671,26 +1883,145 @@ const App: React.FC = () => {
             </div>
           </div>
         )}
+
+        {/* ASSESSMENTS TAB */}
+        {activeTab === 'assessments' && currentTeacher && (
+          <AssessmentManager
+            assessments={assessments}
+            pupils={pupils}
+            subjects={catalogue.subjects}
+            currentTeacher={currentTeacher}
+            onSave={saveAssessment}
+            onDelete={deleteAssessment}
+            notify={addNotification}
+            i18n={i18n}
+          />
+        )}
+
+        {/* LETTERS TAB */}
+        {activeTab === 'letters' && currentTeacher && (
+          <WarningLetters
+            statuses={letterStatuses}
+            year={letterYear}
+            thresholds={settings.warningThresholds}
+            currentTeacher={currentTeacher}
+            onThresholdsChange={(warningThresholds) => setSettings(prev => ({ ...prev, warningThresholds }))}
+            onIssue={issueWarningLetter}
+            onReprint={reprintWarningLetter}
+            onDelete={deleteWarningLetter}
+            isExporting={isExporting}
+            notify={addNotification}
+            i18n={i18n}
+          />
+        )}
+
+        {/* TIMETABLE TAB */}
+        {activeTab === 'timetable' && (
+          <TimetableManager
+            timetable={timetable}
+            catalogue={catalogue}
+            teachers={teachers}
+            missingSessions={missingSessions}
+            lookbackDays={settings.missingSessionLookbackDays}
+            onChange={setTimetable}
+            onLookbackChange={(days) => setSettings(prev => ({ ...prev, missingSessionLookbackDays: days }))}
+            onRecordMissing={recordMissingSession}
+            canEdit={supervisor}
+            notify={addNotification}
+            i18n={i18n}
+          />
+        )}
+
+        {/* ROSTER TAB */}
+        {supervisor && activeTab === 'roster' && (
+          <RosterManager
+            pupils={pupils}
+            teachers={teachers}
+            onPupilsChange={setPupils}
+            onTeachersChange={setTeachers}
+            academicYears={settings.academicYears}
+            onNewSchoolYear={startNewSchoolYear}
+            migrationReport={pupilIdMigration}
+            currentTeacherId={currentTeacherId || ''}
+            notify={addNotification}
+            i18n={i18n}
+          />
+        )}
+        {supervisor && activeTab === 'roster' && (
+          <div className="mt-16">
+            <CatalogueManager catalogue={catalogue} onChange={setCatalogue} notify={addNotification} i18n={i18n} />
+          </div>
+        )}
+
+        {/* DATA TAB */}
+        {supervisor && activeTab === 'data' && (
+          <DataManager
+            reports={savedReports}
+            roster={{ pupils, teachers }}
+            catalogue={catalogue}
+            timetable={timetable}
+            assessments={assessments}
+            warningLetters={warningLetters}
+            settings={settings}
+            snapshots={snapshots}
+            onRestore={handleRestore}
+            notify={addNotification}
+            i18n={i18n}
+          />
+        )}
       </main>
 
+      {profile && <PupilProfileModal profile={profile} onClose={() => setProfilePupilId(null)} i18n={i18n} />}
+
+      {pendingPull && (
+        <SyncPullModal
+          preview={pendingPull}
+          onConfirm={confirmPull}
+          onCancel={() => setPendingPull(null)}
+          i18n={i18n}
+        />
+      )}
+
+      {pendingImport && (
+        <ImportPreviewModal
+          filename={pendingImport.filename}
+          preview={pendingImport.preview}
+          onConfirm={confirmImport}
+          onCancel={() => setPendingImport(null)}
+          i18n={i18n}
+        />
+      )}
+
+      {pendingConflict && (
+        <DuplicateSessionModal
+          existing={pendingConflict.existing}
+          incoming={pendingConflict.incoming}
+          onMerge={() => resolveConflict('merge')}
+          onReplace={() => resolveConflict('replace')}
+          onCancel={() => setPendingConflict(null)}
+          canModify={canEditReport(currentTeacher, pendingConflict.existing)}
+          i18n={i18n}
+        />
+      )}
+
       {/* Floating Action Bar (Record Tab Only) */}
       {activeTab === 'record' && (
         <div className="fixed bottom-6 left-1/2 -translate-x-1/2 w-full max-w-xl px-4 z-50">
           <div className="bg-white/90 backdrop-blur-xl border border-slate-200 p-5 rounded-[2.5rem] shadow-2xl flex justify-between items-center ring-8 ring-indigo-500/5">
              <div className="flex gap-8 px-4">
                 <div>
-                  <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest leading-none mb-1">Subjek</p>
-                  <p className="text-xs font-black text-indigo-700 truncate max-w-[120px] uppercase">{selectedSubject || 'Tiada'}</p>
+                  <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest leading-none mb-1">{t('common.subject')}</p>
+                  <p className="text-xs font-black text-indigo-700 truncate max-w-[120px] uppercase">{subjectName || t('common.none')}</p>
                 </div>
                 <div>
-                  <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest leading-none mb-1">Jumlah Hadir</p>
+                  <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest leading-none mb-1">{t('record.totalPresent')}</p>
                   <p className="text-xl font-black text-emerald-600 leading-none">
-                    {totalPresent} <span className="text-slate-300 text-xs">/ {PUPILS.length}</span>
+                    {totalPresent} <span className="text-slate-300 text-xs">/ {sheetPupils.length}</span>
                   </p>
                 </div>
              </div>
              <button onClick={() => { setActiveTab('preview'); window.scrollTo(0,0); }} className="bg-indigo-600 text-white px-8 py-4 rounded-full font-black text-xs shadow-xl shadow-indigo-100 hover:bg-indigo-700 hover:scale-105 active:scale-95 transition-all flex items-center gap-2">
-                Pratonton Laporan
+                {t('record.preview')}
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M14 5l7 7m0 0l-7 7m7-7H3"></path></svg>
              </button>
           </div>
@@ -0,0 +1,158 @@
+/**
+ * Google Apps Script behind GOOGLE_SCRIPT_URL (services/sync.ts). Paste into
+ * the script editor of the attendance spreadsheet and deploy as a web app
+ * that runs as the owner and is open to anyone with the link.
+ *
+ * Security
+ *
+ *   "Anyone with the link" means anyone holding the URL can call the script,
+ *   and the list holds every pupil's attendance and notes. Set a SYNC_SECRET
+ *   script property (Project Settings > Script Properties) to the same value
+ *   as VITE_SYNC_SECRET in the app's .env.local; requests without it are
+ *   refused. Requests are only refused once the property is set.
+ *
+ *   The secret ships inside the app, so anyone with a copy of the app can
+ *   still read and write the sheet. Devices therefore do not trust review
+ *   stamps from a pull: a Disemak or Disahkan is kept only if the stamping
+ *   teacher is on the device's roster with a role that may give it
+ *   (checkReviewStamps in services/review.ts). Change the secret and
+ *   redeploy if a device is lost.
+ *
+ * Contract
+ *
+ *   POST (body is JSON sent as text/plain, so browsers skip the CORS preflight)
+ *     The report as saved on the device, minus its sync bookkeeping, plus:
+ *       secret:    the shared secret; not stored
+ *       action:    'insert' | 'update'
+ *       pupilData: [{ name, year, isPresent, status, note }] for the readable sheet
+ *     Rows are keyed by report id. Both actions replace whatever is stored for
+ *     that id, so a resend never duplicates a session and an 'update' for an
+ *     unknown id is stored as new. Saving an id that was deleted brings it back.
+ *     Answers { status: 'ok', id } once stored, or { status: 'error', message }.
+ *
+ *   POST { action: 'delete', id, deletedAt, secret }
+ *     Removes the report's rows and remembers the id, so other devices drop
+ *     their copies on their next pull. Answers like a save.
+ *
+ *   GET ?action=list&secret=...
+ *     Answers { status: 'ok', reports: [...], deletedIds: [...] }: the latest
+ *     payload stored for every report id, exactly as it was posted, and every
+ *     id deleted since. Devices merge these into their own history by id
+ *     (planPull in services/sync.ts).
+ *
+ * Three sheets are kept:
+ *   Laporan    one row per report, with the full payload as JSON in the last
+ *              column. This is what GET reads back; do not edit it by hand.
+ *   Kehadiran  one row per pupil per session, for people reading the sheet.
+ *   Dipadam    ids of deleted reports and when they were deleted.
+ *
+ * A Sheets cell holds at most 50,000 characters, which is far more than a
+ * session for the whole school needs.
+ */
+
+var REPORT_SHEET = 'Laporan';
+var REPORT_HEADERS = ['ID', 'Dikemas Kini', 'Tarikh', 'Subjek', 'Slot Masa', 'Guru', 'Hadir', 'Status Semakan', 'JSON'];
+var ATTENDANCE_SHEET = 'Kehadiran';
+var ATTENDANCE_HEADERS = ['ID', 'Tarikh', 'Subjek', 'Slot Masa', 'Guru', 'Nama Murid', 'Tahun', 'Status', 'Hadir', 'Catatan'];
+var DELETED_SHEET = 'Dipadam';
+var DELETED_HEADERS = ['ID', 'Dipadam Pada'];
+
+function doGet(e) {
+  if (!e || !e.parameter || !hasSecret(e.parameter.secret)) {
+    return respond({ status: 'error', message: 'Akses ditolak' });
+  }
+  if (e.parameter.action !== 'list') {
+    return respond({ status: 'error', message: 'Tindakan tidak dikenali' });
+  }
+  var rows = sheetOf(REPORT_SHEET, REPORT_HEADERS).getDataRange().getValues().slice(1);
+  var reports = [];
+  rows.forEach(function (row) {
+    try {
+      reports.push(JSON.parse(row[REPORT_HEADERS.length - 1]));
+    } catch (err) {
+      // A damaged row is skipped so every other report still reaches the devices
+    }
+  });
+  var deletedIds = sheetOf(DELETED_SHEET, DELETED_HEADERS).getDataRange().getValues().slice(1).map(function (row) {
+    return String(row[0]);
+  });
+  return respond({ status: 'ok', reports: reports, deletedIds: deletedIds });
+}
+
+function doPost(e) {
+  var lock = LockService.getScriptLock();
+  lock.waitLock(30000);
+  try {
+    var report = JSON.parse(e.postData.contents);
+    if (!hasSecret(report.secret)) {
+      return respond({ status: 'error', message: 'Akses ditolak' });
+    }
+    if (!report.id) {
+      return respond({ status: 'error', message: 'ID laporan tiada' });
+    }
+    var deletedSheet = sheetOf(DELETED_SHEET, DELETED_HEADERS);
+    removeRows(deletedSheet, report.id);
+    if (report.action === 'delete') {
+      removeRows(sheetOf(REPORT_SHEET, REPORT_HEADERS), report.id);
+      removeRows(sheetOf(ATTENDANCE_SHEET, ATTENDANCE_HEADERS), report.id);
+      deletedSheet.appendRow([report.id, report.deletedAt || new Date().toISOString()]);
+      return respond({ status: 'ok', id: report.id });
+    }
+
+    var stored = {};
+    Object.keys(report).forEach(function (key) {
+      if (key !== 'action' && key !== 'secret') stored[key] = report[key];
+    });
+
+    var reportSheet = sheetOf(REPORT_SHEET, REPORT_HEADERS);
+    removeRows(reportSheet, report.id);
+    reportSheet.appendRow([
+      report.id, report.updatedAt || '', report.date, report.subject, report.timeslot,
+      report.teacherName, report.totalPresent, report.reviewStatus || '', JSON.stringify(stored)
+    ]);
+
+    var attendanceSheet = sheetOf(ATTENDANCE_SHEET, ATTENDANCE_HEADERS);
+    removeRows(attendanceSheet, report.id);
+    var rows = (report.pupilData || []).map(function (p) {
+      return [report.id, report.date, report.subject, report.timeslot, report.teacherName, p.name, p.year, p.status, p.isPresent ? 'Ya' : 'Tidak', p.note || ''];
+    });
+    if (rows.length > 0) {
+      attendanceSheet.getRange(attendanceSheet.getLastRow() + 1, 1, rows.length, ATTENDANCE_HEADERS.length).setValues(rows);
+    }
+    return respond({ status: 'ok', id: report.id });
+  } catch (err) {
+    return respond({ status: 'error', message: String(err) });
+  } finally {
+    lock.releaseLock();
+  }
+}
+
+function hasSecret(secret) {
+  var expected = PropertiesService.getScriptProperties().getProperty('SYNC_SECRET');
+  return !expected || secret === expected;
+}
+
+function sheetOf(name, headers) {
+  var spreadsheet = SpreadsheetApp.getActiveSpreadsheet();
+  var sheet = spreadsheet.getSheetByName(name);
+  if (!sheet) {
+    sheet = spreadsheet.insertSheet(name);
+    sheet.appendRow(headers);
+    sheet.setFrozenRows(1);
+  }
+  // Ids are strings of digits; stored as numbers they would never match the id a device sends
+  sheet.getRange('A:A').setNumberFormat('@');
+  return sheet;
+}
+
+// Bottom up, so deleting a row does not shift the ones still to check
+function removeRows(sheet, id) {
+  var ids = sheet.getRange(1, 1, sheet.getLastRow(), 1).getValues();
+  for (var i = ids.length - 1; i >= 1; i--) {
+    if (String(ids[i][0]) === String(id)) sheet.deleteRow(i + 1);
+  }
+}
+
+function respond(body) {
+  return ContentService.createTextOutput(JSON.stringify(body)).setMimeType(ContentService.MimeType.JSON);
+}
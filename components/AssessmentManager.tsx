@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { Assessment, AssessmentKind, NotificationType, Pupil, Subject, Teacher } from '../types';
+import { ASSESSMENT_KINDS, YEARS } from '../constants';
+import { averageScore, sortAssessments } from '../services/assessments';
+import { canEditReport } from '../services/auth';
+import { createRosterId } from '../services/roster';
+import { todayIso } from '../services/dates';
+import { I18n, LONG_DATE } from '../services/i18n';
+
+interface AssessmentManagerProps {
+  assessments: Assessment[];
+  pupils: Pupil[];
+  subjects: Subject[];
+  currentTeacher: Teacher;
+  onSave: (assessment: Assessment) => void;
+  onDelete: (assessment: Assessment) => void;
+  notify: (message: string, type?: NotificationType) => void;
+  i18n: I18n;
+}
+
+const inputClass = "w-full p-4 bg-slate-50 border-2 border-slate-100 rounded-2xl font-bold text-slate-700 outline-none focus:border-indigo-500 transition-colors";
+const labelClass = "text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]";
+
+const AssessmentManager: React.FC<AssessmentManagerProps> = ({ assessments, pupils, subjects, currentTeacher, onSave, onDelete, notify, i18n }) => {
+  const { t } = i18n;
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [kind, setKind] = useState<AssessmentKind>('monthly_quiz');
+  const [title, setTitle] = useState('');
+  const [subjectId, setSubjectId] = useState('');
+  const [date, setDate] = useState(todayIso());
+  const [maxScore, setMaxScore] = useState(100);
+  const [targetYears, setTargetYears] = useState<number[]>(YEARS);
+  // Kept as typed so a half-entered mark is not lost; parsed on save
+  const [scores, setScores] = useState<Record<string, string>>({});
+
+  const editing = assessments.find(a => a.id === editingId);
+  const subjectName = (id: string) => subjects.find(s => s.id === id)?.name || id;
+
+  // Pupils who have since left or moved Tahun keep their mark when an older paper is edited
+  const sheetPupils = pupils.filter(p => (p.active && targetYears.includes(p.year)) || (editing && p.id in editing.scores));
+
+  const toggleYear = (year: number) =>
+    setTargetYears(prev => prev.includes(year) ? prev.filter(y => y !== year) : [...prev, year].sort());
+
+  const resetForm = () => {
+    setEditingId(null);
+    setTitle('');
+    setScores({});
+  };
+
+  const startEditing = (assessment: Assessment) => {
+    setEditingId(assessment.id);
+    setKind(assessment.kind);
+    setTitle(assessment.title);
+    setSubjectId(assessment.subjectId);
+    setDate(assessment.date);
+    setMaxScore(assessment.maxScore);
+    setTargetYears([...assessment.targetYears]);
+    setScores(Object.fromEntries(Object.entries(assessment.scores).map(([id, mark]) => [id, String(mark)])));
+    window.scrollTo(0, 0);
+  };
+
+  const handleSave = () => {
+    const trimmedTitle = title.trim();
+    if (!trimmedTitle || !subjectId || !(maxScore > 0)) {
+      notify(t('assessments.needDetails'), "error");
+      return;
+    }
+    const entered = sheetPupils.filter(p => (scores[p.id] || '').trim() !== '');
+    if (entered.length === 0) {
+      notify(t('assessments.needScores'), "error");
+      return;
+    }
+    const invalid = entered.filter(p => {
+      const mark = Number(scores[p.id]);
+      return !Number.isFinite(mark) || mark < 0 || mark > maxScore;
+    });
+    if (invalid.length > 0) {
+      notify(t('assessments.invalidScores', { max: maxScore, names: invalid.map(p => p.name).join(', ') }), "error");
+      return;
+    }
+    onSave({
+      id: editing?.id || createRosterId('a'),
+      kind,
+      title: trimmedTitle,
+      subjectId,
+      date,
+      maxScore,
+      targetYears,
+      scores: Object.fromEntries(entered.map(p => [p.id, Number(scores[p.id])])),
+      teacherId: editing?.teacherId || currentTeacher.id,
+      teacherName: editing?.teacherName || currentTeacher.name,
+      updatedAt: new Date().toISOString()
+    });
+    notify(t(editing ? 'assessments.updated' : 'assessments.saved', { title: trimmedTitle }), "success");
+    resetForm();
+  };
+
+  const handleDelete = (assessment: Assessment) => {
+    if (!window.confirm(t('assessments.confirmDelete', { title: assessment.title }))) return;
+    if (assessment.id === editingId) resetForm();
+    onDelete(assessment);
+  };
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      <div>
+        <h2 className="text-2xl font-black text-slate-800">{t('assessments.title')}</h2>
+        <p className="text-slate-500 text-sm font-medium">{t('assessments.subtitle')}</p>
+      </div>
+
+      <div className="bg-white p-8 rounded-3xl shadow-sm border border-slate-200 space-y-6">
+        <h3 className="font-black text-slate-800">{editing ? t('assessments.editTitle') : t('assessments.newTitle')}</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="space-y-2">
+            <label className={labelClass}>{t('assessments.kind')}</label>
+            <select value={kind} onChange={(e) => setKind(e.target.value as AssessmentKind)} className={inputClass}>
+              {ASSESSMENT_KINDS.map(k => <option key={k.value} value={k.value}>{t(`assessmentKind.${k.value}`)}</option>)}
+            </select>
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <label className={labelClass}>{t('assessments.paperTitle')}</label>
+            <input value={title} onChange={(e) => setTitle(e.target.value)} placeholder={t('assessments.paperTitlePlaceholder')} className={inputClass} />
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>{t('common.subject')}</label>
+            <select value={subjectId} onChange={(e) => setSubjectId(e.target.value)} className={inputClass}>
+              <option value="">{t('timetable.chooseSubject')}</option>
+              {subjects.filter(s => s.active || s.id === subjectId).map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>{t('common.date')}</label>
+            <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>{t('assessments.maxScore')}</label>
+            <input type="number" min={1} value={maxScore} onChange={(e) => setMaxScore(Number(e.target.value))} className={inputClass} />
+          </div>
+          <div className="space-y-3 md:col-span-3">
+            <label className={labelClass}>{t('assessments.targetYears')}</label>
+            <div className="flex flex-wrap gap-2">
+              {YEARS.map(year => (
+                <button
+                  key={year}
+                  onClick={() => toggleYear(year)}
+                  className={`px-4 py-2 rounded-full text-xs font-black border-2 transition-all ${targetYears.includes(year) ? 'bg-indigo-600 border-indigo-600 text-white shadow' : 'bg-white border-slate-100 text-slate-400 hover:border-slate-200'}`}
+                >
+                  {t('common.year', { year })}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div>
+            <label className={labelClass}>{t('assessments.scores')}</label>
+            <p className="text-[10px] font-bold text-slate-400">{t('assessments.scoresHint')}</p>
+          </div>
+          {sheetPupils.length === 0 ? (
+            <p className="text-xs font-bold text-slate-300 italic">{t('assessments.noPupils')}</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-2">
+              {sheetPupils.map(p => (
+                <div key={p.id} className="flex items-center gap-3 border-b border-slate-50 pb-2">
+                  <span className="text-[9px] font-black text-indigo-400 w-6">{t('roster.yearShort', { year: p.year })}</span>
+                  <span className="flex-1 text-sm font-bold text-slate-700">{p.name}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={maxScore}
+                    step="any"
+                    value={scores[p.id] || ''}
+                    onChange={(e) => setScores(prev => ({ ...prev, [p.id]: e.target.value }))}
+                    className="w-20 px-2 py-1 bg-slate-50 border-2 border-slate-100 rounded-xl font-black text-slate-700 text-center outline-none focus:border-indigo-500"
+                  />
+                  <span className="text-[10px] font-black text-slate-400 w-10">{t('assessments.outOf', { max: maxScore })}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3">
+          <button onClick={handleSave} className="px-6 py-4 bg-indigo-600 text-white rounded-2xl font-black shadow-lg hover:bg-indigo-700 transition-colors">{t('assessments.save')}</button>
+          {editing && <button onClick={resetForm} className="px-6 py-4 bg-slate-100 text-slate-600 rounded-2xl font-black hover:bg-slate-200 transition-colors">{t('common.cancel')}</button>}
+        </div>
+      </div>
+
+      <div className="bg-white p-8 rounded-3xl shadow-sm border border-slate-200 space-y-4">
+        <h3 className="font-black text-slate-800">{t('assessments.savedList')}</h3>
+        {assessments.length === 0 ? (
+          <p className="text-xs font-bold text-slate-300 italic">{t('assessments.none')}</p>
+        ) : (
+          <div className="space-y-2">
+            {sortAssessments(assessments).map(a => (
+              <div key={a.id} className={`flex flex-col md:flex-row md:items-center justify-between gap-3 border-b border-slate-50 pb-3 ${a.id === editingId ? 'bg-indigo-50/50 -mx-3 px-3 rounded-xl' : ''}`}>
+                <div>
+                  <p className="text-sm font-black text-slate-700">
+                    {a.title}
+                    <span className="ml-2 text-[9px] font-black uppercase text-indigo-600 bg-indigo-50 px-2 py-0.5 rounded">{t(`assessmentKind.${a.kind}`)}</span>
+                  </p>
+                  <p className="text-[10px] font-bold text-slate-400">
+                    {subjectName(a.subjectId)} • {i18n.formatDate(a.date, LONG_DATE)} • {t('assessments.summary', { count: Object.keys(a.scores).length, average: averageScore(a) ?? '-' })} • {t('assessments.recordedBy', { teacher: a.teacherName })}
+                  </p>
+                </div>
+                {canEditReport(currentTeacher, a) && (
+                  <div className="flex gap-2">
+                    <button onClick={() => startEditing(a)} className="text-[10px] font-black uppercase text-indigo-600 border border-indigo-100 px-3 py-1 rounded-full bg-white hover:bg-indigo-50">{t('common.edit')}</button>
+                    <button onClick={() => handleDelete(a)} className="text-[10px] font-black uppercase text-rose-500 border border-rose-100 px-3 py-1 rounded-full bg-white hover:bg-rose-50">{t('common.delete')}</button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AssessmentManager;
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { Catalogue, NotificationType } from '../types';
+import { createCatalogueId, normaliseLabel } from '../services/catalogue';
+import { I18n } from '../services/i18n';
+
+interface CatalogueManagerProps {
+  catalogue: Catalogue;
+  onChange: (catalogue: Catalogue) => void;
+  notify: (message: string, type?: NotificationType) => void;
+  i18n: I18n;
+}
+
+type Section = 'subjects' | 'timeslots';
+
+// Subjects and timeslots share one shape for editing: id, display text, active
+interface Entry {
+  id: string;
+  text: string;
+  active: boolean;
+}
+
+const inputClass = "w-full p-4 bg-slate-50 border-2 border-slate-100 rounded-2xl font-bold text-slate-700 outline-none focus:border-indigo-500 transition-colors";
+const labelClass = "text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]";
+
+const CatalogueManager: React.FC<CatalogueManagerProps> = ({ catalogue, onChange, notify, i18n }) => {
+  const { t } = i18n;
+  const [section, setSection] = useState<Section>('subjects');
+  const [newText, setNewText] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingText, setEditingText] = useState('');
+
+  const noun = t(section === 'subjects' ? 'catalogue.nounSubject' : 'catalogue.nounTimeslot');
+  const entries: Entry[] = section === 'subjects'
+    ? catalogue.subjects.map(s => ({ id: s.id, text: s.name, active: s.active }))
+    : catalogue.timeslots.map(s => ({ id: s.id, text: s.label, active: s.active }));
+
+  const save = (next: Entry[]) => {
+    onChange(section === 'subjects'
+      ? { ...catalogue, subjects: next.map(e => ({ id: e.id, name: e.text, active: e.active })) }
+      : { ...catalogue, timeslots: next.map(e => ({ id: e.id, label: e.text, active: e.active })) });
+  };
+
+  const isDuplicate = (text: string, ignoreId?: string) =>
+    entries.some(e => e.id !== ignoreId && e.text.toLowerCase() === text.toLowerCase());
+
+  const handleAdd = () => {
+    const text = normaliseLabel(newText);
+    if (!text) {
+      notify(t('catalogue.needName', { noun: noun.toLowerCase() }), "error");
+      return;
+    }
+    if (isDuplicate(text)) {
+      notify(t('catalogue.duplicate', { noun }), "error");
+      return;
+    }
+    const id = createCatalogueId(section === 'subjects' ? 's' : 'ts', text, entries.map(e => e.id));
+    save([...entries, { id, text, active: true }]);
+    setNewText('');
+    notify(t('catalogue.added', { name: text }), "success");
+  };
+
+  const commitEdit = () => {
+    if (!editingId) return;
+    const text = normaliseLabel(editingText);
+    if (!text) {
+      notify(t('roster.emptyName'), "error");
+      return;
+    }
+    if (isDuplicate(text, editingId)) {
+      notify(t('catalogue.duplicate', { noun }), "error");
+      return;
+    }
+    save(entries.map(e => e.id === editingId ? { ...e, text } : e));
+    setEditingId(null);
+    notify(t('catalogue.renamed'), "info");
+  };
+
+  const toggleActive = (entry: Entry) => {
+    if (entry.active && entries.filter(e => e.active).length === 1) {
+      notify(t('catalogue.needActive', { noun: noun.toLowerCase() }), "error");
+      return;
+    }
+    save(entries.map(e => e.id === entry.id ? { ...e, active: !e.active } : e));
+    notify(t(entry.active ? 'catalogue.retired' : 'catalogue.reactivated', { name: entry.text }), "info");
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-black text-slate-800">{t('catalogue.title')}</h2>
+          <p className="text-slate-500 text-sm font-medium">{t('catalogue.subtitle')}</p>
+        </div>
+        <div className="flex bg-slate-100 p-1 rounded-2xl">
+          {([['subjects', 'catalogue.subjects'], ['timeslots', 'catalogue.timeslots']] as const).map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => { setSection(id); setEditingId(null); setNewText(''); }}
+              className={`px-5 py-2 rounded-xl text-xs font-black transition-all ${section === id ? 'bg-white text-indigo-900 shadow' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              {t(label)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white p-8 rounded-3xl shadow-sm border border-slate-200 grid grid-cols-1 md:grid-cols-4 gap-6 items-end">
+        <div className="space-y-2 md:col-span-3">
+          <label className={labelClass}>{t('catalogue.newEntry', { noun })}</label>
+          <input
+            value={newText}
+            onChange={(e) => setNewText(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder={t(section === 'subjects' ? 'catalogue.subjectPlaceholder' : 'catalogue.timeslotPlaceholder')}
+            className={inputClass}
+          />
+        </div>
+        <button onClick={handleAdd} className="px-6 py-4 bg-indigo-600 text-white rounded-2xl font-black shadow-lg hover:bg-indigo-700 transition-colors">{t('catalogue.addEntry', { noun })}</button>
+      </div>
+
+      <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-200 space-y-2">
+        {entries.map(entry => (
+          <div key={entry.id} className="flex items-center gap-3 border-b border-slate-50 pb-2">
+            {editingId === entry.id ? (
+              <div className="flex-1 flex gap-2">
+                <input
+                  autoFocus
+                  value={editingText}
+                  onChange={(e) => setEditingText(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') commitEdit(); if (e.key === 'Escape') setEditingId(null); }}
+                  className="flex-1 px-3 py-2 bg-white border-2 border-indigo-200 rounded-xl text-sm font-bold text-slate-700 outline-none focus:border-indigo-500"
+                />
+                <button onClick={commitEdit} className="text-[10px] font-black uppercase text-white bg-indigo-600 px-3 py-1 rounded-full hover:bg-indigo-700">{t('common.save')}</button>
+                <button onClick={() => setEditingId(null)} className="text-[10px] font-black uppercase text-slate-500 border border-slate-200 px-3 py-1 rounded-full bg-white hover:bg-slate-50">{t('common.cancel')}</button>
+              </div>
+            ) : (
+              <>
+                <span className={`flex-1 text-sm font-bold ${entry.active ? 'text-slate-700' : 'text-slate-300 line-through'}`}>{entry.text}</span>
+                <button onClick={() => { setEditingId(entry.id); setEditingText(entry.text); }} className="text-[10px] font-black uppercase text-indigo-600 border border-indigo-100 px-3 py-1 rounded-full bg-white hover:bg-indigo-50">{t('common.edit')}</button>
+                <button onClick={() => toggleActive(entry)} className={`text-[10px] font-black uppercase px-3 py-1 rounded-full bg-white border ${entry.active ? 'text-rose-500 border-rose-100 hover:bg-rose-50' : 'text-emerald-600 border-emerald-100 hover:bg-emerald-50'}`}>
+                  {entry.active ? t('catalogue.retire') : t('common.activate')}
+                </button>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CatalogueManager;
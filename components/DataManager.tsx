@@ -0,0 +1,140 @@
+import React, { useRef, useState } from 'react';
+import { AppSettings, Assessment, BackupFile, Catalogue, NotificationType, Roster, SavedReport, Snapshot, TimetableSlot, WarningLetter } from '../types';
+import { createBackup, parseBackup, previewRestore } from '../services/backup';
+import { downloadText } from '../services/download';
+import { I18n } from '../services/i18n';
+
+interface DataManagerProps {
+  reports: SavedReport[];
+  roster: Roster;
+  catalogue: Catalogue;
+  timetable: TimetableSlot[];
+  assessments: Assessment[];
+  warningLetters: WarningLetter[];
+  settings: AppSettings;
+  snapshots: Snapshot[];
+  onRestore: (backup: BackupFile) => void;
+  notify: (message: string, type?: NotificationType) => void;
+  i18n: I18n;
+}
+
+const DataManager: React.FC<DataManagerProps> = ({ reports, roster, catalogue, timetable, assessments, warningLetters, settings, snapshots, onRestore, notify, i18n }) => {
+  const { t } = i18n;
+  const [pendingRestore, setPendingRestore] = useState<{ source: string; backup: BackupFile } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const preview = pendingRestore ? previewRestore(pendingRestore.backup, reports, roster, catalogue, timetable, assessments, warningLetters, settings) : null;
+
+  const handleDownload = () => {
+    const backup = createBackup(reports, roster, catalogue, timetable, assessments, warningLetters, settings);
+    downloadText(JSON.stringify(backup, null, 2), `Sandaran_Kehadiran_${backup.createdAt.split('T')[0]}.json`, 'application/json');
+    notify(t('data.downloaded'), "success");
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setPendingRestore({ source: file.name, backup: parseBackup(await file.text()) });
+    } catch (error) {
+      notify(error instanceof Error ? error.message : t('data.readFailed'), "error");
+    }
+  };
+
+  const confirmRestore = () => {
+    if (!pendingRestore) return;
+    onRestore(pendingRestore.backup);
+    setPendingRestore(null);
+  };
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      <div>
+        <h2 className="text-2xl font-black text-slate-800">{t('data.title')}</h2>
+        <p className="text-slate-500 text-sm font-medium">{t('data.subtitle')}</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="bg-white p-8 rounded-3xl shadow-sm border border-slate-200 space-y-4">
+          <h3 className="font-black text-slate-800">{t('data.downloadTitle')}</h3>
+          <p className="text-xs font-bold text-slate-500">
+            {t('data.downloadSummary', { reports: reports.length, pupils: roster.pupils.length, teachers: roster.teachers.length, assessments: assessments.length, letters: warningLetters.length })}
+          </p>
+          <button onClick={handleDownload} className="w-full px-6 py-4 bg-indigo-600 text-white rounded-2xl font-black shadow-lg hover:bg-indigo-700 transition-colors">{t('data.downloadButton')}</button>
+        </div>
+        <div className="bg-white p-8 rounded-3xl shadow-sm border border-slate-200 space-y-4">
+          <h3 className="font-black text-slate-800">{t('data.restoreTitle')}</h3>
+          <p className="text-xs font-bold text-slate-500">{t('data.restoreHint')}</p>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+          <button onClick={() => fileInputRef.current?.click()} className="w-full px-6 py-4 bg-white border-2 border-slate-100 text-slate-700 rounded-2xl font-black hover:border-indigo-200 transition-colors">{t('data.chooseFile')}</button>
+        </div>
+      </div>
+
+      {pendingRestore && preview && (
+        <div className="bg-amber-50 p-8 rounded-3xl border border-amber-200 space-y-6">
+          <div>
+            <h3 className="text-xl font-black text-amber-900">{t('data.previewTitle')}</h3>
+            <p className="text-xs font-bold text-amber-700">
+              {pendingRestore.source} • {t('data.createdAt', { date: i18n.formatDateTime(pendingRestore.backup.createdAt) })}
+            </p>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-white p-4 rounded-2xl"><p className="text-[9px] font-black text-emerald-500 uppercase">{t('data.added')}</p><p className="text-2xl font-black text-emerald-700">{preview.reportsAdded.length}</p></div>
+            <div className="bg-white p-4 rounded-2xl"><p className="text-[9px] font-black text-amber-500 uppercase">{t('data.overwritten')}</p><p className="text-2xl font-black text-amber-700">{preview.reportsOverwritten.length}</p></div>
+            <div className="bg-white p-4 rounded-2xl"><p className="text-[9px] font-black text-slate-400 uppercase">{t('data.unchanged')}</p><p className="text-2xl font-black text-slate-600">{preview.reportsUnchanged}</p></div>
+            <div className="bg-white p-4 rounded-2xl">
+              <p className="text-[9px] font-black text-indigo-400 uppercase">{t('data.roster')}</p>
+              <p className="text-xs font-black text-indigo-700 mt-1">{t('data.pupilChanges', { added: preview.pupilsAdded.length, overwritten: preview.pupilsOverwritten.length })}</p>
+              <p className="text-xs font-black text-indigo-700">{t('data.teacherChanges', { added: preview.teachersAdded.length, overwritten: preview.teachersOverwritten.length })}</p>
+              {(preview.subjectsAdded.length > 0 || preview.timeslotsAdded.length > 0) && (
+                <p className="text-xs font-black text-indigo-700">{t('data.catalogueChanges', { subjects: preview.subjectsAdded.length, timeslots: preview.timeslotsAdded.length })}</p>
+              )}
+              {preview.timetableAdded > 0 && <p className="text-xs font-black text-indigo-700">{t('data.timetableChanges', { count: preview.timetableAdded })}</p>}
+              {(preview.assessmentsAdded > 0 || preview.assessmentsOverwritten > 0) && (
+                <p className="text-xs font-black text-indigo-700">{t('data.assessmentChanges', { added: preview.assessmentsAdded, overwritten: preview.assessmentsOverwritten })}</p>
+              )}
+              {preview.lettersAdded > 0 && <p className="text-xs font-black text-indigo-700">{t('data.letterChanges', { count: preview.lettersAdded })}</p>}
+            </div>
+          </div>
+          {preview.reportsOverwritten.length > 0 && (
+            <div className="space-y-1 max-h-40 overflow-y-auto">
+              {preview.reportsOverwritten.map(r => (
+                <p key={r.id} className="text-[11px] font-bold text-amber-800 bg-white/70 px-3 py-2 rounded-xl">{t('data.overwrittenLine', { date: r.date, subject: r.subject, timeslot: r.timeslot, teacher: r.teacherName })}</p>
+              ))}
+            </div>
+          )}
+          {preview.settingsChanged && <p className="text-xs font-bold text-amber-800">{t('data.settingsReplaced')}</p>}
+          <div className="flex gap-3">
+            <button onClick={confirmRestore} className="flex-1 px-6 py-3 bg-amber-500 text-white rounded-2xl font-black shadow-lg hover:bg-amber-600 transition-colors">{t('data.confirmRestore')}</button>
+            <button onClick={() => setPendingRestore(null)} className="flex-1 px-6 py-3 bg-white text-slate-600 rounded-2xl font-black hover:bg-slate-100 transition-colors">{t('common.cancel')}</button>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white p-8 rounded-3xl shadow-sm border border-slate-200 space-y-4">
+        <div>
+          <h3 className="font-black text-slate-800">{t('data.snapshotsTitle')}</h3>
+          <p className="text-xs font-bold text-slate-500">{t('data.snapshotsHint', { count: snapshots.length })}</p>
+        </div>
+        {snapshots.length === 0 ? (
+          <p className="text-xs font-bold text-slate-300 italic">{t('data.noSnapshots')}</p>
+        ) : (
+          <div className="space-y-2">
+            {snapshots.map(s => (
+              <div key={s.id} className="flex items-center justify-between gap-4 border-b border-slate-50 pb-2">
+                <div>
+                  <p className="text-sm font-black text-slate-700">{s.reason}</p>
+                  <p className="text-[10px] font-bold text-slate-400">{i18n.formatDateTime(s.createdAt)} • {t('data.snapshotRecords', { count: s.backup.reports.length })}</p>
+                </div>
+                <button onClick={() => setPendingRestore({ source: t('data.snapshotSource', { reason: s.reason }), backup: s.backup })} className="text-[10px] font-black uppercase text-indigo-600 border border-indigo-100 px-3 py-1 rounded-full bg-white hover:bg-indigo-50">{t('data.restore')}</button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DataManager;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { SavedReport } from '../types';
+import { I18n, LONG_DATE } from '../services/i18n';
+
+interface DuplicateSessionModalProps {
+  existing: SavedReport;
+  incoming: Omit<SavedReport, 'id' | 'timestamp'>;
+  onMerge: () => void;
+  onReplace: () => void;
+  onCancel: () => void;
+  canModify: boolean; // False when a guru would be changing another teacher's record
+  i18n: I18n;
+}
+
+const SessionSummary = ({ title, report, tone, i18n: { t } }: { title: string; report: Omit<SavedReport, 'id' | 'timestamp'> & { timestamp?: string }; tone: string; i18n: I18n }) => (
+  <div className={`p-5 rounded-2xl border ${tone}`}>
+    <p className="text-[10px] font-black uppercase tracking-widest mb-2 opacity-70">{title}</p>
+    <p className="text-sm font-black leading-tight">{report.teacherName}</p>
+    <p className="text-xs font-bold mt-1">{t('common.presentOf', { present: report.totalPresent, total: report.expectedPupilIds?.length ?? '-' })}</p>
+    {report.timestamp && <p className="text-[10px] font-bold mt-1 opacity-70">{t('duplicate.savedAt', { time: report.timestamp })}</p>}
+  </div>
+);
+
+const DuplicateSessionModal: React.FC<DuplicateSessionModalProps> = ({ existing, incoming, onMerge, onReplace, onCancel, canModify, i18n }) => (
+  <div className="fixed inset-0 z-[90] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-6" onClick={onCancel}>
+    <div className="bg-white w-full max-w-xl rounded-[2.5rem] shadow-2xl border border-slate-200 p-10 space-y-6 animate-in slide-in-from-bottom-6 duration-300" onClick={(e) => e.stopPropagation()}>
+      <div>
+        <h2 className="text-xl font-black text-slate-800">{i18n.t('duplicate.title')}</h2>
+        <p className="text-sm font-bold text-slate-500 mt-1">
+          {existing.subject} • {i18n.formatDate(existing.date, LONG_DATE)} • {existing.timeslot}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <SessionSummary title={i18n.t('duplicate.existing')} report={existing} tone="bg-slate-50 border-slate-200 text-slate-700" i18n={i18n} />
+        <SessionSummary title={i18n.t('duplicate.incoming')} report={incoming} tone="bg-indigo-50 border-indigo-100 text-indigo-900" i18n={i18n} />
+      </div>
+
+      {canModify ? (
+        <div className="space-y-2 text-xs font-bold text-slate-500">
+          <p><span className="text-slate-800">{i18n.t('duplicate.merge')}:</span> {i18n.t('duplicate.mergeHint')}</p>
+          <p><span className="text-slate-800">{i18n.t('duplicate.replace')}:</span> {i18n.t('duplicate.replaceHint')}</p>
+        </div>
+      ) : (
+        <p className="text-xs font-bold text-rose-600">{i18n.t('duplicate.notOwner', { teacher: existing.teacherName })}</p>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        {canModify && (
+          <>
+            <button onClick={onMerge} className="flex-1 px-6 py-3 bg-indigo-600 text-white rounded-2xl font-black shadow-lg hover:bg-indigo-700 transition-colors">{i18n.t('duplicate.merge')}</button>
+            <button onClick={onReplace} className="flex-1 px-6 py-3 bg-amber-500 text-white rounded-2xl font-black shadow-lg hover:bg-amber-600 transition-colors">{i18n.t('duplicate.replace')}</button>
+          </>
+        )}
+        <button onClick={onCancel} className="flex-1 px-6 py-3 bg-slate-100 text-slate-600 rounded-2xl font-black hover:bg-slate-200 transition-colors">{i18n.t('common.cancel')}</button>
+      </div>
+    </div>
+  </div>
+);
+
+export default DuplicateSessionModal;
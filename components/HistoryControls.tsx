@@ -0,0 +1,123 @@
+import React from 'react';
+import { Catalogue } from '../types';
+import { YEARS } from '../constants';
+import { EMPTY_HISTORY_FILTER, HISTORY_SORTS, HistoryFilter, HistorySort, isFilterActive } from '../services/history';
+import { I18n } from '../services/i18n';
+
+export type ExportFormat = 'csv' | 'summary' | 'xlsx';
+
+interface HistoryControlsProps {
+  filter: HistoryFilter;
+  sort: HistorySort;
+  catalogue: Catalogue;
+  resultCount: number;
+  totalCount: number;
+  selectedCount: number;
+  onFilterChange: (filter: HistoryFilter) => void;
+  onSortChange: (sort: HistorySort) => void;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onExportSelected: (format: ExportFormat) => void;
+  onDeleteSelected?: () => void; // Supervisors only
+  i18n: I18n;
+}
+
+const fieldClass = "w-full px-4 py-3 bg-slate-50 border-2 border-slate-100 rounded-xl text-xs font-bold text-slate-700 outline-none focus:border-indigo-500 transition-colors";
+const labelClass = "text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]";
+
+const HistoryControls: React.FC<HistoryControlsProps> = ({
+  filter,
+  sort,
+  catalogue,
+  resultCount,
+  totalCount,
+  selectedCount,
+  onFilterChange,
+  onSortChange,
+  onSelectAll,
+  onClearSelection,
+  onExportSelected,
+  onDeleteSelected,
+  i18n
+}) => {
+  const { t } = i18n;
+  const update = (patch: Partial<HistoryFilter>) => onFilterChange({ ...filter, ...patch });
+
+  return (
+    <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-200 space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4">
+        <div className="space-y-1 col-span-2 lg:col-span-2">
+          <label className={labelClass}>{t('history.searchTeacher')}</label>
+          <input value={filter.teacher} onChange={(e) => update({ teacher: e.target.value })} placeholder={t('history.searchPlaceholder')} className={fieldClass} />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>{t('history.from')}</label>
+          <input type="date" value={filter.from} onChange={(e) => update({ from: e.target.value })} className={fieldClass} />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>{t('history.to')}</label>
+          <input type="date" value={filter.to} onChange={(e) => update({ to: e.target.value })} className={fieldClass} />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>{t('common.subject')}</label>
+          <select value={filter.subjectId} onChange={(e) => update({ subjectId: e.target.value })} className={fieldClass}>
+            <option value="">{t('history.any')}</option>
+            {catalogue.subjects.map(s => <option key={s.id} value={s.id}>{s.name}{s.active ? '' : ` ${t('history.inactive')}`}</option>)}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>{t('common.timeslot')}</label>
+          <select value={filter.timeslotId} onChange={(e) => update({ timeslotId: e.target.value })} className={fieldClass}>
+            <option value="">{t('history.any')}</option>
+            {catalogue.timeslots.map(s => <option key={s.id} value={s.id}>{s.label}{s.active ? '' : ` ${t('history.inactive')}`}</option>)}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>{t('common.yearLabel')}</label>
+          <select value={filter.year ?? ''} onChange={(e) => update({ year: e.target.value === '' ? null : Number(e.target.value) })} className={fieldClass}>
+            <option value="">{t('history.any')}</option>
+            {YEARS.map(year => <option key={year} value={year}>{t('common.year', { year })}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <p className="text-xs font-black text-slate-500">{t('history.resultCount', { count: resultCount, total: totalCount })}</p>
+          {isFilterActive(filter) && (
+            <button onClick={() => onFilterChange(EMPTY_HISTORY_FILTER)} className="text-[10px] font-black uppercase text-slate-500 border border-slate-200 px-3 py-1 rounded-full bg-white hover:bg-slate-50">{t('history.resetFilters')}</button>
+          )}
+        </div>
+        <label className="flex items-center gap-2 text-xs font-bold text-slate-500">
+          {t('history.sortBy')}
+          <select value={sort} onChange={(e) => onSortChange(e.target.value as HistorySort)} className="px-3 py-2 bg-slate-50 border-2 border-slate-100 rounded-xl text-xs font-black text-slate-600 outline-none focus:border-indigo-500">
+            {HISTORY_SORTS.map(s => <option key={s} value={s}>{t(`history.sort.${s}`)}</option>)}
+          </select>
+        </label>
+      </div>
+
+      {resultCount > 0 && (
+        <div className="flex flex-wrap items-center gap-2 border-t border-slate-50 pt-4">
+          <button onClick={onSelectAll} className="text-[10px] font-black uppercase text-indigo-600 border border-indigo-100 px-3 py-1 rounded-full bg-white hover:bg-indigo-50">{t('history.selectAll', { count: resultCount })}</button>
+          {selectedCount > 0 && (
+            <>
+              <span className="text-xs font-black text-indigo-700 px-2">{t('history.selectedCount', { count: selectedCount })}</span>
+              <button onClick={onClearSelection} className="text-[10px] font-black uppercase text-slate-500 border border-slate-200 px-3 py-1 rounded-full bg-white hover:bg-slate-50">{t('history.clearSelection')}</button>
+              <select value="" onChange={(e) => onExportSelected(e.target.value as ExportFormat)} className="px-3 py-1 bg-white border border-indigo-100 rounded-full text-[10px] font-black uppercase text-indigo-600 outline-none">
+                <option value="">{t('history.exportSelected')}</option>
+                <option value="csv">{t('history.exportCsv')}</option>
+                <option value="summary">{t('history.exportSummary')}</option>
+                <option value="xlsx">{t('history.exportXlsx')}</option>
+              </select>
+              {onDeleteSelected && (
+                <button onClick={onDeleteSelected} className="text-[10px] font-black uppercase text-rose-500 border border-rose-100 px-3 py-1 rounded-full bg-white hover:bg-rose-50">{t('history.deleteSelected')}</button>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryControls;
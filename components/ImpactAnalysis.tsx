@@ -0,0 +1,128 @@
+import React, { useMemo, useState } from 'react';
+import { Assessment, Pupil, SavedReport, Subject, SubjectImpact } from '../types';
+import { buildImpact, correlationStrength } from '../services/assessments';
+import { I18n } from '../services/i18n';
+
+interface ImpactAnalysisProps {
+  reports: SavedReport[];
+  pupils: Pupil[];
+  subjects: Subject[];
+  assessments: Assessment[];
+  excludeExcused: boolean;
+  onExportPdf: (impact: SubjectImpact[]) => void;
+  isExporting: boolean;
+  i18n: I18n;
+}
+
+const signed = (value: number | null) => value === null ? '-' : `${value > 0 ? '+' : ''}${value}`;
+
+const gainClass = (gain: number | null) =>
+  gain === null ? 'text-slate-300' : gain > 0 ? 'text-emerald-600' : gain < 0 ? 'text-rose-500' : 'text-slate-500';
+
+const ImpactAnalysis: React.FC<ImpactAnalysisProps> = ({ reports, pupils, subjects, assessments, excludeExcused, onExportPdf, isExporting, i18n }) => {
+  const { t } = i18n;
+  const [subjectId, setSubjectId] = useState('');
+
+  const impact = useMemo(
+    () => buildImpact(reports, pupils, subjects, assessments, excludeExcused),
+    [reports, pupils, subjects, assessments, excludeExcused]
+  );
+  const selected = impact.find(s => s.subjectId === subjectId) || impact[0];
+
+  return (
+    <div className="bg-white p-8 rounded-3xl shadow-sm border border-slate-200 space-y-6">
+      <div className="flex flex-col md:flex-row justify-between md:items-end gap-4">
+        <div>
+          <h3 className="text-xl font-black text-slate-800">{t('impact.heading')}</h3>
+          <p className="text-slate-500 text-xs font-bold">{t('impact.hint')}</p>
+        </div>
+        {impact.length > 0 && (
+          <button
+            onClick={() => onExportPdf(impact)}
+            disabled={isExporting}
+            className="px-6 py-3 bg-white border-2 border-slate-100 text-slate-700 rounded-2xl font-black hover:border-indigo-200 transition-colors disabled:opacity-50 whitespace-nowrap"
+          >
+            {t('impact.savePdf')}
+          </button>
+        )}
+      </div>
+
+      {!selected ? (
+        <p className="text-xs font-bold text-slate-300 italic">{t('impact.empty')}</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {impact.map(s => (
+              <button
+                key={s.subjectId}
+                onClick={() => setSubjectId(s.subjectId)}
+                className={`px-4 py-2 rounded-full text-xs font-black border-2 transition-all ${s.subjectId === selected.subjectId ? 'bg-indigo-600 border-indigo-600 text-white shadow' : 'bg-white border-slate-100 text-slate-400 hover:border-slate-200'}`}
+              >
+                {s.subject}
+              </button>
+            ))}
+          </div>
+
+          <p className={`text-sm font-black px-4 py-3 rounded-2xl ${selected.correlation !== null && selected.correlation >= 0.3 ? 'bg-emerald-50 text-emerald-800' : 'bg-slate-50 text-slate-600'}`}>
+            {selected.correlation === null
+              ? t('impact.correlationNone')
+              : t('impact.correlation', { r: selected.correlation, strength: t(`impact.strength.${correlationStrength(selected.correlation)}`) })}
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {selected.bands.map(b => (
+              <div key={b.min} className="bg-slate-50 p-5 rounded-2xl">
+                <p className="text-[9px] font-black text-slate-400 uppercase tracking-wider mb-1">{t('impact.band')} {t('impact.bandRange', { min: b.min, max: b.max })}</p>
+                <p className="text-xs font-black text-slate-500">{b.pupilCount} {t('impact.pupils')}</p>
+                <div className="flex items-baseline gap-4 mt-2">
+                  <p className="text-2xl font-black text-indigo-700" title={t('impact.averageLatest')}>{b.averageLatest === null ? '-' : `${b.averageLatest}%`}</p>
+                  <p className={`text-sm font-black ${gainClass(b.averageGain)}`} title={t('impact.averageGain')}>{signed(b.averageGain)}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs font-bold">
+              <thead>
+                <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest text-left border-b border-slate-100">
+                  <th className="py-2 pr-4">{t('pdf.pupilName')}</th>
+                  <th className="py-2 pr-4 text-center">{t('common.yearLabel')}</th>
+                  <th className="py-2 pr-4">{t('impact.attendance')}</th>
+                  <th className="py-2 pr-4 text-center">{t('impact.firstScore')}</th>
+                  <th className="py-2 pr-4 text-center">{t('impact.latestScore')}</th>
+                  <th className="py-2 text-center">{t('impact.gain')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {selected.pupils.map(p => (
+                  <tr key={p.pupil.id} className="border-b border-slate-50">
+                    <td className="py-2 pr-4 text-slate-700">{p.pupil.name}</td>
+                    <td className="py-2 pr-4 text-center text-slate-400">{p.pupil.year}</td>
+                    <td className="py-2 pr-4">
+                      {p.attendance.sessionCount === 0 ? <span className="text-slate-300">-</span> : (
+                        <div className="flex items-center gap-2">
+                          <div className="h-2 w-24 bg-slate-100 rounded-full overflow-hidden">
+                            <div className="h-full bg-indigo-600 rounded-full" style={{ width: `${p.attendance.percentage}%` }}></div>
+                          </div>
+                          <span className="text-slate-600">{p.attendance.percentage}%</span>
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4 text-center text-slate-500">{p.firstScore}%</td>
+                    <td className="py-2 pr-4 text-center text-slate-700" title={p.scores.map(s => `${s.title}: ${s.percentage}%`).join('\n')}>
+                      {p.latestScore}% <span className="text-[9px] text-slate-300">({t('impact.papers', { count: p.scores.length })})</span>
+                    </td>
+                    <td className={`py-2 text-center font-black ${gainClass(p.gain)}`}>{signed(p.gain)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ImpactAnalysis;
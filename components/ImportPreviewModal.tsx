@@ -0,0 +1,70 @@
+import React from 'react';
+import { ImportPreview } from '../services/spreadsheet';
+import { I18n } from '../services/i18n';
+
+interface ImportPreviewModalProps {
+  filename: string;
+  preview: ImportPreview;
+  onConfirm: () => void;
+  onCancel: () => void;
+  i18n: I18n;
+}
+
+const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({ filename, preview, onConfirm, onCancel, i18n: { t } }) => (
+  <div className="fixed inset-0 z-[90] bg-slate-900/40 backdrop-blur-sm flex items-start justify-center overflow-y-auto p-6" onClick={onCancel}>
+    <div className="bg-white w-full max-w-2xl rounded-[2.5rem] shadow-2xl border border-slate-200 p-10 space-y-6 animate-in slide-in-from-bottom-6 duration-300" onClick={(e) => e.stopPropagation()}>
+      <div>
+        <h2 className="text-xl font-black text-slate-800">{t('import.title')}</h2>
+        <p className="text-sm font-bold text-slate-400">{filename}</p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="bg-emerald-50 p-5 rounded-2xl">
+          <p className="text-[9px] font-black text-emerald-500 uppercase tracking-wider mb-1">{t('import.newSessions')}</p>
+          <p className="text-3xl font-black text-emerald-700">{preview.reports.length}</p>
+        </div>
+        <div className="bg-amber-50 p-5 rounded-2xl">
+          <p className="text-[9px] font-black text-amber-500 uppercase tracking-wider mb-1">{t('import.duplicates')}</p>
+          <p className="text-3xl font-black text-amber-700">{preview.duplicates.length}</p>
+        </div>
+        <div className="bg-rose-50 p-5 rounded-2xl">
+          <p className="text-[9px] font-black text-rose-400 uppercase tracking-wider mb-1">{t('import.errors')}</p>
+          <p className="text-3xl font-black text-rose-600">{preview.errors.length}</p>
+        </div>
+      </div>
+
+      {preview.duplicates.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('import.existing')}</h3>
+          <div className="max-h-40 overflow-y-auto space-y-1">
+            {preview.duplicates.map(d => (
+              <p key={d.incoming.id} className="text-[11px] font-bold text-amber-800 bg-amber-50/60 px-3 py-2 rounded-xl">
+                {d.incoming.date} • {d.incoming.subject} • {d.incoming.timeslot} — {t('import.alreadyRecorded', { teacher: d.existing.teacherName })}
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {preview.errors.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('import.rejected')}</h3>
+          <div className="max-h-40 overflow-y-auto space-y-1">
+            {preview.errors.map((err, idx) => (
+              <p key={idx} className="text-[11px] font-bold text-rose-700 bg-rose-50/60 px-3 py-2 rounded-xl">{err}</p>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <button onClick={onConfirm} disabled={preview.reports.length === 0} className="flex-1 px-6 py-3 bg-indigo-600 text-white rounded-2xl font-black shadow-lg hover:bg-indigo-700 transition-colors disabled:opacity-50">
+          {t('import.confirm', { count: preview.reports.length })}
+        </button>
+        <button onClick={onCancel} className="flex-1 px-6 py-3 bg-slate-100 text-slate-600 rounded-2xl font-black hover:bg-slate-200 transition-colors">{t('common.cancel')}</button>
+      </div>
+    </div>
+  </div>
+);
+
+export default ImportPreviewModal;
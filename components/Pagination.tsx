@@ -0,0 +1,26 @@
+import React from 'react';
+import { I18n } from '../services/i18n';
+
+interface PaginationProps {
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+  i18n: I18n;
+}
+
+const buttonClass = "px-4 py-2 bg-white border-2 border-slate-100 text-slate-600 rounded-xl text-xs font-black hover:border-indigo-200 transition-colors disabled:opacity-40";
+
+const Pagination: React.FC<PaginationProps> = ({ page, pageCount, onPageChange, i18n }) => {
+  const { t } = i18n;
+  if (pageCount <= 1) return null;
+
+  return (
+    <div className="flex items-center justify-center gap-4">
+      <button onClick={() => onPageChange(page - 1)} disabled={page <= 1} className={buttonClass}>{t('history.prev')}</button>
+      <span className="text-xs font-black text-slate-500">{t('history.page', { page, count: pageCount })}</span>
+      <button onClick={() => onPageChange(page + 1)} disabled={page >= pageCount} className={buttonClass}>{t('history.next')}</button>
+    </div>
+  );
+};
+
+export default Pagination;
@@ -0,0 +1,103 @@
+import React from 'react';
+import { PupilProfile } from '../types';
+import { isExcusedStatus } from '../services/attendance';
+import { I18n } from '../services/i18n';
+
+interface PupilProfileModalProps {
+  profile: PupilProfile;
+  onClose: () => void;
+  i18n: I18n;
+}
+
+const PupilProfileModal: React.FC<PupilProfileModalProps> = ({ profile, onClose, i18n }) => {
+  const { t, statusLabel } = i18n;
+  const recentSessions = [...profile.sessions].reverse().slice(0, 20);
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-slate-900/40 backdrop-blur-sm flex items-start justify-center overflow-y-auto p-6" onClick={onClose}>
+      <div className="bg-white w-full max-w-3xl rounded-[2.5rem] shadow-2xl border border-slate-200 p-10 space-y-8 animate-in slide-in-from-bottom-6 duration-300" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-start gap-6">
+          <div>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">{t('profile.heading', { year: profile.pupil.year })}</p>
+            <h2 className="text-2xl font-black text-slate-800 leading-tight">{profile.pupil.name}</h2>
+            {!profile.pupil.active && <span className="inline-block mt-2 text-[10px] font-black uppercase text-rose-500 bg-rose-50 px-2 py-1 rounded">{t('profile.inactive')}</span>}
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-2 rounded-xl bg-slate-50 border border-slate-100">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M6 18L18 6M6 6l12 12"></path></svg>
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="bg-indigo-50 p-5 rounded-2xl">
+            <p className="text-[9px] font-black text-indigo-400 uppercase tracking-wider mb-1">{t('profile.percentage')}</p>
+            <p className="text-3xl font-black text-indigo-700">{profile.percentage}%</p>
+          </div>
+          <div className="bg-emerald-50 p-5 rounded-2xl">
+            <p className="text-[9px] font-black text-emerald-500 uppercase tracking-wider mb-1">{t('profile.present')}</p>
+            <p className="text-3xl font-black text-emerald-700">{profile.totalPresent}<span className="text-sm text-emerald-400"> / {profile.sessionCount}</span></p>
+          </div>
+          <div className={`p-5 rounded-2xl ${profile.currentAbsenceStreak > 0 ? 'bg-rose-50' : 'bg-slate-50'}`}>
+            <p className="text-[9px] font-black text-rose-400 uppercase tracking-wider mb-1">{t('profile.absenceStreak')}</p>
+            <p className="text-3xl font-black text-rose-600">{profile.currentAbsenceStreak}</p>
+          </div>
+          <div className="bg-slate-50 p-5 rounded-2xl">
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-wider mb-1">{t('profile.longestStreak')}</p>
+            <p className="text-3xl font-black text-slate-600">{profile.longestAbsenceStreak}</p>
+          </div>
+        </div>
+
+        {profile.sessionCount === 0 ? (
+          <div className="p-12 text-center rounded-3xl border-4 border-dashed border-slate-200 text-slate-400 font-bold">
+            {t('profile.noSessions')}
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+              <div className="space-y-3">
+                <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('profile.bySubject')}</h3>
+                {profile.bySubject.filter(s => s.sessionCount > 0).map(s => (
+                  <div key={s.subjectId} className="space-y-1">
+                    <div className="flex justify-between text-xs font-bold text-slate-600">
+                      <span>{s.subject}</span>
+                      <span>{t('profile.subjectLine', { present: s.totalPresent, missed: s.sessionCount - s.totalPresent, percentage: s.percentage })}</span>
+                    </div>
+                    <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                      <div className="h-full bg-indigo-600 rounded-full" style={{ width: `${s.percentage}%` }}></div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-3">
+                <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('profile.byMonth')}</h3>
+                {profile.byMonth.map(m => (
+                  <div key={m.month} className="flex justify-between text-xs font-bold text-slate-600 border-b border-slate-50 pb-1">
+                    <span>{i18n.formatDate(`${m.month}-01`, { month: 'long', year: 'numeric' })}</span>
+                    <span><span className="text-emerald-600">{t('profile.attended', { count: m.attended })}</span> • <span className="text-rose-500">{t('profile.missed', { count: m.missed })}</span></span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('profile.recent')}</h3>
+              <div className="flex flex-wrap gap-2">
+                {recentSessions.map(s => (
+                  <span
+                    key={s.reportId}
+                    title={`${s.subject} • ${s.timeslot} • ${statusLabel(s.status)}${s.note ? ` (${s.note})` : ''}`}
+                    className={`text-[10px] font-black px-2 py-1 rounded-lg border ${s.status === 'lewat' ? 'bg-amber-50 text-amber-700 border-amber-100' : s.isPresent ? 'bg-emerald-50 text-emerald-700 border-emerald-100' : isExcusedStatus(s.status) ? 'bg-slate-50 text-slate-500 border-slate-200' : 'bg-rose-50 text-rose-600 border-rose-100'}`}
+                  >
+                    {i18n.formatDate(s.date, { day: '2-digit', month: 'short' })} • {s.subject}
+                    {s.status !== 'hadir' && s.status !== 'tidak_hadir' && ` • ${statusLabel(s.status)}`}
+                  </span>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PupilProfileModal;
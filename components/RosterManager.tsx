@@ -0,0 +1,429 @@
+import React, { useState } from 'react';
+import { FINAL_YEAR, TEACHER_ROLES, YEARS } from '../constants';
+import { AcademicYear, NotificationType, Pupil, PupilIdMigrationReport, Teacher, TeacherRole } from '../types';
+import { createPupilId, createRosterId, normaliseName, sortPupils, sortTeachers } from '../services/roster';
+import { hashPin, isSupervisor, temporaryPin } from '../services/auth';
+import { planRollover } from '../services/academicYear';
+import { parseDate, todayIso } from '../services/dates';
+import { I18n } from '../services/i18n';
+
+interface RosterManagerProps {
+  pupils: Pupil[];
+  teachers: Teacher[];
+  onPupilsChange: (pupils: Pupil[]) => void;
+  onTeachersChange: (teachers: Teacher[]) => void;
+  academicYears: AcademicYear[];
+  onNewSchoolYear: (startDate: string) => void;
+  migrationReport: PupilIdMigrationReport | null;
+  currentTeacherId: string;
+  notify: (message: string, type?: NotificationType) => void;
+  i18n: I18n;
+}
+
+const inputClass = "w-full p-4 bg-slate-50 border-2 border-slate-100 rounded-2xl font-bold text-slate-700 outline-none focus:border-indigo-500 transition-colors";
+const labelClass = "text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]";
+
+const RosterManager: React.FC<RosterManagerProps> = ({
+  pupils,
+  teachers,
+  onPupilsChange,
+  onTeachersChange,
+  academicYears,
+  onNewSchoolYear,
+  migrationReport,
+  currentTeacherId,
+  notify,
+  i18n
+}) => {
+  const { t } = i18n;
+  const [section, setSection] = useState<'pupils' | 'teachers'>('pupils');
+  const [showInactive, setShowInactive] = useState(false);
+  const [newPupilName, setNewPupilName] = useState('');
+  const [newPupilYear, setNewPupilYear] = useState<number>(1);
+  const [newTeacherName, setNewTeacherName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [guardianPupilId, setGuardianPupilId] = useState<string | null>(null);
+  const [guardianName, setGuardianName] = useState('');
+  const [guardianPhone, setGuardianPhone] = useState('');
+  const [showRollover, setShowRollover] = useState(false);
+  const [rolloverDate, setRolloverDate] = useState(todayIso());
+
+  const isDuplicateName = (name: string, list: { id: string; name: string }[], ignoreId?: string) =>
+    list.some(item => item.id !== ignoreId && item.name === name);
+
+  const handleAddPupil = () => {
+    const name = normaliseName(newPupilName);
+    if (!name) {
+      notify(t('roster.needPupilName'), "error");
+      return;
+    }
+    if (isDuplicateName(name, pupils)) {
+      notify(t('roster.duplicatePupil'), "error");
+      return;
+    }
+    onPupilsChange(sortPupils([...pupils, { id: createPupilId(name, pupils.map(p => p.id)), name, year: newPupilYear, active: true }]));
+    setNewPupilName('');
+    notify(t('roster.pupilAdded', { name, year: newPupilYear }), "success");
+  };
+
+  const handleAddTeacher = () => {
+    const name = normaliseName(newTeacherName);
+    if (!name) {
+      notify(t('roster.needTeacherName'), "error");
+      return;
+    }
+    if (isDuplicateName(name, teachers)) {
+      notify(t('roster.duplicateTeacher'), "error");
+      return;
+    }
+    onTeachersChange(sortTeachers([...teachers, { id: createRosterId('t'), name, active: true, role: 'guru' }]));
+    setNewTeacherName('');
+    notify(t('roster.teacherAdded', { name }), "success");
+  };
+
+  const startEditing = (id: string, name: string) => {
+    setEditingId(id);
+    setEditingName(name);
+  };
+
+  const commitEdit = () => {
+    if (!editingId) return;
+    const name = normaliseName(editingName);
+    if (!name) {
+      notify(t('roster.emptyName'), "error");
+      return;
+    }
+    if (section === 'pupils') {
+      if (isDuplicateName(name, pupils, editingId)) {
+        notify(t('roster.duplicatePupil'), "error");
+        return;
+      }
+      onPupilsChange(sortPupils(pupils.map(p => p.id === editingId ? { ...p, name } : p)));
+    } else {
+      if (isDuplicateName(name, teachers, editingId)) {
+        notify(t('roster.duplicateTeacher'), "error");
+        return;
+      }
+      onTeachersChange(sortTeachers(teachers.map(x => x.id === editingId ? { ...x, name } : x)));
+    }
+    setEditingId(null);
+    notify(t('roster.renamed'), "info");
+  };
+
+  const movePupil = (pupil: Pupil, year: number) => {
+    onPupilsChange(sortPupils(pupils.map(p => p.id === pupil.id ? { ...p, year } : p)));
+    notify(t('roster.moved', { name: pupil.name, year }), "info");
+  };
+
+  const startGuardianEdit = (pupil: Pupil) => {
+    setGuardianPupilId(pupil.id);
+    setGuardianName(pupil.guardianName || '');
+    setGuardianPhone(pupil.guardianPhone || '');
+  };
+
+  // Both fields may be cleared; an empty value is dropped rather than stored
+  const commitGuardian = () => {
+    const pupil = pupils.find(p => p.id === guardianPupilId);
+    if (!pupil) return;
+    const name = normaliseName(guardianName);
+    const phone = guardianPhone.trim();
+    if (phone && !/^\+?[\d\s-]{9,}$/.test(phone)) {
+      notify(t('roster.invalidPhone'), "error");
+      return;
+    }
+    onPupilsChange(pupils.map(p => p.id === pupil.id ? { ...p, guardianName: name || undefined, guardianPhone: phone || undefined } : p));
+    setGuardianPupilId(null);
+    notify(t('roster.guardianSaved', { name: pupil.name }), "info");
+  };
+
+  const rollover = planRollover(pupils);
+  const rolloverYear = parseDate(rolloverDate).getFullYear();
+  const lastRollover = academicYears[academicYears.length - 1];
+
+  const handleRollover = () => {
+    if (academicYears.some(y => y.year === rolloverYear)) {
+      notify(t('roster.rolloverDone', { year: rolloverYear }), "error");
+      return;
+    }
+    if (!window.confirm(t('roster.confirmRollover', { year: rolloverYear, promoted: rollover.promoted.length, graduated: rollover.graduated.length }))) return;
+    onNewSchoolYear(rolloverDate);
+    setShowRollover(false);
+  };
+
+  // Bringing a graduate back (e.g. after a rollover by mistake) clears the graduation
+  const togglePupilActive = (pupil: Pupil) => {
+    onPupilsChange(pupils.map(p => p.id === pupil.id ? { ...p, active: !p.active, graduatedYear: undefined } : p));
+    notify(t(pupil.active ? 'roster.deactivated' : 'roster.reactivated', { name: pupil.name }), "info");
+  };
+
+  // Someone must always be able to manage the roster and reset PINs
+  const isLastSupervisor = (teacher: Teacher) =>
+    isSupervisor(teacher) && teacher.active && teachers.filter(x => x.active && isSupervisor(x)).length === 1;
+
+  const toggleTeacherActive = (teacher: Teacher) => {
+    if (teacher.id === currentTeacherId) {
+      notify(t('roster.cannotDeactivateSelf'), "error");
+      return;
+    }
+    if (isLastSupervisor(teacher)) {
+      notify(t('roster.needSupervisor'), "error");
+      return;
+    }
+    onTeachersChange(teachers.map(x => x.id === teacher.id ? { ...x, active: !x.active } : x));
+    notify(t(teacher.active ? 'roster.deactivated' : 'roster.reactivated', { name: teacher.name }), "info");
+  };
+
+  const changeRole = (teacher: Teacher, role: TeacherRole) => {
+    if (role === 'guru' && isLastSupervisor(teacher)) {
+      notify(t('roster.needSupervisor'), "error");
+      return;
+    }
+    onTeachersChange(teachers.map(x => x.id === teacher.id ? { ...x, role } : x));
+    notify(t('roster.roleChanged', { name: teacher.name, role: i18n.roleLabel(role) }), "info");
+  };
+
+  // The PIN is never cleared: a teacher without one could be claimed by whoever picks the name next
+  const issueTemporaryPin = async (teacher: Teacher) => {
+    if (teacher.pinHash && !window.confirm(t('roster.confirmResetPin', { name: teacher.name }))) return;
+    const pin = temporaryPin();
+    try {
+      const pinHash = await hashPin(teacher.id, pin);
+      onTeachersChange(teachers.map(x => x.id === teacher.id ? { ...x, pinHash, pinTemporary: true } : x));
+    } catch (error) {
+      console.error("PIN hashing failed", error);
+      notify(t('signIn.cryptoUnavailable'), "error");
+      return;
+    }
+    window.alert(t('roster.temporaryPinIssued', { name: teacher.name, pin }));
+    notify(t('roster.pinReset', { name: teacher.name }), "info");
+  };
+
+  const renderName = (id: string, name: string, active: boolean) => (
+    editingId === id ? (
+      <div className="flex-1 flex gap-2">
+        <input
+          autoFocus
+          value={editingName}
+          onChange={(e) => setEditingName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') commitEdit(); if (e.key === 'Escape') setEditingId(null); }}
+          className="flex-1 px-3 py-2 bg-white border-2 border-indigo-200 rounded-xl text-sm font-bold text-slate-700 outline-none focus:border-indigo-500"
+        />
+        <button onClick={commitEdit} className="text-[10px] font-black uppercase text-white bg-indigo-600 px-3 py-1 rounded-full hover:bg-indigo-700">{t('common.save')}</button>
+        <button onClick={() => setEditingId(null)} className="text-[10px] font-black uppercase text-slate-500 border border-slate-200 px-3 py-1 rounded-full bg-white hover:bg-slate-50">{t('common.cancel')}</button>
+      </div>
+    ) : (
+      <span className={`flex-1 text-sm font-bold ${active ? 'text-slate-700' : 'text-slate-300 line-through'}`}>{name}</span>
+    )
+  );
+
+  const visiblePupils = pupils.filter(p => showInactive || p.active);
+  const visibleTeachers = teachers.filter(x => showInactive || x.active);
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-black text-slate-800">{t('roster.title')}</h2>
+          <p className="text-slate-500 text-sm font-medium">{t('roster.subtitle')}</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-xs font-bold text-slate-500 cursor-pointer">
+            <input type="checkbox" checked={showInactive} onChange={(e) => setShowInactive(e.target.checked)} className="h-4 w-4" />
+            {t('common.showInactive')}
+          </label>
+          <div className="flex bg-slate-100 p-1 rounded-2xl">
+            {([['pupils', 'roster.pupils'], ['teachers', 'roster.teachers']] as const).map(([id, label]) => (
+              <button
+                key={id}
+                onClick={() => { setSection(id); setEditingId(null); }}
+                className={`px-5 py-2 rounded-xl text-xs font-black transition-all ${section === id ? 'bg-white text-indigo-900 shadow' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                {t(label)}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {migrationReport && migrationReport.unmapped.length > 0 && (
+        <div className="bg-rose-50 p-6 rounded-3xl border border-rose-200 space-y-3">
+          <div>
+            <h3 className="font-black text-rose-900">{t('roster.migrationTitle')}</h3>
+            <p className="text-xs font-bold text-rose-700">
+              {t('roster.migrationBody', { count: migrationReport.reportsUpdated, date: i18n.formatDate(migrationReport.migratedAt) })}
+            </p>
+          </div>
+          <div className="space-y-1">
+            {migrationReport.unmapped.map(u => (
+              <div key={u.reportId} className="text-[11px] font-bold text-rose-800 bg-white/70 px-3 py-2 rounded-xl border border-rose-100">
+                {u.date} • {u.subject} — {u.pupilIds.join(', ')}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {section === 'pupils' && (
+        <>
+          <div className="bg-indigo-50 p-6 rounded-3xl border border-indigo-100 space-y-4">
+            <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+              <div>
+                <h3 className="font-black text-indigo-900">{t('roster.rolloverTitle')}</h3>
+                <p className="text-xs font-bold text-indigo-700">
+                  {lastRollover
+                    ? t('roster.rolloverLast', { year: lastRollover.year, date: i18n.formatDate(lastRollover.startDate) })
+                    : t('roster.rolloverHint', { final: FINAL_YEAR })}
+                </p>
+              </div>
+              <button onClick={() => setShowRollover(prev => !prev)} className="px-6 py-3 bg-white border-2 border-indigo-100 text-indigo-700 rounded-2xl font-black hover:border-indigo-300 transition-colors whitespace-nowrap">
+                {showRollover ? t('common.cancel') : t('roster.rolloverOpen')}
+              </button>
+            </div>
+            {showRollover && (
+              <div className="bg-white p-6 rounded-2xl space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6 items-end">
+                  <div className="space-y-2">
+                    <label className={labelClass}>{t('roster.rolloverStart')}</label>
+                    <input type="date" value={rolloverDate} onChange={(e) => setRolloverDate(e.target.value || todayIso())} className={inputClass} />
+                  </div>
+                  <p className="text-sm font-black text-slate-700 md:col-span-2">
+                    {t('roster.rolloverSummary', { year: rolloverYear, promoted: rollover.promoted.length, graduated: rollover.graduated.length })}
+                  </p>
+                </div>
+                {rollover.graduated.length > 0 && (
+                  <p className="text-[11px] font-bold text-slate-500">
+                    {t('roster.rolloverGraduates', { year: rolloverYear - 1 })} {rollover.graduated.map(p => p.name).join(', ')}
+                  </p>
+                )}
+                <p className="text-[10px] font-bold text-slate-400">{t('roster.rolloverNote')}</p>
+                <button onClick={handleRollover} className="px-6 py-4 bg-indigo-600 text-white rounded-2xl font-black shadow-lg hover:bg-indigo-700 transition-colors">{t('roster.rolloverConfirm', { year: rolloverYear })}</button>
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white p-8 rounded-3xl shadow-sm border border-slate-200 grid grid-cols-1 md:grid-cols-4 gap-6 items-end">
+            <div className="space-y-2 md:col-span-2">
+              <label className={labelClass}>{t('roster.newPupil')}</label>
+              <input value={newPupilName} onChange={(e) => setNewPupilName(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleAddPupil()} placeholder={t('roster.pupilPlaceholder')} className={inputClass} />
+            </div>
+            <div className="space-y-2">
+              <label className={labelClass}>{t('common.yearLabel')}</label>
+              <select value={newPupilYear} onChange={(e) => setNewPupilYear(Number(e.target.value))} className={inputClass}>
+                {YEARS.map(y => <option key={y} value={y}>{t('common.year', { year: y })}</option>)}
+              </select>
+            </div>
+            <button onClick={handleAddPupil} className="px-6 py-4 bg-indigo-600 text-white rounded-2xl font-black shadow-lg hover:bg-indigo-700 transition-colors">{t('roster.addPupil')}</button>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {YEARS.map(year => {
+              const yearPupils = visiblePupils.filter(p => p.year === year);
+              return (
+                <div key={year} className="bg-white p-6 rounded-3xl shadow-sm border border-slate-200">
+                  <div className="flex items-center gap-3 mb-4">
+                    <span className="bg-indigo-700 text-white text-[10px] font-black px-2 py-1 rounded">{t('roster.yearBadge', { year })}</span>
+                    <div className="h-[2px] flex-1 bg-slate-100"></div>
+                    <span className="text-[10px] font-black text-slate-400 uppercase">{t('roster.activeCount', { count: pupils.filter(p => p.year === year && p.active).length })}</span>
+                  </div>
+                  {yearPupils.length === 0 ? (
+                    <p className="text-xs font-bold text-slate-300 italic">{t('roster.noPupils')}</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {yearPupils.map(p => (
+                        <div key={p.id} className="border-b border-slate-50 pb-2 space-y-2">
+                          <div className="flex items-center gap-3">
+                            {renderName(p.id, p.name, p.active)}
+                            {editingId !== p.id && (
+                              <>
+                                {p.graduatedYear && <span className="text-[9px] font-black uppercase text-emerald-700 bg-emerald-50 px-2 py-0.5 rounded">{t('roster.graduated', { year: p.graduatedYear })}</span>}
+                                <select value={p.year} onChange={(e) => movePupil(p, Number(e.target.value))} className="px-2 py-1 bg-slate-50 border border-slate-100 rounded-lg text-[10px] font-black text-slate-500 outline-none">
+                                  {YEARS.map(y => <option key={y} value={y}>{t('roster.yearShort', { year: y })}</option>)}
+                                </select>
+                                <button onClick={() => startEditing(p.id, p.name)} className="text-[10px] font-black uppercase text-indigo-600 border border-indigo-100 px-3 py-1 rounded-full bg-white hover:bg-indigo-50">{t('common.edit')}</button>
+                                <button
+                                  onClick={() => guardianPupilId === p.id ? setGuardianPupilId(null) : startGuardianEdit(p)}
+                                  title={p.guardianName ? `${p.guardianName}${p.guardianPhone ? ` • ${p.guardianPhone}` : ''}` : t('roster.noGuardian')}
+                                  className={`text-[10px] font-black uppercase border px-3 py-1 rounded-full bg-white ${p.guardianPhone ? 'text-emerald-600 border-emerald-100 hover:bg-emerald-50' : 'text-slate-400 border-slate-200 hover:bg-slate-50'}`}
+                                >
+                                  {t('roster.guardian')}
+                                </button>
+                                <button onClick={() => togglePupilActive(p)} className={`text-[10px] font-black uppercase px-3 py-1 rounded-full bg-white border ${p.active ? 'text-rose-500 border-rose-100 hover:bg-rose-50' : 'text-emerald-600 border-emerald-100 hover:bg-emerald-50'}`}>
+                                  {p.active ? t('common.deactivate') : t('common.activate')}
+                                </button>
+                              </>
+                            )}
+                          </div>
+                          {guardianPupilId === p.id && (
+                            <div className="flex flex-col md:flex-row gap-2 bg-slate-50 p-3 rounded-2xl">
+                              <input
+                                autoFocus
+                                value={guardianName}
+                                onChange={(e) => setGuardianName(e.target.value)}
+                                placeholder={t('roster.guardianName')}
+                                className="flex-1 px-3 py-2 bg-white border-2 border-slate-100 rounded-xl text-sm font-bold text-slate-700 outline-none focus:border-indigo-500"
+                              />
+                              <input
+                                type="tel"
+                                value={guardianPhone}
+                                onChange={(e) => setGuardianPhone(e.target.value)}
+                                onKeyDown={(e) => { if (e.key === 'Enter') commitGuardian(); if (e.key === 'Escape') setGuardianPupilId(null); }}
+                                placeholder={t('roster.guardianPhone')}
+                                className="md:w-44 px-3 py-2 bg-white border-2 border-slate-100 rounded-xl text-sm font-bold text-slate-700 outline-none focus:border-indigo-500"
+                              />
+                              <div className="flex gap-2 items-center">
+                                <button onClick={commitGuardian} className="text-[10px] font-black uppercase text-white bg-indigo-600 px-3 py-1 rounded-full hover:bg-indigo-700">{t('common.save')}</button>
+                                <button onClick={() => setGuardianPupilId(null)} className="text-[10px] font-black uppercase text-slate-500 border border-slate-200 px-3 py-1 rounded-full bg-white hover:bg-slate-50">{t('common.cancel')}</button>
+                              </div>
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+
+      {section === 'teachers' && (
+        <>
+          <div className="bg-white p-8 rounded-3xl shadow-sm border border-slate-200 grid grid-cols-1 md:grid-cols-4 gap-6 items-end">
+            <div className="space-y-2 md:col-span-3">
+              <label className={labelClass}>{t('roster.newTeacher')}</label>
+              <input value={newTeacherName} onChange={(e) => setNewTeacherName(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleAddTeacher()} placeholder={t('roster.teacherPlaceholder')} className={inputClass} />
+            </div>
+            <button onClick={handleAddTeacher} className="px-6 py-4 bg-indigo-600 text-white rounded-2xl font-black shadow-lg hover:bg-indigo-700 transition-colors">{t('roster.addTeacher')}</button>
+          </div>
+
+          <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-200 space-y-2">
+            {visibleTeachers.map(x => (
+              <div key={x.id} className="flex items-center gap-3 border-b border-slate-50 pb-2">
+                {renderName(x.id, x.name, x.active)}
+                {editingId !== x.id && (
+                  <>
+                    <select value={x.role} onChange={(e) => changeRole(x, e.target.value as TeacherRole)} className="px-2 py-1 bg-slate-50 border border-slate-100 rounded-lg text-[10px] font-black text-slate-500 outline-none">
+                      {TEACHER_ROLES.map(r => <option key={r.value} value={r.value}>{i18n.roleLabel(r.value)}</option>)}
+                    </select>
+                    {x.pinTemporary && <span className="text-[10px] font-black uppercase text-slate-300 px-3 py-1">{t('roster.pinTemporary')}</span>}
+                    <button onClick={() => issueTemporaryPin(x)} className="text-[10px] font-black uppercase text-amber-600 border border-amber-100 px-3 py-1 rounded-full bg-white hover:bg-amber-50">
+                      {x.pinHash ? t('roster.resetPin') : t('roster.issuePin')}
+                    </button>
+                    <button onClick={() => startEditing(x.id, x.name)} className="text-[10px] font-black uppercase text-indigo-600 border border-indigo-100 px-3 py-1 rounded-full bg-white hover:bg-indigo-50">{t('common.edit')}</button>
+                    <button onClick={() => toggleTeacherActive(x)} className={`text-[10px] font-black uppercase px-3 py-1 rounded-full bg-white border ${x.active ? 'text-rose-500 border-rose-100 hover:bg-rose-50' : 'text-emerald-600 border-emerald-100 hover:bg-emerald-50'}`}>
+                      {x.active ? t('common.deactivate') : t('common.activate')}
+                    </button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RosterManager;
@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { PROGRAMME_NAME, SCHOOL_NAME } from '../constants';
+import { Language, Teacher } from '../types';
+import { canChooseOwnPin, clearLockout, hashPin, isSupervisor, loadLockout, needsSetup, PIN_PATTERN, saveLockout, verifyPin } from '../services/auth';
+import { I18n, LANGUAGES } from '../services/i18n';
+
+interface SignInScreenProps {
+  teachers: Teacher[];
+  lastTeacherId?: string;
+  onSignIn: (teacher: Teacher) => void;
+  onSetPin: (teacherId: string, pinHash: string) => void;
+  onLanguageChange: (language: Language) => void;
+  i18n: I18n;
+}
+
+const MAX_ATTEMPTS = 5;
+const LOCKOUT_MS = 30000;
+
+const inputClass = "w-full p-4 bg-slate-50 border-2 border-slate-100 rounded-2xl font-bold text-slate-700 outline-none focus:border-indigo-500 transition-colors";
+const labelClass = "text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]";
+
+const SignInScreen: React.FC<SignInScreenProps> = ({ teachers, lastTeacherId, onSignIn, onSetPin, onLanguageChange, i18n }) => {
+  const { t } = i18n;
+  const setup = needsSetup(teachers);
+  // During setup only supervisors are listed, so the first PIN set is a supervisor's
+  const activeTeachers = teachers.filter(x => x.active && (!setup || isSupervisor(x)));
+  const [teacherId, setTeacherId] = useState(activeTeachers.some(x => x.id === lastTeacherId) ? lastTeacherId! : '');
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [error, setError] = useState('');
+  // Set once a temporary PIN checks out; the teacher then chooses their own
+  const [changingPin, setChangingPin] = useState(false);
+
+  const teacher = activeTeachers.find(x => x.id === teacherId);
+  const isFirstSignIn = !!teacher && canChooseOwnPin(teacher, teachers);
+  const choosingPin = isFirstSignIn || changingPin;
+  const awaitingPin = !!teacher && !teacher.pinHash && !isFirstSignIn;
+
+  const selectTeacher = (id: string) => {
+    setTeacherId(id);
+    setPin('');
+    setConfirmPin('');
+    setError('');
+    setChangingPin(false);
+  };
+
+  const chooseNewPin = async (teacher: Teacher) => {
+    if (!PIN_PATTERN.test(pin)) {
+      setError(t('signIn.pinFormat'));
+      return;
+    }
+    if (pin !== confirmPin) {
+      setError(t('signIn.pinMismatch'));
+      return;
+    }
+    onSetPin(teacher.id, await hashPin(teacher.id, pin));
+    onSignIn(teacher);
+  };
+
+  const checkPin = async (teacher: Teacher) => {
+    const lockout = loadLockout(teacher.id);
+    if (Date.now() < lockout.lockedUntil) {
+      setError(t('signIn.lockedOut'));
+      return;
+    }
+    if (await verifyPin(teacher, pin)) {
+      clearLockout(teacher.id);
+      if (teacher.pinTemporary) {
+        setPin('');
+        setError('');
+        setChangingPin(true);
+        return;
+      }
+      onSignIn(teacher);
+      return;
+    }
+    const attempts = lockout.failedAttempts + 1;
+    setPin('');
+    if (attempts >= MAX_ATTEMPTS) {
+      saveLockout(teacher.id, { failedAttempts: 0, lockedUntil: Date.now() + LOCKOUT_MS });
+      setError(t('signIn.lockedOut'));
+    } else {
+      saveLockout(teacher.id, { failedAttempts: attempts, lockedUntil: 0 });
+      setError(t('signIn.wrongPin', { remaining: MAX_ATTEMPTS - attempts }));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!teacher) {
+      setError(t('signIn.needName'));
+      return;
+    }
+    if (awaitingPin) {
+      setError(t('signIn.awaitingPin'));
+      return;
+    }
+    try {
+      await (choosingPin ? chooseNewPin(teacher) : checkPin(teacher));
+    } catch (error) {
+      console.error("PIN check failed", error);
+      setError(t('signIn.cryptoUnavailable'));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center p-6">
+      <form onSubmit={handleSubmit} className="bg-white w-full max-w-md rounded-[2.5rem] shadow-2xl border border-slate-200 p-10 space-y-6 animate-in fade-in duration-500">
+        <div className="flex justify-end -mb-4">
+          <div className="flex rounded-full bg-slate-100 p-0.5">
+            {LANGUAGES.map(l => (
+              <button
+                key={l.value}
+                type="button"
+                onClick={() => onLanguageChange(l.value)}
+                className={`px-2 py-0.5 rounded-full text-[10px] font-black ${i18n.language === l.value ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-600'}`}
+              >
+                {l.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="text-center">
+          <h1 className="text-2xl font-black text-indigo-900 tracking-tight">{SCHOOL_NAME}</h1>
+          <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mt-1">{PROGRAMME_NAME}</p>
+        </div>
+
+        <div className="space-y-2">
+          <label className={labelClass}>{t('signIn.teacherName')}</label>
+          <select value={teacherId} onChange={(e) => selectTeacher(e.target.value)} className={inputClass}>
+            <option value="">{t('signIn.chooseName')}</option>
+            {activeTeachers.map(x => (
+              <option key={x.id} value={x.id}>
+                {x.name}{x.role !== 'guru' ? ` (${i18n.roleLabel(x.role)})` : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {setup && (
+          <p className="text-xs font-bold text-amber-800 bg-amber-50 px-4 py-3 rounded-2xl">{t('signIn.setup')}</p>
+        )}
+
+        {awaitingPin && (
+          <p className="text-xs font-bold text-amber-800 bg-amber-50 px-4 py-3 rounded-2xl">{t('signIn.awaitingPin')}</p>
+        )}
+
+        {teacher && !awaitingPin && (
+          <>
+            {isFirstSignIn && (
+              <p className="text-xs font-bold text-indigo-700 bg-indigo-50 px-4 py-3 rounded-2xl">{t('signIn.firstTime')}</p>
+            )}
+            {changingPin && (
+              <p className="text-xs font-bold text-indigo-700 bg-indigo-50 px-4 py-3 rounded-2xl">{t('signIn.replaceTemporary')}</p>
+            )}
+            <div className="space-y-2">
+              <label className={labelClass}>{choosingPin ? t('signIn.newPin') : teacher.pinTemporary ? t('signIn.temporaryPin') : t('signIn.pin')}</label>
+              <input
+                key={changingPin ? 'new' : 'current'}
+                type="password"
+                inputMode="numeric"
+                autoComplete={choosingPin ? 'new-password' : 'current-password'}
+                autoFocus
+                maxLength={6}
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                className={`${inputClass} tracking-[0.5em] text-center text-xl`}
+              />
+            </div>
+            {choosingPin && (
+              <div className="space-y-2">
+                <label className={labelClass}>{t('signIn.confirmPin')}</label>
+                <input
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="new-password"
+                  maxLength={6}
+                  value={confirmPin}
+                  onChange={(e) => setConfirmPin(e.target.value.replace(/\D/g, ''))}
+                  className={`${inputClass} tracking-[0.5em] text-center text-xl`}
+                />
+              </div>
+            )}
+          </>
+        )}
+
+        {error && <p className="text-xs font-black text-rose-600">{error}</p>}
+
+        <button type="submit" className="w-full px-6 py-4 bg-indigo-600 text-white rounded-2xl font-black shadow-lg hover:bg-indigo-700 transition-colors">
+          {choosingPin ? t('signIn.createAndSignIn') : t('signIn.signIn')}
+        </button>
+        <p className="text-[10px] font-bold text-slate-400 text-center">{t('signIn.forgotPin')}</p>
+      </form>
+    </div>
+  );
+};
+
+export default SignInScreen;
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { SavedReport } from '../types';
+import { PullPreview } from '../services/sync';
+import { I18n, LONG_DATE } from '../services/i18n';
+
+interface SyncPullModalProps {
+  preview: PullPreview;
+  onConfirm: (useRemote: Set<string>) => void;
+  onCancel: () => void;
+  i18n: I18n;
+}
+
+const VersionSummary = ({ title, report, selected, onSelect, i18n: { t, formatDateTime } }: { title: string; report: SavedReport; selected: boolean; onSelect: () => void; i18n: I18n }) => (
+  <button
+    onClick={onSelect}
+    className={`text-left p-4 rounded-2xl border-2 transition-colors ${selected ? 'border-indigo-500 bg-indigo-50 text-indigo-900' : 'border-slate-100 bg-slate-50 text-slate-600 hover:border-indigo-200'}`}
+  >
+    <p className="text-[10px] font-black uppercase tracking-widest mb-1 opacity-70">{title}</p>
+    <p className="text-xs font-black">{t('common.presentOf', { present: report.totalPresent, total: report.expectedPupilIds?.length ?? '-' })}</p>
+    <p className="text-[10px] font-bold mt-1 opacity-70">{report.updatedAt ? t('pull.changedAt', { time: formatDateTime(report.updatedAt) }) : t('pull.neverEdited')}</p>
+    {report.auditTrail && report.auditTrail.length > 0 && (
+      <p className="text-[10px] font-bold opacity-70">{t('pull.lastEditBy', { name: report.auditTrail[report.auditTrail.length - 1].by || t('common.unknownTeacher') })}</p>
+    )}
+  </button>
+);
+
+const SyncPullModal: React.FC<SyncPullModalProps> = ({ preview, onConfirm, onCancel, i18n }) => {
+  const { t } = i18n;
+  // Conflicts keep the local copy unless the sheet's is picked
+  const [useRemote, setUseRemote] = useState<Set<string>>(new Set());
+
+  const choose = (id: string, remote: boolean) =>
+    setUseRemote(prev => {
+      const next = new Set(prev);
+      if (remote) next.add(id); else next.delete(id);
+      return next;
+    });
+
+  const changes = preview.added.length + preview.updated.length + preview.conflicts.length + preview.removed.length;
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-slate-900/40 backdrop-blur-sm flex items-start justify-center overflow-y-auto p-6" onClick={onCancel}>
+      <div className="bg-white w-full max-w-2xl rounded-[2.5rem] shadow-2xl border border-slate-200 p-10 space-y-6 animate-in slide-in-from-bottom-6 duration-300" onClick={(e) => e.stopPropagation()}>
+        <div>
+          <h2 className="text-xl font-black text-slate-800">{t('pull.title')}</h2>
+          <p className="text-sm font-bold text-slate-400">{t('pull.subtitle')}</p>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="bg-emerald-50 p-5 rounded-2xl">
+            <p className="text-[9px] font-black text-emerald-500 uppercase tracking-wider mb-1">{t('pull.added')}</p>
+            <p className="text-3xl font-black text-emerald-700">{preview.added.length}</p>
+          </div>
+          <div className="bg-indigo-50 p-5 rounded-2xl">
+            <p className="text-[9px] font-black text-indigo-400 uppercase tracking-wider mb-1">{t('pull.updated')}</p>
+            <p className="text-3xl font-black text-indigo-700">{preview.updated.length}</p>
+          </div>
+          <div className="bg-slate-50 p-5 rounded-2xl">
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-wider mb-1">{t('pull.unchanged')}</p>
+            <p className="text-3xl font-black text-slate-600">{preview.unchanged}</p>
+          </div>
+          <div className="bg-amber-50 p-5 rounded-2xl">
+            <p className="text-[9px] font-black text-amber-500 uppercase tracking-wider mb-1">{t('pull.conflicts')}</p>
+            <p className="text-3xl font-black text-amber-700">{preview.conflicts.length}</p>
+          </div>
+        </div>
+
+        {preview.removed.length > 0 && (
+          <p className="text-xs font-bold text-amber-800 bg-amber-50 px-4 py-3 rounded-2xl">{t('pull.removed', { count: preview.removed.length })}</p>
+        )}
+
+        {preview.unknownPupilIds.length > 0 && (
+          <p className="text-xs font-bold text-rose-600 bg-rose-50 px-4 py-3 rounded-2xl">{t('pull.unknownPupils', { count: preview.unknownPupilIds.length })}</p>
+        )}
+
+        {preview.conflicts.length > 0 && (
+          <div className="space-y-3">
+            <div>
+              <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('pull.resolve')}</h3>
+              <p className="text-xs font-bold text-slate-500">{t('pull.resolveHint')}</p>
+            </div>
+            <div className="max-h-80 overflow-y-auto space-y-3">
+              {preview.conflicts.map(({ local, remote }) => (
+                <div key={local.id} className="space-y-2 border border-amber-100 rounded-2xl p-4">
+                  <p className="text-sm font-black text-slate-800">{local.subject} • {i18n.formatDate(local.date, LONG_DATE)} • {local.timeslot}</p>
+                  <p className="text-[10px] font-bold text-slate-400">{local.teacherName}</p>
+                  <div className="grid grid-cols-2 gap-3">
+                    <VersionSummary title={t('pull.keepLocal')} report={local} selected={!useRemote.has(local.id)} onSelect={() => choose(local.id, false)} i18n={i18n} />
+                    <VersionSummary title={t('pull.useRemote')} report={remote} selected={useRemote.has(local.id)} onSelect={() => choose(local.id, true)} i18n={i18n} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          <button onClick={() => onConfirm(useRemote)} disabled={changes === 0} className="flex-1 px-6 py-3 bg-indigo-600 text-white rounded-2xl font-black shadow-lg hover:bg-indigo-700 transition-colors disabled:opacity-50">
+            {t('pull.confirm')}
+          </button>
+          <button onClick={onCancel} className="flex-1 px-6 py-3 bg-slate-100 text-slate-600 rounded-2xl font-black hover:bg-slate-200 transition-colors">{t('common.cancel')}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyncPullModal;
@@ -0,0 +1,224 @@
+import React, { useState } from 'react';
+import { Catalogue, MissingSession, NotificationType, Teacher, TimetableSlot } from '../types';
+import { WEEKDAY_ORDER, YEARS } from '../constants';
+import { createRosterId } from '../services/roster';
+import { byTimeslotOrder, findTimetableClash, weekdayOf } from '../services/timetable';
+import { todayIso } from '../services/dates';
+import { I18n, LONG_DATE } from '../services/i18n';
+
+interface TimetableManagerProps {
+  timetable: TimetableSlot[];
+  catalogue: Catalogue;
+  teachers: Teacher[];
+  missingSessions: MissingSession[];
+  lookbackDays: number;
+  onChange: (timetable: TimetableSlot[]) => void;
+  onLookbackChange: (days: number) => void;
+  onRecordMissing: (session: MissingSession) => void;
+  canEdit: boolean; // Only Penolong Kanan and Guru Besar change the timetable
+  notify: (message: string, type?: NotificationType) => void;
+  i18n: I18n;
+}
+
+const inputClass = "w-full p-4 bg-slate-50 border-2 border-slate-100 rounded-2xl font-bold text-slate-700 outline-none focus:border-indigo-500 transition-colors";
+const labelClass = "text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]";
+
+const TimetableManager: React.FC<TimetableManagerProps> = ({
+  timetable,
+  catalogue,
+  teachers,
+  missingSessions,
+  lookbackDays,
+  onChange,
+  onLookbackChange,
+  onRecordMissing,
+  canEdit,
+  notify,
+  i18n
+}) => {
+  const { t, weekdayName } = i18n;
+  const [weekday, setWeekday] = useState<number>(() => {
+    const today = weekdayOf(todayIso());
+    return today === 0 ? 1 : today;
+  });
+  const [timeslotId, setTimeslotId] = useState('');
+  const [subjectId, setSubjectId] = useState('');
+  const [teacherId, setTeacherId] = useState('');
+  const [targetYears, setTargetYears] = useState<number[]>(YEARS);
+
+  const subjectName = (id: string) => catalogue.subjects.find(s => s.id === id)?.name || id;
+  const timeslotLabel = (id: string) => catalogue.timeslots.find(s => s.id === id)?.label || id;
+  const teacherName = (id: string) => teachers.find(x => x.id === id)?.name || t('common.unknownTeacher');
+
+  const toggleYear = (year: number) =>
+    setTargetYears(prev => prev.includes(year) ? prev.filter(y => y !== year) : [...prev, year].sort());
+
+  const handleAdd = () => {
+    if (!timeslotId || !subjectId || !teacherId) {
+      notify(t('timetable.needSlot'), "error");
+      return;
+    }
+    if (targetYears.length === 0) {
+      notify(t('timetable.needYear'), "error");
+      return;
+    }
+    const slot = { weekday, timeslotId, subjectId, teacherId, targetYears, startDate: todayIso() };
+    const clash = findTimetableClash(timetable, slot);
+    if (clash) {
+      notify(t('timetable.clash', { subject: subjectName(subjectId), day: weekdayName(weekday), timeslot: timeslotLabel(timeslotId), teacher: teacherName(clash.teacherId) }), "error");
+      return;
+    }
+    onChange([...timetable, { id: createRosterId('j'), ...slot }]);
+    notify(t('timetable.added', { subject: subjectName(subjectId), day: weekdayName(weekday) }), "success");
+  };
+
+  // Reassigning a teacher keeps the slot, so sessions already missed still count
+  const reassignTeacher = (slot: TimetableSlot, id: string) => {
+    onChange(timetable.map(s => s.id === slot.id ? { ...s, teacherId: id } : s));
+    notify(t('timetable.reassigned', { subject: subjectName(slot.subjectId), day: weekdayName(slot.weekday) }), "info");
+  };
+
+  const removeSlot = (slot: TimetableSlot) => {
+    if (!window.confirm(t('timetable.confirmRemove', { subject: subjectName(slot.subjectId), day: weekdayName(slot.weekday) }))) return;
+    onChange(timetable.filter(s => s.id !== slot.id));
+    notify(t('timetable.removed'), "info");
+  };
+
+  const days = WEEKDAY_ORDER
+    .map(day => ({
+      day,
+      slots: timetable.filter(s => s.weekday === day).sort(byTimeslotOrder(catalogue.timeslots))
+    }))
+    .filter(d => d.slots.length > 0);
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      <div>
+        <h2 className="text-2xl font-black text-slate-800">{t('timetable.title')}</h2>
+        <p className="text-slate-500 text-sm font-medium">{t('timetable.subtitle')}</p>
+      </div>
+
+      <div className="bg-white p-8 rounded-3xl shadow-sm border border-slate-200 space-y-4">
+        <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+          <div>
+            <h3 className="font-black text-slate-800">{t('timetable.missingTitle')}</h3>
+            <p className="text-xs font-bold text-slate-500">{t('timetable.missingHint')}</p>
+          </div>
+          <label className="flex items-center gap-2 text-xs font-bold text-slate-500">
+            {t('timetable.lookbackBefore')}
+            <input
+              type="number"
+              min={1}
+              max={90}
+              value={lookbackDays}
+              onChange={(e) => onLookbackChange(Math.min(90, Math.max(1, Number(e.target.value) || 1)))}
+              className="w-16 px-2 py-1 bg-slate-50 border-2 border-slate-100 rounded-xl font-black text-slate-700 text-center outline-none focus:border-indigo-500"
+            />
+            {t('timetable.lookbackAfter')}
+          </label>
+        </div>
+        {missingSessions.length === 0 ? (
+          <p className="text-xs font-bold text-emerald-600">{t('timetable.allRecorded')}</p>
+        ) : (
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {missingSessions.map(m => (
+              <div key={`${m.date}-${m.slot.id}`} className="flex items-center justify-between gap-4 bg-rose-50 border border-rose-100 px-4 py-3 rounded-2xl">
+                <div>
+                  <p className="text-sm font-black text-rose-900">{subjectName(m.slot.subjectId)} • {timeslotLabel(m.slot.timeslotId)}</p>
+                  <p className="text-[10px] font-bold text-rose-600">
+                    {weekdayName(m.slot.weekday)}, {i18n.formatDate(m.date, LONG_DATE)} • {teacherName(m.slot.teacherId)}
+                  </p>
+                </div>
+                <button onClick={() => onRecordMissing(m)} className="text-[10px] font-black uppercase text-white bg-rose-500 px-3 py-1 rounded-full hover:bg-rose-600 whitespace-nowrap">{t('timetable.recordNow')}</button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {canEdit && (
+        <div className="bg-white p-8 rounded-3xl shadow-sm border border-slate-200 grid grid-cols-1 md:grid-cols-4 gap-6">
+          <div className="space-y-2">
+            <label className={labelClass}>{t('timetable.day')}</label>
+            <select value={weekday} onChange={(e) => setWeekday(Number(e.target.value))} className={inputClass}>
+              {WEEKDAY_ORDER.map(day => <option key={day} value={day}>{weekdayName(day)}</option>)}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>{t('common.timeslot')}</label>
+            <select value={timeslotId} onChange={(e) => setTimeslotId(e.target.value)} className={inputClass}>
+              <option value="">{t('timetable.chooseTimeslot')}</option>
+              {catalogue.timeslots.filter(s => s.active).map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>{t('common.subject')}</label>
+            <select value={subjectId} onChange={(e) => setSubjectId(e.target.value)} className={inputClass}>
+              <option value="">{t('timetable.chooseSubject')}</option>
+              {catalogue.subjects.filter(s => s.active).map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>{t('common.teacher')}</label>
+            <select value={teacherId} onChange={(e) => setTeacherId(e.target.value)} className={inputClass}>
+              <option value="">{t('timetable.chooseTeacher')}</option>
+              {teachers.filter(x => x.active).map(x => <option key={x.id} value={x.id}>{x.name}</option>)}
+            </select>
+          </div>
+          <div className="space-y-3 md:col-span-3">
+            <label className={labelClass}>{t('timetable.targetYears')}</label>
+            <div className="flex flex-wrap gap-2">
+              {YEARS.map(year => (
+                <button
+                  key={year}
+                  onClick={() => toggleYear(year)}
+                  className={`px-4 py-2 rounded-full text-xs font-black border-2 transition-all ${targetYears.includes(year) ? 'bg-indigo-600 border-indigo-600 text-white shadow' : 'bg-white border-slate-100 text-slate-400 hover:border-slate-200'}`}
+                >
+                  {t('common.year', { year })}
+                </button>
+              ))}
+            </div>
+          </div>
+          <button onClick={handleAdd} className="self-end px-6 py-4 bg-indigo-600 text-white rounded-2xl font-black shadow-lg hover:bg-indigo-700 transition-colors">{t('timetable.add')}</button>
+        </div>
+      )}
+
+      {days.length === 0 ? (
+        <p className="text-xs font-bold text-slate-300 italic">{t('timetable.empty')}</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {days.map(({ day, slots }) => (
+            <div key={day} className="bg-white p-6 rounded-3xl shadow-sm border border-slate-200 space-y-3">
+              <h3 className="font-black text-indigo-900">{weekdayName(day)}</h3>
+              {slots.map(slot => (
+                <div key={slot.id} className="border-b border-slate-50 pb-3 space-y-2">
+                  <div className="flex items-start justify-between gap-3">
+                    <div>
+                      <p className="text-sm font-black text-slate-700">{subjectName(slot.subjectId)}</p>
+                      <p className="text-[10px] font-bold text-slate-400">{timeslotLabel(slot.timeslotId)} • {t('common.year', { year: slot.targetYears.join(', ') })}</p>
+                    </div>
+                    {canEdit && <button onClick={() => removeSlot(slot)} className="text-[10px] font-black uppercase text-rose-500 border border-rose-100 px-3 py-1 rounded-full bg-white hover:bg-rose-50">{t('common.remove')}</button>}
+                  </div>
+                  {canEdit ? (
+                    <select
+                      value={slot.teacherId}
+                      onChange={(e) => reassignTeacher(slot, e.target.value)}
+                      className="w-full px-3 py-2 bg-slate-50 border-2 border-slate-100 rounded-xl text-xs font-bold text-slate-600 outline-none focus:border-indigo-500"
+                    >
+                      {teachers.filter(x => x.active || x.id === slot.teacherId).map(x => <option key={x.id} value={x.id}>{x.name}</option>)}
+                      {!teachers.some(x => x.id === slot.teacherId) && <option value={slot.teacherId}>{t('common.unknownTeacher')}</option>}
+                    </select>
+                  ) : (
+                    <p className="text-xs font-bold text-slate-600">{teacherName(slot.teacherId)}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimetableManager;
@@ -0,0 +1,247 @@
+import React, { useMemo, useState } from 'react';
+import { NotificationType, Pupil, SavedReport, Subject, Term, TrendGranularity, TrendGrouping } from '../types';
+import { DECLINE_THRESHOLD } from '../constants';
+import { buildTrends, compareTerms } from '../services/trends';
+import { addDays, formatDate, todayIso } from '../services/dates';
+import { createRosterId } from '../services/roster';
+import { I18n } from '../services/i18n';
+import { MessageKey } from '../services/messages';
+import TrendChart from './TrendChart';
+
+interface TrendAnalysisProps {
+  reports: SavedReport[];
+  pupils: Pupil[];
+  subjects: Subject[];
+  excludeExcused: boolean;
+  terms: Term[];
+  onTermsChange: (terms: Term[]) => void;
+  canEditTerms: boolean; // Penggal dates are set by Penolong Kanan and Guru Besar
+  notify: (message: string, type?: NotificationType) => void;
+  i18n: I18n;
+}
+
+type RangePreset = '3m' | '6m' | 'year' | 'all';
+
+const RANGE_PRESETS: { value: RangePreset; label: MessageKey }[] = [
+  { value: '3m', label: 'trends.preset3m' },
+  { value: '6m', label: 'trends.preset6m' },
+  { value: 'year', label: 'trends.presetYear' },
+  { value: 'all', label: 'trends.presetAll' }
+];
+
+const inputClass = "w-full p-4 bg-slate-50 border-2 border-slate-100 rounded-2xl font-bold text-slate-700 outline-none focus:border-indigo-500 transition-colors";
+const labelClass = "text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]";
+const toggleClass = (active: boolean) =>
+  `px-4 py-2 rounded-full text-xs font-black border-2 transition-all ${active ? 'bg-indigo-600 border-indigo-600 text-white shadow' : 'bg-white border-slate-100 text-slate-400 hover:border-slate-200'}`;
+
+const monthsBack = (months: number) => {
+  const d = new Date();
+  d.setMonth(d.getMonth() - months);
+  return addDays(formatDate(d), 1);
+};
+
+const TrendAnalysis: React.FC<TrendAnalysisProps> = ({ reports, pupils, subjects, excludeExcused, terms, onTermsChange, canEditTerms, notify, i18n }) => {
+  const { t } = i18n;
+  const [from, setFrom] = useState(() => monthsBack(6));
+  const [to, setTo] = useState(todayIso);
+  const [granularity, setGranularity] = useState<TrendGranularity>('month');
+  const [grouping, setGrouping] = useState<TrendGrouping>('subject');
+  const [isEditingTerms, setIsEditingTerms] = useState(false);
+
+  const applyPreset = (preset: RangePreset) => {
+    const today = todayIso();
+    setTo(today);
+    if (preset === '3m') setFrom(monthsBack(3));
+    else if (preset === '6m') setFrom(monthsBack(6));
+    else if (preset === 'year') setFrom(`${today.slice(0, 4)}-01-01`);
+    else setFrom(reports.reduce((earliest, r) => r.date < earliest ? r.date : earliest, today));
+  };
+
+  const series = useMemo(
+    () => from <= to ? buildTrends(reports, pupils, subjects, { from, to, granularity, grouping }, i18n, excludeExcused) : [],
+    [reports, pupils, subjects, from, to, granularity, grouping, i18n, excludeExcused]
+  );
+  const declining = series.filter(s => s.declining);
+
+  const termComparison = useMemo(
+    () => compareTerms(reports, pupils, subjects, terms, excludeExcused),
+    [reports, pupils, subjects, terms, excludeExcused]
+  );
+  // Rows only for subjects and Tahun recorded in at least one term
+  const termSubjects = termComparison[0]?.bySubject.filter(s => termComparison.some(t => t.bySubject.find(x => x.subjectId === s.subjectId)!.sessionCount > 0)) || [];
+  const termYears = termComparison[0]?.byYear.filter(y => termComparison.some(t => t.byYear.find(x => x.year === y.year)!.sessionCount > 0)) || [];
+
+  const deltaOf = (current: number, previous: { sessionCount: number; percentage: number } | undefined, sessionCount: number) => {
+    if (!previous || previous.sessionCount === 0 || sessionCount === 0) return null;
+    const delta = current - previous.percentage;
+    return (
+      <span className={`ml-1 text-[9px] font-black ${delta <= -DECLINE_THRESHOLD ? 'text-rose-600' : delta > 0 ? 'text-emerald-600' : 'text-slate-400'}`}>
+        {delta > 0 ? '+' : ''}{delta}
+      </span>
+    );
+  };
+
+  const updateTerm = (id: string, patch: Partial<Term>) =>
+    onTermsChange(terms.map(t => t.id === id ? { ...t, ...patch } : t));
+
+  const addTerm = () => {
+    const last = [...terms].sort((a, b) => b.end.localeCompare(a.end))[0];
+    const start = last ? addDays(last.end, 1) : todayIso();
+    onTermsChange([...terms, { id: createRosterId('g'), name: t('terms.newName', { number: terms.length + 1 }), start, end: addDays(start, 150) }]);
+  };
+
+  const removeTerm = (term: Term) => {
+    if (!window.confirm(t('terms.confirmRemove', { name: term.name }))) return;
+    onTermsChange(terms.filter(t => t.id !== term.id));
+  };
+
+  const finishEditingTerms = () => {
+    if (terms.some(t => !t.name.trim() || !t.start || !t.end || t.start > t.end)) {
+      notify(t('terms.invalid'), "error");
+      return;
+    }
+    setIsEditingTerms(false);
+    notify(t('terms.saved'), "success");
+  };
+
+  return (
+    <div className="space-y-10">
+      {/* Trend Lines */}
+      <div className="bg-white p-8 rounded-3xl shadow-sm border border-slate-200 space-y-6">
+        <div>
+          <h3 className="text-xl font-black text-slate-800">{t('trends.title')}</h3>
+          <p className="text-slate-500 text-xs font-bold">{t(granularity === 'week' ? 'trends.hintWeekly' : 'trends.hintMonthly', { threshold: DECLINE_THRESHOLD })}</p>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6 items-end">
+          <div className="space-y-2">
+            <label className={labelClass}>{t('trends.from')}</label>
+            <input type="date" value={from} max={to} onChange={(e) => e.target.value && setFrom(e.target.value)} className={inputClass} />
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>{t('trends.to')}</label>
+            <input type="date" value={to} min={from} onChange={(e) => e.target.value && setTo(e.target.value)} className={inputClass} />
+          </div>
+          <div className="flex flex-wrap gap-2 md:col-span-2">
+            {RANGE_PRESETS.map(p => (
+              <button key={p.value} onClick={() => applyPreset(p.value)} className="text-[10px] font-black uppercase text-indigo-600 border border-indigo-100 px-3 py-1 rounded-full bg-white hover:bg-indigo-50">{t(p.label)}</button>
+            ))}
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-6">
+          <div className="flex gap-2">
+            <button onClick={() => setGranularity('week')} className={toggleClass(granularity === 'week')}>{t('trends.weekly')}</button>
+            <button onClick={() => setGranularity('month')} className={toggleClass(granularity === 'month')}>{t('trends.monthly')}</button>
+          </div>
+          <div className="flex gap-2">
+            <button onClick={() => setGrouping('subject')} className={toggleClass(grouping === 'subject')}>{t('trends.bySubject')}</button>
+            <button onClick={() => setGrouping('year')} className={toggleClass(grouping === 'year')}>{t('trends.byYear')}</button>
+          </div>
+        </div>
+
+        {declining.length > 0 && (
+          <div className="bg-rose-50 border border-rose-200 px-5 py-4 rounded-2xl">
+            <p className="text-sm font-black text-rose-900">{t('trends.declining', { series: declining.map(s => `${s.label} (${s.change})`).join(', ') })}</p>
+            <p className="text-[10px] font-bold text-rose-600 mt-1">{t('trends.decliningHint')}</p>
+          </div>
+        )}
+
+        <div className="bg-slate-50/50 p-6 rounded-[2rem] border border-slate-100">
+          <TrendChart series={series} i18n={i18n} />
+        </div>
+      </div>
+
+      {/* Term Comparison */}
+      <div className="bg-white p-8 rounded-3xl shadow-sm border border-slate-200 space-y-6">
+        <div className="flex flex-col md:flex-row justify-between md:items-end gap-4">
+          <div>
+            <h3 className="text-xl font-black text-slate-800">{t('terms.title')}</h3>
+            <p className="text-slate-500 text-xs font-bold">{t('terms.hint')}</p>
+          </div>
+          {canEditTerms && (
+            <button
+              onClick={() => isEditingTerms ? finishEditingTerms() : setIsEditingTerms(true)}
+              className="text-[10px] font-black uppercase text-indigo-600 border border-indigo-100 px-3 py-1 rounded-full bg-white hover:bg-indigo-50"
+            >
+              {isEditingTerms ? t('terms.done') : t('terms.edit')}
+            </button>
+          )}
+        </div>
+
+        {isEditingTerms && (
+          <div className="space-y-3 bg-slate-50 p-4 rounded-2xl">
+            {terms.map(term => (
+              <div key={term.id} className="grid grid-cols-1 md:grid-cols-[2fr_1fr_1fr_auto] gap-3 items-center">
+                <input value={term.name} onChange={(e) => updateTerm(term.id, { name: e.target.value })} className={inputClass} placeholder={t('terms.namePlaceholder')} />
+                <input type="date" value={term.start} onChange={(e) => updateTerm(term.id, { start: e.target.value })} className={inputClass} />
+                <input type="date" value={term.end} onChange={(e) => updateTerm(term.id, { end: e.target.value })} className={inputClass} />
+                <button onClick={() => removeTerm(term)} className="text-[10px] font-black uppercase text-rose-500 border border-rose-100 px-3 py-1 rounded-full bg-white hover:bg-rose-50">{t('common.remove')}</button>
+              </div>
+            ))}
+            <button onClick={addTerm} className="text-[10px] font-black uppercase text-indigo-600 border border-indigo-100 px-3 py-1 rounded-full bg-white hover:bg-indigo-50">{t('terms.add')}</button>
+          </div>
+        )}
+
+        {termComparison.length === 0 ? (
+          <p className="text-xs font-bold text-slate-300 italic">{t('terms.none')}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-xs">
+              <thead>
+                <tr className="border-b-2 border-slate-100">
+                  <th className="py-3 pr-4 text-[10px] font-black text-slate-400 uppercase tracking-widest"></th>
+                  {termComparison.map(t => (
+                    <th key={t.term.id} className="py-3 px-4 text-[10px] font-black text-slate-400 uppercase tracking-widest whitespace-nowrap">
+                      {t.term.name}
+                      <span className="block text-[9px] text-slate-300 normal-case tracking-normal">{t.term.start} – {t.term.end}</span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                <tr className="border-b border-slate-100 bg-indigo-50/40">
+                  <td className="py-3 pr-4 font-black text-indigo-900">{t('trends.overall')}</td>
+                  {termComparison.map((t, i) => (
+                    <td key={t.term.id} className="py-3 px-4 font-black text-indigo-700">
+                      {t.sessionCount > 0 ? `${t.percentage}%` : '-'}
+                      {deltaOf(t.percentage, termComparison[i - 1], t.sessionCount)}
+                    </td>
+                  ))}
+                </tr>
+                {termSubjects.map(s => (
+                  <tr key={s.subjectId} className="border-b border-slate-50">
+                    <td className="py-2 pr-4 font-bold text-slate-600">{s.subject}</td>
+                    {termComparison.map((t, i) => {
+                      const stat = t.bySubject.find(x => x.subjectId === s.subjectId)!;
+                      return (
+                        <td key={t.term.id} className="py-2 px-4 font-bold text-slate-700">
+                          {stat.sessionCount > 0 ? `${stat.percentage}%` : '-'}
+                          {deltaOf(stat.percentage, termComparison[i - 1]?.bySubject.find(x => x.subjectId === s.subjectId), stat.sessionCount)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+                {termYears.map(y => (
+                  <tr key={y.year} className="border-b border-slate-50">
+                    <td className="py-2 pr-4 font-bold text-slate-600">{t('common.year', { year: y.year })}</td>
+                    {termComparison.map((t, i) => {
+                      const stat = t.byYear.find(x => x.year === y.year)!;
+                      return (
+                        <td key={t.term.id} className="py-2 px-4 font-bold text-slate-700">
+                          {stat.sessionCount > 0 ? `${stat.percentage}%` : '-'}
+                          {deltaOf(stat.percentage, termComparison[i - 1]?.byYear.find(x => x.year === y.year), stat.sessionCount)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrendAnalysis;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { TrendSeries } from '../types';
+import { I18n } from '../services/i18n';
+
+interface TrendChartProps {
+  series: TrendSeries[];
+  i18n: I18n;
+}
+
+const WIDTH = 720;
+const HEIGHT = 260;
+const PAD = { top: 16, right: 16, bottom: 36, left: 40 };
+const COLOURS = ['#4f46e5', '#059669', '#d97706', '#0891b2', '#7c3aed', '#db2777', '#65a30d', '#0f766e'];
+const DECLINING = '#e11d48';
+const OVERALL = '#334155';
+
+const colourOf = (s: TrendSeries, index: number) =>
+  s.declining ? DECLINING : s.id === 'keseluruhan' ? OVERALL : COLOURS[index % COLOURS.length];
+
+// Splits a line at periods without sessions so a gap is drawn instead of a false zero
+const segmentsOf = (s: TrendSeries, x: (i: number) => number, y: (pct: number) => number) => {
+  const segments: string[] = [];
+  let current: string[] = [];
+  s.points.forEach((p, i) => {
+    if (p.sessionCount > 0) {
+      current.push(`${x(i)},${y(p.percentage)}`);
+    } else if (current.length > 0) {
+      segments.push(current.join(' '));
+      current = [];
+    }
+  });
+  if (current.length > 0) segments.push(current.join(' '));
+  return segments;
+};
+
+const TrendChart: React.FC<TrendChartProps> = ({ series, i18n }) => {
+  const periods = series[0]?.points || [];
+  if (periods.length === 0 || series.every(s => s.points.every(p => p.sessionCount === 0))) {
+    return <p className="text-xs font-bold text-slate-300 italic py-16 text-center">{i18n.t('trends.noData')}</p>;
+  }
+
+  const innerWidth = WIDTH - PAD.left - PAD.right;
+  const innerHeight = HEIGHT - PAD.top - PAD.bottom;
+  const x = (i: number) => PAD.left + (periods.length === 1 ? innerWidth / 2 : (i * innerWidth) / (periods.length - 1));
+  const y = (pct: number) => PAD.top + innerHeight - (pct / 100) * innerHeight;
+  const labelEvery = Math.ceil(periods.length / 12);
+
+  return (
+    <div className="space-y-4">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+        {[0, 25, 50, 75, 100].map(pct => (
+          <g key={pct}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(pct)} y2={y(pct)} stroke="#e2e8f0" strokeWidth={1} />
+            <text x={PAD.left - 8} y={y(pct) + 3} textAnchor="end" fontSize={10} fontWeight={900} fill="#cbd5e1">{pct}%</text>
+          </g>
+        ))}
+        {periods.map((p, i) => i % labelEvery === 0 && (
+          <text key={p.period} x={x(i)} y={HEIGHT - 12} textAnchor="middle" fontSize={10} fontWeight={900} fill="#94a3b8">{p.label}</text>
+        ))}
+        {series.map((s, index) => (
+          <g key={s.id}>
+            {segmentsOf(s, x, y).map((points, i) => (
+              <polyline
+                key={i}
+                points={points}
+                fill="none"
+                stroke={colourOf(s, index)}
+                strokeWidth={s.declining || s.id === 'keseluruhan' ? 3 : 2}
+                strokeDasharray={s.id === 'keseluruhan' ? '6 4' : undefined}
+                strokeLinejoin="round"
+              />
+            ))}
+            {s.points.map((p, i) => p.sessionCount > 0 && (
+              <circle key={p.period} cx={x(i)} cy={y(p.percentage)} r={3} fill={colourOf(s, index)}>
+                <title>{`${s.label} • ${p.label}: ${p.percentage}% (${p.totalPresent}/${p.totalPossible})`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+      <div className="flex flex-wrap gap-2">
+        {series.map((s, index) => (
+          <span
+            key={s.id}
+            className={`flex items-center gap-2 text-[10px] font-black uppercase px-3 py-1 rounded-full border ${s.declining ? 'bg-rose-50 border-rose-200 text-rose-700' : 'bg-white border-slate-100 text-slate-500'}`}
+          >
+            <span className="w-3 h-1 rounded-full" style={{ backgroundColor: colourOf(s, index) }} />
+            {s.label}
+            {s.change !== null && <span>{s.declining ? '↘' : s.change > 0 ? '↗' : '→'} {s.change > 0 ? '+' : ''}{s.change}</span>}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TrendChart;
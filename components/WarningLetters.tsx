@@ -0,0 +1,218 @@
+import React, { useState } from 'react';
+import { LetterStatus, NotificationType, Teacher, WarningLetter } from '../types';
+import { guardianMessage, messagesFile, WARNING_LEVELS, whatsAppLink } from '../services/letters';
+import { isSupervisor } from '../services/auth';
+import { downloadText } from '../services/download';
+import { todayIso } from '../services/dates';
+import { weekdayOf } from '../services/timetable';
+import { I18n, LONG_DATE } from '../services/i18n';
+
+interface WarningLettersProps {
+  statuses: LetterStatus[];
+  year: number;
+  thresholds: number[];
+  currentTeacher: Teacher;
+  onThresholdsChange: (thresholds: number[]) => void;
+  onIssue: (status: LetterStatus) => void;
+  onReprint: (letter: WarningLetter) => void;
+  onDelete: (letter: WarningLetter) => void;
+  isExporting: boolean;
+  notify: (message: string, type?: NotificationType) => void;
+  i18n: I18n;
+}
+
+const labelClass = "text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]";
+
+const levelClass = (level: number) =>
+  level >= 3 ? 'bg-rose-600 text-white' : level === 2 ? 'bg-rose-100 text-rose-700' : level === 1 ? 'bg-amber-100 text-amber-700' : 'bg-slate-100 text-slate-500';
+
+const WarningLetters: React.FC<WarningLettersProps> = ({
+  statuses,
+  year,
+  thresholds,
+  currentTeacher,
+  onThresholdsChange,
+  onIssue,
+  onReprint,
+  onDelete,
+  isExporting,
+  notify,
+  i18n
+}) => {
+  const { t, weekdayName } = i18n;
+  const supervisor = isSupervisor(currentTeacher);
+  const [dueOnly, setDueOnly] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  // Kept as typed until saved, like the assessment marks
+  const [draftThresholds, setDraftThresholds] = useState(() => thresholds.map(String));
+
+  const visible = statuses.filter(s => !dueOnly || s.dueLevel !== null);
+  const dueCount = statuses.filter(s => s.dueLevel !== null).length;
+
+  // Messages always list every absence so far this year and mention the latest letter sent
+  const messageOf = (status: LetterStatus) =>
+    guardianMessage(status.pupil, status.absences, year, currentTeacher.name, status.letters[status.letters.length - 1]);
+
+  const saveThresholds = () => {
+    const values = draftThresholds.map(Number);
+    if (values.some(v => !Number.isInteger(v) || v < 1) || values.some((v, index) => index > 0 && v <= values[index - 1])) {
+      notify(t('letters.thresholdsInvalid'), "error");
+      return;
+    }
+    onThresholdsChange(values);
+    notify(t('letters.thresholdsSaved'), "success");
+  };
+
+  const handleIssue = (status: LetterStatus) => {
+    if (status.dueLevel === null) return;
+    if (!status.pupil.guardianName && !window.confirm(t('letters.confirmNoGuardian', { name: status.pupil.name }))) return;
+    if (!window.confirm(t('letters.confirmIssue', { level: status.dueLevel, name: status.pupil.name }))) return;
+    onIssue(status);
+  };
+
+  const handleDelete = (letter: WarningLetter) => {
+    if (!window.confirm(t('letters.confirmDelete', { reference: letter.reference }))) return;
+    onDelete(letter);
+  };
+
+  const downloadMessages = (list: LetterStatus[]) => {
+    if (list.length === 0) return;
+    const file = messagesFile(list.map(s => ({ pupil: s.pupil, message: messageOf(s) })));
+    const suffix = list.length === 1 ? list[0].pupil.name.replace(/\s+/g, '_') : todayIso();
+    downloadText(file, `Mesej_Penjaga_${suffix}.txt`);
+    notify(t('letters.messagesDownloaded', { count: list.length }), "success");
+  };
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      <div className="flex flex-col md:flex-row justify-between md:items-end gap-4">
+        <div>
+          <h2 className="text-2xl font-black text-slate-800">{t('letters.title')}</h2>
+          <p className="text-slate-500 text-sm font-medium">{t('letters.subtitle', { year })}</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-xs font-bold text-slate-500 cursor-pointer">
+            <input type="checkbox" checked={dueOnly} onChange={(e) => setDueOnly(e.target.checked)} className="h-4 w-4" />
+            {t('letters.dueOnly', { count: dueCount })}
+          </label>
+          <button
+            onClick={() => downloadMessages(visible)}
+            disabled={visible.length === 0}
+            className="px-6 py-3 bg-white border-2 border-slate-100 text-slate-700 rounded-2xl font-black hover:border-indigo-200 transition-colors disabled:opacity-50 whitespace-nowrap"
+          >
+            {t('letters.downloadMessages', { count: visible.length })}
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white p-8 rounded-3xl shadow-sm border border-slate-200 space-y-4">
+        <div>
+          <h3 className="font-black text-slate-800">{t('letters.thresholdsTitle')}</h3>
+          <p className="text-xs font-bold text-slate-500">{t('letters.thresholdsHint')}</p>
+        </div>
+        {supervisor ? (
+          <div className="flex flex-wrap items-end gap-4">
+            {WARNING_LEVELS.map((level, index) => (
+              <label key={level} className="flex items-center gap-2 text-xs font-bold text-slate-500">
+                {t('letters.levelShort', { level })}
+                <input
+                  type="number"
+                  min={1}
+                  value={draftThresholds[index] || ''}
+                  onChange={(e) => setDraftThresholds(prev => prev.map((v, i) => i === index ? e.target.value : v))}
+                  className="w-16 px-2 py-1 bg-slate-50 border-2 border-slate-100 rounded-xl font-black text-slate-700 text-center outline-none focus:border-indigo-500"
+                />
+              </label>
+            ))}
+            <button onClick={saveThresholds} className="text-[10px] font-black uppercase text-white bg-indigo-600 px-3 py-1 rounded-full hover:bg-indigo-700">{t('common.save')}</button>
+          </div>
+        ) : (
+          <p className="text-sm font-black text-slate-700">
+            {WARNING_LEVELS.map((level, index) => t('letters.thresholdLine', { level, count: thresholds[index] })).join(' • ')}
+          </p>
+        )}
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-xs font-bold text-slate-300 italic">{dueOnly ? t('letters.noneDue') : t('letters.none', { year })}</p>
+      ) : (
+        <div className="space-y-4">
+          {visible.map(status => {
+            const { pupil } = status;
+            const link = pupil.guardianPhone ? whatsAppLink(pupil.guardianPhone, messageOf(status)) : null;
+            const expanded = expandedId === pupil.id;
+            return (
+              <div key={pupil.id} className={`bg-white p-6 rounded-3xl shadow-sm border space-y-4 ${status.dueLevel !== null ? 'border-rose-200' : 'border-slate-200'}`}>
+                <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+                  <div>
+                    <p className="text-sm font-black text-slate-800">
+                      {pupil.name}
+                      <span className="ml-2 text-[9px] font-black text-indigo-400">{t('roster.yearShort', { year: pupil.year })}</span>
+                      <span className={`ml-2 text-[9px] font-black uppercase px-2 py-0.5 rounded ${levelClass(status.issuedLevel)}`}>
+                        {status.issuedLevel > 0 ? t('letters.levelShort', { level: status.issuedLevel }) : t('letters.noLetter')}
+                      </span>
+                    </p>
+                    <p className="text-[10px] font-bold text-slate-400">
+                      {pupil.guardianName
+                        ? `${pupil.guardianName}${pupil.guardianPhone ? ` • ${pupil.guardianPhone}` : ''}`
+                        : <span className="text-amber-600">{t('letters.noGuardian')}</span>}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <button onClick={() => setExpandedId(expanded ? null : pupil.id)} className="text-[10px] font-black uppercase text-slate-500 border border-slate-200 px-3 py-1 rounded-full bg-white hover:bg-slate-50">
+                      {t('letters.absences', { count: status.absences.length })}
+                    </button>
+                    <button onClick={() => downloadMessages([status])} className="text-[10px] font-black uppercase text-indigo-600 border border-indigo-100 px-3 py-1 rounded-full bg-white hover:bg-indigo-50">{t('letters.message')}</button>
+                    {link && (
+                      <a href={link} target="_blank" rel="noopener noreferrer" className="text-[10px] font-black uppercase text-emerald-600 border border-emerald-100 px-3 py-1 rounded-full bg-white hover:bg-emerald-50">
+                        {t('letters.whatsApp')}
+                      </a>
+                    )}
+                    {status.dueLevel !== null && (
+                      <button
+                        onClick={() => handleIssue(status)}
+                        disabled={isExporting}
+                        className="text-[10px] font-black uppercase text-white bg-rose-500 px-3 py-1 rounded-full hover:bg-rose-600 whitespace-nowrap disabled:opacity-50"
+                      >
+                        {t('letters.issue', { level: status.dueLevel })}
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {expanded && (
+                  <div className="space-y-1 max-h-48 overflow-y-auto">
+                    {status.absences.map(s => (
+                      <p key={s.reportId} className="text-[11px] font-bold text-slate-600 bg-slate-50 px-3 py-1.5 rounded-xl">
+                        {weekdayName(weekdayOf(s.date))}, {i18n.formatDate(s.date, LONG_DATE)} • {s.subject} • {s.timeslot}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                {status.letters.length > 0 && (
+                  <div className="space-y-2 border-t border-slate-50 pt-3">
+                    <p className={labelClass}>{t('letters.log')}</p>
+                    {status.letters.map(letter => (
+                      <div key={letter.id} className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+                        <p className="text-[11px] font-bold text-slate-500">
+                          <span className="font-black text-slate-700">{t('letters.levelShort', { level: letter.level })}</span> • {letter.reference} • {t('letters.issuedBy', { date: i18n.formatDate(letter.issuedAt, LONG_DATE), teacher: letter.issuedByName, count: letter.absences.length })}
+                        </p>
+                        <div className="flex gap-2">
+                          <button onClick={() => onReprint(letter)} disabled={isExporting} className="text-[10px] font-black uppercase text-indigo-600 border border-indigo-100 px-3 py-1 rounded-full bg-white hover:bg-indigo-50 disabled:opacity-50">{t('letters.reprint')}</button>
+                          {supervisor && <button onClick={() => handleDelete(letter)} className="text-[10px] font-black uppercase text-rose-500 border border-rose-100 px-3 py-1 rounded-full bg-white hover:bg-rose-50">{t('common.delete')}</button>}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WarningLetters;
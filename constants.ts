@@ -1,16 +1,86 @@
 
-import { Pupil, Teacher, Subject, Timeslot } from './types';
+import { Pupil, Teacher, TeacherRole, Subject, Term, Timeslot, AppSettings, AssessmentKind, AttendanceStatus } from './types';
+import { createPupilId, sortPupils } from './services/roster';
+import { createCatalogueId } from './services/catalogue';
 
-export const SUBJECTS: Subject[] = ['Sains', 'Bahasa Inggeris', 'Matematik', 'Sejarah'];
+// Initial catalogue. Ids match the ones given to reports saved before
+// subjects and timeslots could be edited in-app.
+export const DEFAULT_SUBJECTS: Subject[] = ['Sains', 'Bahasa Inggeris', 'Matematik', 'Sejarah']
+  .map(name => ({ id: createCatalogueId('s', name, []), name, active: true }));
 
-export const TIMESLOTS: Timeslot[] = [
+export const DEFAULT_TIMESLOTS: Timeslot[] = [
   '02:30 - 03:30 pm',
   '07:00 - 08:00 pm',
   '08:00 - 09:00 pm',
   '08:30 - 09:30 pm'
+].map(label => ({ id: createCatalogueId('ts', label, []), label, active: true }));
+
+export const YEARS = [1, 2, 3, 4, 5, 6];
+export const FINAL_YEAR = YEARS[YEARS.length - 1];
+
+// Order shown in the status picker; code is the single-letter register mark
+export const ATTENDANCE_STATUSES: { value: AttendanceStatus; label: string; code: string }[] = [
+  { value: 'hadir', label: 'Hadir', code: 'H' },
+  { value: 'tidak_hadir', label: 'Tidak Hadir', code: 'X' },
+  { value: 'lewat', label: 'Lewat', code: 'L' },
+  { value: 'sakit', label: 'Sakit', code: 'S' },
+  { value: 'cuti_bersebab', label: 'Cuti Bersebab', code: 'C' }
+];
+
+export const SCHOOL_NAME = 'SK KG KLID/PLAJAU';
+export const SCHOOL_LOCATION = 'SK KG KLID/PLAJAU, DALAT';
+export const PROGRAMME_NAME = 'Kelas Bimbingan dan Gilap Permata';
+
+// Officers printed in the Disemak oleh / Disahkan oleh slots of every report
+export const REVIEWER = { name: 'ENCIK RAFFI BIN SMAIL', role: 'Penolong Kanan Pentadbiran dan Akademik' };
+export const APPROVER = { name: 'ENCIK RAZELI BIN SIRAT', role: 'Guru Besar' };
+
+export const TEACHER_ROLES: { value: TeacherRole; label: string }[] = [
+  { value: 'guru', label: 'Guru' },
+  { value: 'penolong_kanan', label: 'Penolong Kanan' },
+  { value: 'guru_besar', label: 'Guru Besar' }
+];
+
+// Starting point only; the real Penggal dates are set in the Analisis tab each year
+const CURRENT_YEAR = new Date().getFullYear();
+export const DEFAULT_TERMS: Term[] = [
+  { id: `penggal-1-${CURRENT_YEAR}`, name: `Penggal 1 ${CURRENT_YEAR}`, start: `${CURRENT_YEAR}-01-01`, end: `${CURRENT_YEAR}-05-31` },
+  { id: `penggal-2-${CURRENT_YEAR}`, name: `Penggal 2 ${CURRENT_YEAR}`, start: `${CURRENT_YEAR}-06-01`, end: `${CURRENT_YEAR}-12-31` }
 ];
 
-export const TEACHERS: Teacher[] = [
+// A line whose fitted rate falls by at least this many percentage points is flagged as declining
+export const DECLINE_THRESHOLD = 5;
+
+export const ASSESSMENT_KINDS: { value: AssessmentKind; label: string }[] = [
+  { value: 'pre_test', label: 'Ujian Pra' },
+  { value: 'monthly_quiz', label: 'Kuiz Bulanan' },
+  { value: 'uasa_practice', label: 'Latihan UASA' }
+];
+
+// Lower bound of each attendance band in the impact report, highest first
+export const ATTENDANCE_BANDS = [80, 60, 0];
+
+// Printed as "Ruj. Kami: SKKKP/GP/2025/001" on Surat Amaran letters
+export const LETTER_REFERENCE_PREFIX = 'SKKKP/GP';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  language: 'ms',
+  forceMalayPdf: true,
+  absenceStreakThreshold: 3,
+  excludeExcusedAbsences: false,
+  missingSessionLookbackDays: 14,
+  terms: DEFAULT_TERMS,
+  warningThresholds: [3, 6, 9],
+  academicYears: []
+};
+
+// Indexed as Date.getDay(); the timetable lists Isnin first
+export const WEEKDAYS = ['Ahad', 'Isnin', 'Selasa', 'Rabu', 'Khamis', 'Jumaat', 'Sabtu'];
+export const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+// Initial roster used the first time the app runs on a device.
+// After that the roster is edited in-app and persisted locally.
+export const DEFAULT_TEACHERS: Teacher[] = [
   { id: 't1', name: 'ALYSA JULIA ANAK THORNLEY' },
   { id: 't2', name: 'DAYANG ERINA NATASHA BINTI ABANG ABBEHA' },
   { id: 't3', name: 'DAVE BIN ASON' },
@@ -19,14 +89,14 @@ export const TEACHERS: Teacher[] = [
   { id: 't6', name: 'JESSICA ANAK KATANG' },
   { id: 't7', name: 'MARIATI BINTI PADLAM' },
   { id: 't8', name: 'MUHAMMAD AIMAN CYPRIAN BIN MUHD NIZAM' },
-  { id: 't9', name: 'RAFFI BIN SMAIL' },
-  { id: 't10', name: 'RAZELI BIN SIRAT' },
+  { id: 't9', name: 'RAFFI BIN SMAIL', role: 'penolong_kanan' as TeacherRole },
+  { id: 't10', name: 'RAZELI BIN SIRAT', role: 'guru_besar' as TeacherRole },
   { id: 't11', name: 'REBENA BINTI ASIN' },
   { id: 't12', name: 'SAHARUDDIN BIN SAPIAE' },
   { id: 't13', name: 'IZWANSYAH BIN LAMUHAMMADE' }
-].sort((a, b) => a.name.localeCompare(b.name));
+].map(t => ({ role: 'guru' as TeacherRole, ...t, active: true })).sort((a, b) => a.name.localeCompare(b.name));
 
-export const RAW_PUPILS: Omit<Pupil, 'id'>[] = [
+export const RAW_PUPILS: Omit<Pupil, 'id' | 'active'>[] = [
   // Tahun 1
   { year: 1, name: 'CLARARISSA LIVONIA BINTI LEHAN' },
   { year: 1, name: 'MIA ARIANA BINTI ANDUKHA ELRONDY' },
@@ -62,10 +132,13 @@ export const RAW_PUPILS: Omit<Pupil, 'id'>[] = [
   { year: 6, name: 'RACHEL JANE ANAK STEFFENS ANDY' }
 ];
 
-// Processed pupils: added IDs and sorted alphabetically within years
-export const PUPILS: Pupil[] = RAW_PUPILS
-  .map((p, index) => ({ ...p, id: `p-${index}` }))
-  .sort((a, b) => {
-    if (a.year !== b.year) return a.year - b.year;
-    return a.name.localeCompare(b.name);
-  });
+// Processed pupils: added stable IDs and sorted alphabetically within years
+export const DEFAULT_PUPILS: Pupil[] = sortPupils(
+  RAW_PUPILS.reduce<Pupil[]>((acc, p) => [...acc, { ...p, id: createPupilId(p.name, acc.map(x => x.id)), active: true }], [])
+);
+
+// Before stable ids, pupils were identified as `p-${index}` by their position
+// in RAW_PUPILS. Kept only so the one-time migration can map old records.
+export const LEGACY_PUPIL_IDS: Record<string, string> = Object.fromEntries(
+  RAW_PUPILS.map((p, index) => [`p-${index}`, p.name])
+);
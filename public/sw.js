@@ -0,0 +1,91 @@
+/*
+ * Service worker for offline use.
+ *
+ * The app shell and the CDN dependencies listed in index.html (Tailwind, Google
+ * Fonts, esm.sh modules) are cached on install. Anything else fetched with GET
+ * is cached the first time it loads, so the modules esm.sh pulls in behind the
+ * importmap entries are available offline after one online visit.
+ *
+ * Pages are network-first so a new release shows up as soon as the device is
+ * online; everything else is served from cache and refreshed in the background.
+ * Bump CACHE_NAME when the precache list changes.
+ */
+
+const CACHE_NAME = 'sk-kehadiran-v1';
+
+const PRECACHE = [
+  '/',
+  '/index.html',
+  '/manifest.webmanifest',
+  '/icon-192.png',
+  '/icon-512.png',
+  'https://cdn.tailwindcss.com',
+  'https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&display=swap',
+  'https://esm.sh/react@^19.2.4',
+  'https://esm.sh/react@^19.2.4/jsx-runtime',
+  'https://esm.sh/react-dom@^19.2.4/client',
+  'https://esm.sh/jspdf@^4.1.0',
+  'https://esm.sh/jspdf-autotable@^5.0.8?external=jspdf',
+  'https://esm.sh/xlsx@^0.18.5'
+];
+
+// Report delivery must always reach the network
+const NEVER_CACHE = ['script.google.com', 'script.googleusercontent.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) =>
+      // One unreachable CDN must not stop the rest from being cached
+      Promise.all(PRECACHE.map((url) => cache.add(url).catch((e) => console.warn('Precache failed', url, e))))
+    ).then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Opaque responses come from no-cors requests such as the Tailwind script tag
+const isCacheable = (response) => response && (response.ok || response.type === 'opaque');
+
+const networkFirst = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (isCacheable(response)) cache.put(request, response.clone());
+    return response;
+  } catch (e) {
+    return (await cache.match(request)) || (await cache.match('/index.html')) || Response.error();
+  }
+};
+
+const staleWhileRevalidate = async (event) => {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(event.request);
+  const refresh = fetch(event.request)
+    .then((response) => {
+      if (isCacheable(response)) cache.put(event.request, response.clone());
+      return response;
+    });
+  if (cached) {
+    event.waitUntil(refresh.catch(() => undefined));
+    return cached;
+  }
+  return refresh;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (!url.protocol.startsWith('http') || NEVER_CACHE.includes(url.hostname)) return;
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+  } else {
+    event.respondWith(staleWhileRevalidate(event));
+  }
+});
@@ -0,0 +1,88 @@
+/**
+ * Local stand-in for the Apps Script in apps-script/Code.gs, for trying sync
+ * without a real spreadsheet. It keeps the latest payload per report id and
+ * answers the same way the script does.
+ *
+ *   npm run mock-sheets
+ *   echo "VITE_GOOGLE_SCRIPT_URL=http://localhost:8787/exec" >> .env.local
+ *   npm run dev
+ *
+ * Open the app in two browser profiles to play two devices. Set
+ * MOCK_SHEETS_FILE to keep the stored reports between runs, PORT to use
+ * another port, and MOCK_SHEETS_SECRET to require the same secret as
+ * VITE_SYNC_SECRET, like the SYNC_SECRET script property does.
+ */
+import { createServer } from 'node:http';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+
+const PORT = Number(process.env.PORT) || 8787;
+const FILE = process.env.MOCK_SHEETS_FILE;
+const SECRET = process.env.MOCK_SHEETS_SECRET;
+const hasSecret = secret => !SECRET || secret === SECRET;
+
+const stored = FILE && existsSync(FILE) ? JSON.parse(readFileSync(FILE, 'utf8')) : { reports: [], deletedIds: [] };
+const reports = new Map(stored.reports.map(r => [r.id, r]));
+const deletedIds = new Set(stored.deletedIds);
+
+const save = () => {
+  if (FILE) writeFileSync(FILE, JSON.stringify({ reports: [...reports.values()], deletedIds: [...deletedIds] }, null, 2));
+};
+
+const respond = (res, body) => {
+  res.writeHead(200, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+  res.end(JSON.stringify(body));
+};
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (req.method === 'GET') {
+    if (!hasSecret(url.searchParams.get('secret'))) {
+      respond(res, { status: 'error', message: 'Akses ditolak' });
+      return;
+    }
+    if (url.searchParams.get('action') !== 'list') {
+      respond(res, { status: 'error', message: 'Tindakan tidak dikenali' });
+      return;
+    }
+    respond(res, { status: 'ok', reports: [...reports.values()], deletedIds: [...deletedIds] });
+    console.log(`GET list -> ${reports.size} reports, ${deletedIds.size} deleted`);
+    return;
+  }
+
+  if (req.method === 'POST') {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      try {
+        const { action, secret, ...report } = JSON.parse(body);
+        if (!hasSecret(secret)) {
+          respond(res, { status: 'error', message: 'Akses ditolak' });
+          return;
+        }
+        if (!report.id) {
+          respond(res, { status: 'error', message: 'ID laporan tiada' });
+          return;
+        }
+        if (action === 'delete') {
+          reports.delete(report.id);
+          deletedIds.add(report.id);
+        } else {
+          reports.set(report.id, report);
+          deletedIds.delete(report.id);
+        }
+        save();
+        respond(res, { status: 'ok', id: report.id });
+        console.log(`POST ${action} ${report.id}${action === 'delete' ? '' : ` (${report.date} ${report.subject})`}`);
+      } catch (err) {
+        respond(res, { status: 'error', message: String(err) });
+      }
+    });
+    return;
+  }
+
+  res.writeHead(405, { 'Access-Control-Allow-Origin': '*' });
+  res.end();
+});
+
+server.listen(PORT, () => console.log(`Mock Google Sheets endpoint on http://localhost:${PORT}/exec`));
@@ -0,0 +1,44 @@
+import { FINAL_YEAR } from '../constants';
+import { AcademicYear, Pupil, SavedReport } from '../types';
+
+/**
+ * Academic year a date falls in: the latest rollover on or before it. Dates
+ * from before the first recorded rollover use their calendar year, but never
+ * reach the year that rollover opened, so a January session still belongs to
+ * the previous school year when the new one only started in February.
+ */
+export const academicYearOf = (date: string, academicYears: AcademicYear[]): number => {
+  const sorted = [...academicYears].sort((a, b) => a.startDate.localeCompare(b.startDate));
+  const current = sorted.filter(y => y.startDate <= date).pop();
+  if (current) return current.year;
+  const calendarYear = Number(date.substring(0, 4));
+  return sorted.length > 0 ? Math.min(calendarYear, sorted[0].year - 1) : calendarYear;
+};
+
+// Every academic year with at least one session, newest first
+export const academicYearsIn = (reports: SavedReport[], academicYears: AcademicYear[]): number[] =>
+  Array.from(new Set(reports.map(r => academicYearOf(r.date, academicYears)))).sort((a, b) => b - a);
+
+export interface RolloverPlan {
+  promoted: Pupil[];
+  graduated: Pupil[];
+}
+
+// Only active pupils move; anyone already inactive keeps the Tahun they left in
+export const planRollover = (pupils: Pupil[]): RolloverPlan => ({
+  promoted: pupils.filter(p => p.active && p.year < FINAL_YEAR),
+  graduated: pupils.filter(p => p.active && p.year >= FINAL_YEAR)
+});
+
+/**
+ * Moves every active pupil up one Tahun for the academic year starting now.
+ * Tahun 6 pupils finished the year before, so they are marked as graduated in
+ * that year and deactivated rather than removed, keeping their history.
+ */
+export const rolloverPupils = (pupils: Pupil[], newYear: number): Pupil[] =>
+  pupils.map(p => {
+    if (!p.active) return p;
+    return p.year >= FINAL_YEAR
+      ? { ...p, active: false, graduatedYear: newYear - 1 }
+      : { ...p, year: p.year + 1 };
+  });
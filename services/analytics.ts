@@ -0,0 +1,162 @@
+import { YEARS } from '../constants';
+import { isExcusedStatus, isPresentStatus, statusOf, tallySession } from './attendance';
+import { subjectsForStats } from './catalogue';
+import { AttendanceRate, AttendanceStatus, MonthlyRegister, Pupil, PupilProfile, Subject, PupilSession, SavedReport, SubjectStats, YearStats } from '../types';
+
+// Tahun the pupil was in at the session; reports saved before this was recorded fall back to the roster
+export const pupilYearAt = (report: SavedReport, pupil: Pupil): number =>
+  report.pupilYears?.[pupil.id] ?? pupil.year;
+
+// Reports saved before target classes were recorded only list the pupils that
+// were ticked, so the Tahun groups they touch are the best available guess.
+export const targetYearsOf = (report: SavedReport, pupils: Pupil[]): number[] => {
+  if (report.targetYears) return report.targetYears;
+  const years = new Set(
+    pupils.filter(p => p.id in report.attendance).map(p => pupilYearAt(report, p))
+  );
+  return YEARS.filter(y => years.has(y));
+};
+
+export const expectedPupilIdsOf = (report: SavedReport, pupils: Pupil[]): string[] => {
+  if (report.expectedPupilIds) return report.expectedPupilIds;
+  const years = targetYearsOf(report, pupils);
+  return pupils
+    .filter(p => years.includes(pupilYearAt(report, p)) && (p.active || p.id in report.attendance))
+    .map(p => p.id);
+};
+
+const toRate = (totalPresent: number, totalPossible: number, sessionCount: number): AttendanceRate => ({
+  totalPresent,
+  totalPossible,
+  percentage: totalPossible > 0 ? Math.round((totalPresent / totalPossible) * 100) : 0,
+  sessionCount
+});
+
+export const sumRates = (rates: AttendanceRate[]): AttendanceRate =>
+  toRate(
+    rates.reduce((sum, r) => sum + r.totalPresent, 0),
+    rates.reduce((sum, r) => sum + r.totalPossible, 0),
+    rates.reduce((sum, r) => sum + r.sessionCount, 0)
+  );
+
+export const calculateSubjectStats = (reports: SavedReport[], subjects: Subject[], pupils: Pupil[], excludeExcused = false): SubjectStats[] =>
+  subjectsForStats(subjects, reports).map(subject => {
+    const subReports = reports.filter(r => r.subjectId === subject.id);
+    let present = 0;
+    let possible = 0;
+    subReports.forEach(r => {
+      const tally = tallySession(r.attendance, expectedPupilIdsOf(r, pupils), excludeExcused);
+      possible += tally.possible;
+      present += tally.present;
+    });
+    return { subjectId: subject.id, subject: subject.name, ...toRate(present, possible, subReports.length) };
+  });
+
+// Pupils count under the Tahun they were in at each session, so a promoted pupil's past stays with their old class
+export const calculateYearStats = (reports: SavedReport[], pupils: Pupil[], excludeExcused = false): YearStats[] => {
+  const byId = new Map(pupils.map(p => [p.id, p]));
+  return YEARS.map(year => {
+    let present = 0;
+    let possible = 0;
+    let sessions = 0;
+    reports.forEach(r => {
+      const expected = expectedPupilIdsOf(r, pupils).filter(id => {
+        const pupil = byId.get(id);
+        return pupil !== undefined && pupilYearAt(r, pupil) === year;
+      });
+      if (expected.length === 0) return;
+      sessions++;
+      const tally = tallySession(r.attendance, expected, excludeExcused);
+      possible += tally.possible;
+      present += tally.present;
+    });
+    return { year, ...toRate(present, possible, sessions) };
+  });
+};
+
+const bySessionOrder = (a: SavedReport, b: SavedReport) =>
+  a.date.localeCompare(b.date) || a.id.localeCompare(b.id);
+
+/**
+ * With excludeExcused, sessions the pupil missed for Sakit or Cuti Bersebab
+ * are still listed but left out of every rate, month count and streak.
+ */
+export const buildPupilProfile = (pupil: Pupil, reports: SavedReport[], pupils: Pupil[], excludeExcused = false): PupilProfile => {
+  const sessions: PupilSession[] = reports
+    .filter(r => expectedPupilIdsOf(r, pupils).includes(pupil.id))
+    .sort(bySessionOrder)
+    .map(r => {
+      const status = statusOf(r.attendance, pupil.id);
+      return {
+        reportId: r.id,
+        date: r.date,
+        subjectId: r.subjectId,
+        subject: r.subject,
+        timeslot: r.timeslot,
+        status,
+        isPresent: isPresentStatus(status),
+        note: r.notes?.[pupil.id]
+      };
+    });
+  const counted = excludeExcused ? sessions.filter(s => !isExcusedStatus(s.status)) : sessions;
+
+  // Named after the most recent session, in case the subject was renamed since
+  const subjectNames = new Map(sessions.map(s => [s.subjectId, s.subject]));
+  const bySubject = Array.from(subjectNames.entries()).map(([subjectId, subject]) => {
+    const subSessions = counted.filter(s => s.subjectId === subjectId);
+    const present = subSessions.filter(s => s.isPresent).length;
+    return { subjectId, subject, ...toRate(present, subSessions.length, subSessions.length) };
+  });
+
+  const months = new Map<string, { attended: number; missed: number }>();
+  counted.forEach(s => {
+    const key = s.date.substring(0, 7);
+    const entry = months.get(key) || { attended: 0, missed: 0 };
+    if (s.isPresent) entry.attended++; else entry.missed++;
+    months.set(key, entry);
+  });
+
+  let streak = 0;
+  let longestAbsenceStreak = 0;
+  counted.forEach(s => {
+    streak = s.isPresent ? 0 : streak + 1;
+    longestAbsenceStreak = Math.max(longestAbsenceStreak, streak);
+  });
+
+  const present = counted.filter(s => s.isPresent).length;
+  return {
+    pupil,
+    ...toRate(present, counted.length, counted.length),
+    sessions,
+    bySubject,
+    byMonth: Array.from(months.entries()).map(([month, counts]) => ({ month, ...counts })),
+    currentAbsenceStreak: streak,
+    longestAbsenceStreak
+  };
+};
+
+// Active pupils whose most recent run of consecutive absences has reached the threshold
+export const findPupilsAtRisk = (reports: SavedReport[], pupils: Pupil[], threshold: number, excludeExcused = false): PupilProfile[] =>
+  pupils
+    .filter(p => p.active)
+    .map(p => buildPupilProfile(p, reports, pupils, excludeExcused))
+    .filter(profile => profile.currentAbsenceStreak >= threshold)
+    .sort((a, b) => b.currentAbsenceStreak - a.currentAbsenceStreak);
+
+// Every pupil expected at one or more of the given sessions, grouped by the Tahun they were in then
+export const buildMonthlyRegister = (reports: SavedReport[], pupils: Pupil[], excludeExcused = false): MonthlyRegister => {
+  const sessions = [...reports].sort(bySessionOrder);
+  const expected = sessions.map(r => new Set(expectedPupilIdsOf(r, pupils)));
+  const rows = pupils
+    .map(pupil => {
+      const marks = sessions.map((r, i) => expected[i].has(pupil.id) ? statusOf(r.attendance, pupil.id) : null);
+      const counted = marks.filter((m): m is AttendanceStatus => m !== null && !(excludeExcused && isExcusedStatus(m)));
+      const possible = counted.length;
+      const present = counted.filter(isPresentStatus).length;
+      const latest = sessions.filter((_, i) => expected[i].has(pupil.id)).pop();
+      return { pupil, year: latest ? pupilYearAt(latest, pupil) : pupil.year, marks, ...toRate(present, possible, possible) };
+    })
+    .filter(row => row.sessionCount > 0)
+    .sort((a, b) => a.year - b.year || a.pupil.name.localeCompare(b.pupil.name));
+  return { sessions, rows };
+};
@@ -0,0 +1,100 @@
+import { ATTENDANCE_BANDS } from '../constants';
+import { Assessment, ImpactBand, Pupil, PupilImpact, SavedReport, Subject, SubjectImpact } from '../types';
+import { buildPupilProfile } from './analytics';
+
+export const scorePercentage = (score: number, maxScore: number): number =>
+  maxScore > 0 ? Math.round((score / maxScore) * 100) : 0;
+
+// Newest first, matching the report history
+export const sortAssessments = (assessments: Assessment[]): Assessment[] =>
+  [...assessments].sort((a, b) => b.date.localeCompare(a.date) || b.id.localeCompare(a.id));
+
+const average = (values: number[]): number =>
+  Math.round(values.reduce((sum, v) => sum + v, 0) / values.length);
+
+export const averageScore = (assessment: Assessment): number | null => {
+  const marks = Object.values(assessment.scores);
+  return marks.length > 0 ? average(marks.map(m => scorePercentage(m, assessment.maxScore))) : null;
+};
+
+// Pearson r, rounded to two decimals; null when there is too little data or no spread to compare
+export const correlation = (pairs: [number, number][]): number | null => {
+  if (pairs.length < 3) return null;
+  const meanX = pairs.reduce((sum, [x]) => sum + x, 0) / pairs.length;
+  const meanY = pairs.reduce((sum, [, y]) => sum + y, 0) / pairs.length;
+  const covariance = pairs.reduce((sum, [x, y]) => sum + (x - meanX) * (y - meanY), 0);
+  const varianceX = pairs.reduce((sum, [x]) => sum + (x - meanX) ** 2, 0);
+  const varianceY = pairs.reduce((sum, [, y]) => sum + (y - meanY) ** 2, 0);
+  if (varianceX === 0 || varianceY === 0) return null;
+  return Math.round((covariance / Math.sqrt(varianceX * varianceY)) * 100) / 100;
+};
+
+export type CorrelationStrength = 'strong' | 'moderate' | 'weak';
+
+export const correlationStrength = (r: number): CorrelationStrength =>
+  Math.abs(r) >= 0.5 ? 'strong' : Math.abs(r) >= 0.3 ? 'moderate' : 'weak';
+
+const bandsOf = (impacts: PupilImpact[]): ImpactBand[] =>
+  ATTENDANCE_BANDS.map((min, index) => {
+    const max = index === 0 ? 100 : ATTENDANCE_BANDS[index - 1] - 1;
+    const inBand = impacts.filter(i => i.attendance.percentage >= min && i.attendance.percentage <= max);
+    const gains = inBand.flatMap(i => i.gain === null ? [] : [i.gain]);
+    return {
+      min,
+      max,
+      pupilCount: inBand.length,
+      averageLatest: inBand.length > 0 ? average(inBand.map(i => i.latestScore)) : null,
+      averageGain: gains.length > 0 ? average(gains) : null
+    };
+  });
+
+/**
+ * For every subject with at least one paper, sets each pupil's attendance in
+ * that subject against how their marks moved from their first paper to their
+ * latest. Attendance only counts sessions up to the latest paper, since later
+ * sessions cannot explain that result. Pupils with no session in the subject
+ * are listed but left out of the bands and the correlation.
+ */
+export const buildImpact = (
+  reports: SavedReport[],
+  pupils: Pupil[],
+  subjects: Subject[],
+  assessments: Assessment[],
+  excludeExcused = false
+): SubjectImpact[] =>
+  subjects
+    .filter(s => assessments.some(a => a.subjectId === s.id))
+    .map(subject => {
+      const papers = sortAssessments(assessments.filter(a => a.subjectId === subject.id)).reverse();
+      const subjectReports = reports.filter(r => r.subjectId === subject.id);
+      const impacts = pupils.flatMap((pupil): PupilImpact[] => {
+        const scores = papers
+          .filter(a => pupil.id in a.scores)
+          .map(a => ({ assessmentId: a.id, date: a.date, kind: a.kind, title: a.title, percentage: scorePercentage(a.scores[pupil.id], a.maxScore) }));
+        if (scores.length === 0) return [];
+        const latest = scores[scores.length - 1];
+        const profile = buildPupilProfile(pupil, subjectReports.filter(r => r.date <= latest.date), pupils, excludeExcused);
+        return [{
+          pupil,
+          attendance: {
+            totalPresent: profile.totalPresent,
+            totalPossible: profile.totalPossible,
+            percentage: profile.percentage,
+            sessionCount: profile.sessionCount
+          },
+          scores,
+          firstScore: scores[0].percentage,
+          latestScore: latest.percentage,
+          gain: scores.length > 1 ? latest.percentage - scores[0].percentage : null
+        }];
+      }).sort((a, b) => b.attendance.percentage - a.attendance.percentage || a.pupil.name.localeCompare(b.pupil.name));
+
+      const compared = impacts.filter(i => i.attendance.sessionCount > 0);
+      return {
+        subjectId: subject.id,
+        subject: subject.name,
+        pupils: impacts,
+        bands: bandsOf(compared),
+        correlation: correlation(compared.flatMap(i => i.gain === null ? [] : [[i.attendance.percentage, i.gain] as [number, number]]))
+      };
+    });
@@ -0,0 +1,40 @@
+import { ATTENDANCE_STATUSES } from '../constants';
+import { AttendanceStatus, SavedReport } from '../types';
+
+const PRESENT_STATUSES: AttendanceStatus[] = ['hadir', 'lewat'];
+const EXCUSED_STATUSES: AttendanceStatus[] = ['sakit', 'cuti_bersebab'];
+
+// Pupils without an entry were never ticked, which has always meant absent
+export const statusOf = (attendance: SavedReport['attendance'], pupilId: string): AttendanceStatus =>
+  attendance[pupilId] || 'tidak_hadir';
+
+export const isPresentStatus = (status: AttendanceStatus) => PRESENT_STATUSES.includes(status);
+
+export const isExcusedStatus = (status: AttendanceStatus) => EXCUSED_STATUSES.includes(status);
+
+export const statusLabel = (status: AttendanceStatus) =>
+  ATTENDANCE_STATUSES.find(s => s.value === status)?.label || status;
+
+export const countPresent = (attendance: SavedReport['attendance'], pupilIds: string[]) =>
+  pupilIds.filter(id => isPresentStatus(statusOf(attendance, id))).length;
+
+/**
+ * Present and expected counts for one session. With excludeExcused, pupils
+ * marked Sakit or Cuti Bersebab are left out of the expected total instead of
+ * counting as absent.
+ */
+export const tallySession = (attendance: SavedReport['attendance'], expectedIds: string[], excludeExcused: boolean) => {
+  const counted = excludeExcused
+    ? expectedIds.filter(id => !isExcusedStatus(statusOf(attendance, id)))
+    : expectedIds;
+  return { present: countPresent(attendance, counted), possible: counted.length };
+};
+
+// Accepts a stored value or a label typed into a CSV ("Cuti Bersebab", "1", "true")
+export const parseStatus = (value: string): AttendanceStatus | null => {
+  const text = value.trim().toLowerCase();
+  if (text === '1' || text === 'true') return 'hadir';
+  if (text === '0' || text === 'false') return 'tidak_hadir';
+  const match = ATTENDANCE_STATUSES.find(s => s.value === text.replace(/\s+/g, '_') || s.label.toLowerCase() === text);
+  return match ? match.value : null;
+};
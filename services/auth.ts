@@ -0,0 +1,76 @@
+import { SavedReport, Teacher } from '../types';
+
+// Kept per browser tab, so closing the tab signs the teacher out
+const SESSION_KEY = 'sk_signed_in_teacher';
+// Per teacher in localStorage, so neither a reload nor a new tab resets the failed attempts
+const LOCKOUT_KEY = 'sk_sign_in_lockout';
+
+export const PIN_PATTERN = /^\d{4,6}$/;
+
+/**
+ * PINs only keep honest users honest on a shared device: a 4-6 digit PIN can
+ * be brute-forced from a backup file, so never reuse a banking PIN here.
+ * The teacher id salts the hash so equal PINs do not look equal.
+ */
+export const hashPin = async (teacherId: string, pin: string): Promise<string> => {
+  // Browsers only offer crypto.subtle over https or on localhost, not on http://<LAN address>
+  if (!crypto.subtle) throw new Error("Pelayar tidak menyokong penyulitan PIN pada sambungan ini");
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${teacherId}:${pin}`));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const verifyPin = async (teacher: Teacher, pin: string): Promise<boolean> =>
+  !!teacher.pinHash && teacher.pinHash === await hashPin(teacher.id, pin);
+
+export const isSupervisor = (teacher: Teacher | null | undefined): boolean =>
+  !!teacher && teacher.role !== 'guru';
+
+// One-time setup: until a supervisor has a PIN, the first one to sign in chooses it
+export const needsSetup = (teachers: Teacher[]): boolean =>
+  !teachers.some(x => x.active && isSupervisor(x) && x.pinHash);
+
+/**
+ * Whether a teacher without a PIN may choose one at sign-in. A guru can, since
+ * that only opens their own records. A supervisor can only during the setup,
+ * otherwise anyone picking their name could take over supervisor rights;
+ * after that a supervisor issues them a temporary PIN instead.
+ */
+export const canChooseOwnPin = (teacher: Teacher, teachers: Teacher[]): boolean =>
+  !teacher.pinHash && (!isSupervisor(teacher) || needsSetup(teachers));
+
+// getRandomValues works without https, unlike crypto.subtle
+export const temporaryPin = (): string =>
+  String(crypto.getRandomValues(new Uint32Array(1))[0] % 1000000).padStart(6, '0');
+
+// Guru may only change sessions they recorded themselves
+export const canEditReport = (teacher: Teacher | null | undefined, report: Pick<SavedReport, 'teacherId'>): boolean =>
+  isSupervisor(teacher) || (!!teacher && teacher.id === report.teacherId);
+
+export const loadSession = (): string | null => sessionStorage.getItem(SESSION_KEY);
+
+export const saveSession = (teacherId: string) => sessionStorage.setItem(SESSION_KEY, teacherId);
+
+export const clearSession = () => sessionStorage.removeItem(SESSION_KEY);
+
+export interface Lockout {
+  failedAttempts: number;
+  lockedUntil: number; // Epoch ms; 0 when not locked
+}
+
+const lockoutKey = (teacherId: string) => `${LOCKOUT_KEY}_${teacherId}`;
+
+export const loadLockout = (teacherId: string): Lockout => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(lockoutKey(teacherId)) || 'null');
+    return stored && typeof stored.failedAttempts === 'number' && typeof stored.lockedUntil === 'number'
+      ? stored
+      : { failedAttempts: 0, lockedUntil: 0 };
+  } catch {
+    return { failedAttempts: 0, lockedUntil: 0 };
+  }
+};
+
+export const saveLockout = (teacherId: string, lockout: Lockout) =>
+  localStorage.setItem(lockoutKey(teacherId), JSON.stringify(lockout));
+
+export const clearLockout = (teacherId: string) => localStorage.removeItem(lockoutKey(teacherId));
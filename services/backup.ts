@@ -0,0 +1,178 @@
+import { DEFAULT_SETTINGS, DEFAULT_SUBJECTS, DEFAULT_TIMESLOTS } from '../constants';
+import { AppSettings, Assessment, BackupFile, Catalogue, Pupil, Roster, SavedReport, Snapshot, Subject, Teacher, Timeslot, TimetableSlot, WarningLetter } from '../types';
+import { upgradeAttendanceStatuses, upgradePupilYears, upgradeSessionIds, upgradeTeacherRoles } from './migrations';
+import { getItem, setItem } from './storage';
+
+// 2: attendance stores statuses instead of true/false
+// 3: subject and timeslot catalogue, reports carry subject/timeslot ids
+// 4: weekly timetable
+// 5: assessment scores
+// 6: Surat Amaran log
+// 7: Tahun snapshot on reports, academic years and graduated pupils
+export const BACKUP_VERSION = 7;
+const MAX_SNAPSHOTS = 5;
+
+export const createBackup = (
+  reports: SavedReport[],
+  roster: Roster,
+  catalogue: Catalogue,
+  timetable: TimetableSlot[],
+  assessments: Assessment[],
+  warningLetters: WarningLetter[],
+  settings: AppSettings
+): BackupFile => ({
+  format: 'sk-attendance-backup',
+  version: BACKUP_VERSION,
+  createdAt: new Date().toISOString(),
+  reports,
+  roster,
+  catalogue,
+  timetable,
+  assessments,
+  warningLetters,
+  settings
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Only what upgradeBackup relies on; older sections it fills in may be missing
+const isBackupFile = (value: Record<string, unknown>): value is Record<string, unknown> & BackupFile => {
+  const b = value as Partial<BackupFile>;
+  return Array.isArray(b.reports) && b.reports.every(isObject) &&
+    isObject(b.roster) && Array.isArray(b.roster.pupils) && Array.isArray(b.roster.teachers);
+};
+
+// Throws with a user-facing message when the file is not a backup this app can read
+export const parseBackup = (text: string): BackupFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Fail bukan JSON yang sah.");
+  }
+  if (!isObject(data) || data.format !== 'sk-attendance-backup') {
+    throw new Error("Fail ini bukan sandaran aplikasi kehadiran.");
+  }
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    throw new Error(`Versi sandaran (${String(data.version)}) tidak disokong. Sila kemas kini aplikasi.`);
+  }
+  if (!isBackupFile(data)) {
+    throw new Error("Kandungan sandaran tidak lengkap.");
+  }
+  return upgradeBackup(data);
+};
+
+// Brings a backup written by an older release up to the current record format
+const upgradeBackup = (backup: BackupFile): BackupFile => ({
+  ...backup,
+  reports: backup.reports.map(r => upgradePupilYears(upgradeSessionIds(upgradeAttendanceStatuses(r)), backup.roster.pupils)),
+  roster: { ...backup.roster, teachers: upgradeTeacherRoles(backup.roster.teachers) },
+  catalogue: backup.catalogue || { subjects: DEFAULT_SUBJECTS, timeslots: DEFAULT_TIMESLOTS },
+  timetable: backup.timetable || [],
+  assessments: backup.assessments || [],
+  warningLetters: backup.warningLetters || [],
+  settings: { ...DEFAULT_SETTINGS, ...backup.settings }
+});
+
+export interface RestorePreview {
+  reportsAdded: SavedReport[];
+  reportsOverwritten: SavedReport[];
+  reportsUnchanged: number;
+  pupilsAdded: Pupil[];
+  pupilsOverwritten: Pupil[];
+  teachersAdded: Teacher[];
+  teachersOverwritten: Teacher[];
+  subjectsAdded: Subject[];
+  timeslotsAdded: Timeslot[];
+  timetableAdded: number;
+  assessmentsAdded: number;
+  assessmentsOverwritten: number;
+  lettersAdded: number;
+  settingsChanged: boolean;
+}
+
+const diffById = <T extends { id: string }>(incoming: T[], current: T[]) => {
+  const currentById = new Map(current.map(item => [item.id, JSON.stringify(item)]));
+  const added: T[] = [];
+  const overwritten: T[] = [];
+  let unchanged = 0;
+  incoming.forEach(item => {
+    const existing = currentById.get(item.id);
+    if (existing === undefined) added.push(item);
+    else if (existing !== JSON.stringify(item)) overwritten.push(item);
+    else unchanged++;
+  });
+  return { added, overwritten, unchanged };
+};
+
+export const previewRestore = (
+  backup: BackupFile,
+  reports: SavedReport[],
+  roster: Roster,
+  catalogue: Catalogue,
+  timetable: TimetableSlot[],
+  assessments: Assessment[],
+  warningLetters: WarningLetter[],
+  settings: AppSettings
+): RestorePreview => {
+  const r = diffById(backup.reports, reports);
+  const p = diffById(backup.roster.pupils, roster.pupils);
+  const t = diffById(backup.roster.teachers, roster.teachers);
+  const a = diffById(backup.assessments, assessments);
+  return {
+    reportsAdded: r.added,
+    reportsOverwritten: r.overwritten,
+    reportsUnchanged: r.unchanged,
+    pupilsAdded: p.added,
+    pupilsOverwritten: p.overwritten,
+    teachersAdded: t.added,
+    teachersOverwritten: t.overwritten,
+    subjectsAdded: diffById(backup.catalogue.subjects, catalogue.subjects).added,
+    timeslotsAdded: diffById(backup.catalogue.timeslots, catalogue.timeslots).added,
+    timetableAdded: diffById(backup.timetable, timetable).added.length,
+    assessmentsAdded: a.added.length,
+    assessmentsOverwritten: a.overwritten.length,
+    lettersAdded: diffById(backup.warningLetters, warningLetters).added.length,
+    settingsChanged: JSON.stringify(backup.settings) !== JSON.stringify(settings)
+  };
+};
+
+// Items from the backup win; items that exist only on this device are kept
+export const mergeById = <T extends { id: string }>(current: T[], incoming: T[]): T[] => {
+  const incomingById = new Map(incoming.map(item => [item.id, item]));
+  const currentIds = new Set(current.map(item => item.id));
+  return [
+    ...current.map(item => incomingById.get(item.id) || item),
+    ...incoming.filter(item => !currentIds.has(item.id))
+  ];
+};
+
+export const loadSnapshots = async (): Promise<Snapshot[]> => {
+  try {
+    const snapshots = await getItem<Snapshot[]>('snapshots');
+    return Array.isArray(snapshots) ? snapshots.map(s => ({ ...s, backup: upgradeBackup(s.backup) })) : [];
+  } catch (e) {
+    console.error("Failed to load snapshots", e);
+    return [];
+  }
+};
+
+/**
+ * Keeps the last few copies of all local data on the device. When storage is
+ * full the oldest snapshots are dropped until the new one fits.
+ */
+export const saveSnapshot = async (reason: string, backup: BackupFile): Promise<Snapshot[]> => {
+  const snapshot: Snapshot = { id: Date.now().toString(), createdAt: backup.createdAt, reason, backup };
+  let snapshots = [snapshot, ...(await loadSnapshots())].slice(0, MAX_SNAPSHOTS);
+  while (snapshots.length > 0) {
+    try {
+      await setItem('snapshots', snapshots);
+      return snapshots;
+    } catch (e) {
+      console.error("Snapshot storage full, dropping oldest", e);
+      snapshots = snapshots.slice(0, -1);
+    }
+  }
+  return [];
+};
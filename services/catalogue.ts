@@ -0,0 +1,45 @@
+import { Catalogue, SavedReport, Subject } from '../types';
+
+// Ids are derived from the label once, at creation. Renaming keeps the id, so
+// reports saved under the old name still count towards the same subject.
+export const createCatalogueId = (prefix: 's' | 'ts', label: string, takenIds: Iterable<string>): string => {
+  const taken = new Set(takenIds);
+  const slug = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'baru';
+  let id = `${prefix}-${slug}`;
+  for (let n = 2; taken.has(id); n++) {
+    id = `${prefix}-${slug}-${n}`;
+  }
+  return id;
+};
+
+export const normaliseLabel = (label: string): string =>
+  label.trim().replace(/\s+/g, ' ');
+
+// Subjects shown in analytics: every active subject, plus retired ones that
+// still have sessions in the given reports
+export const subjectsForStats = (subjects: Subject[], reports: SavedReport[]): Subject[] => {
+  const usedIds = new Set(reports.map(r => r.subjectId));
+  return subjects.filter(s => s.active || usedIds.has(s.id));
+};
+
+// Adds retired catalogue entries for ids that reports refer to but this device
+// has never seen, e.g. after restoring a backup made on another device
+export const ensureCatalogueCovers = (catalogue: Catalogue, reports: SavedReport[]): Catalogue => {
+  const subjectIds = new Set(catalogue.subjects.map(s => s.id));
+  const timeslotIds = new Set(catalogue.timeslots.map(t => t.id));
+  const subjects = [...catalogue.subjects];
+  const timeslots = [...catalogue.timeslots];
+  reports.forEach(r => {
+    if (!subjectIds.has(r.subjectId)) {
+      subjectIds.add(r.subjectId);
+      subjects.push({ id: r.subjectId, name: r.subject, active: false });
+    }
+    if (!timeslotIds.has(r.timeslotId)) {
+      timeslotIds.add(r.timeslotId);
+      timeslots.push({ id: r.timeslotId, label: r.timeslot, active: false });
+    }
+  });
+  return subjects.length === catalogue.subjects.length && timeslots.length === catalogue.timeslots.length
+    ? catalogue
+    : { subjects, timeslots };
+};
@@ -0,0 +1,15 @@
+// Calendar dates are kept as local YYYY-MM-DD strings throughout the app.
+// `new Date('YYYY-MM-DD')` would read them as UTC midnight, a day early in some zones.
+
+export const parseDate = (date: string) => new Date(`${date}T00:00:00`);
+
+export const formatDate = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+export const todayIso = () => formatDate(new Date());
+
+export const addDays = (date: string, days: number) => {
+  const d = parseDate(date);
+  d.setDate(d.getDate() + days);
+  return formatDate(d);
+};
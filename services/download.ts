@@ -0,0 +1,13 @@
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadText = (text: string, filename: string, type = 'text/plain') =>
+  downloadBlob(new Blob([text], { type: `${type};charset=utf-8` }), filename);
@@ -0,0 +1,59 @@
+import { Pupil, SavedReport } from '../types';
+import { expectedPupilIdsOf, targetYearsOf } from './analytics';
+
+export const HISTORY_PAGE_SIZE = 12;
+
+// Empty strings and null mean "any"
+export interface HistoryFilter {
+  teacher: string; // Part of the teacher's name, any case
+  from: string; // YYYY-MM-DD, inclusive
+  to: string;
+  subjectId: string;
+  timeslotId: string;
+  year: number | null; // Tahun the session was for
+}
+
+export const EMPTY_HISTORY_FILTER: HistoryFilter = { teacher: '', from: '', to: '', subjectId: '', timeslotId: '', year: null };
+
+export type HistorySort = 'date_desc' | 'date_asc' | 'subject' | 'teacher' | 'attendance';
+
+export const HISTORY_SORTS: HistorySort[] = ['date_desc', 'date_asc', 'subject', 'teacher', 'attendance'];
+
+export const isFilterActive = (filter: HistoryFilter): boolean =>
+  JSON.stringify(filter) !== JSON.stringify(EMPTY_HISTORY_FILTER);
+
+export const filterReports = (reports: SavedReport[], filter: HistoryFilter, pupils: Pupil[]): SavedReport[] => {
+  const teacher = filter.teacher.trim().toLowerCase();
+  return reports.filter(r =>
+    (!teacher || r.teacherName.toLowerCase().includes(teacher)) &&
+    (!filter.from || r.date >= filter.from) &&
+    (!filter.to || r.date <= filter.to) &&
+    (!filter.subjectId || r.subjectId === filter.subjectId) &&
+    (!filter.timeslotId || r.timeslotId === filter.timeslotId) &&
+    (filter.year === null || targetYearsOf(r, pupils).includes(filter.year)));
+};
+
+const attendanceRatio = (report: SavedReport, pupils: Pupil[]) => {
+  const expected = expectedPupilIdsOf(report, pupils).length;
+  return expected > 0 ? report.totalPresent / expected : 0;
+};
+
+// Ties fall back to newest first, so the order never jumps between renders
+export const sortReports = (reports: SavedReport[], sort: HistorySort, pupils: Pupil[]): SavedReport[] => {
+  const newestFirst = (a: SavedReport, b: SavedReport) => b.date.localeCompare(a.date) || b.id.localeCompare(a.id);
+  const compare: Record<HistorySort, (a: SavedReport, b: SavedReport) => number> = {
+    date_desc: newestFirst,
+    date_asc: (a, b) => -newestFirst(a, b),
+    subject: (a, b) => a.subject.localeCompare(b.subject) || newestFirst(a, b),
+    teacher: (a, b) => a.teacherName.localeCompare(b.teacherName) || newestFirst(a, b),
+    attendance: (a, b) => attendanceRatio(a, pupils) - attendanceRatio(b, pupils) || newestFirst(a, b)
+  };
+  return [...reports].sort(compare[sort]);
+};
+
+// page is 1-based and clamped, so a page past the end after a delete shows the last one
+export const paginate = <T>(items: T[], page: number, pageSize = HISTORY_PAGE_SIZE) => {
+  const pageCount = Math.max(1, Math.ceil(items.length / pageSize));
+  const current = Math.min(Math.max(1, page), pageCount);
+  return { items: items.slice((current - 1) * pageSize, current * pageSize), page: current, pageCount };
+};
@@ -0,0 +1,57 @@
+import { ATTENDANCE_STATUSES, TEACHER_ROLES } from '../constants';
+import { AttendanceStatus, Language, TeacherRole } from '../types';
+import { MESSAGES, MessageKey } from './messages';
+import { parseDate } from './dates';
+
+export const LANGUAGES: { value: Language; label: string }[] = [
+  { value: 'ms', label: 'BM' },
+  { value: 'en', label: 'EN' }
+];
+
+const LOCALES: Record<Language, string> = { ms: 'ms-MY', en: 'en-MY' };
+
+// "05 Mac 2025", as on official forms
+export const LONG_DATE: Intl.DateTimeFormatOptions = { day: '2-digit', month: 'long', year: 'numeric' };
+
+export type MessageParams = Record<string, string | number>;
+
+export interface I18n {
+  language: Language;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatDate: (date: string, options?: Intl.DateTimeFormatOptions) => string;
+  formatDateTime: (at: string) => string;
+  formatTime: (at: Date) => string;
+  formatNumber: (value: number) => string;
+  monthName: (month: number) => string;
+  statusLabel: (status: AttendanceStatus) => string;
+  roleLabel: (role: TeacherRole) => string;
+  weekdayName: (weekday: number) => string;
+}
+
+// "{count} rekod" with { count: 3 } -> "3 rekod"; unknown placeholders are left as they are
+const interpolate = (template: string, params?: MessageParams) =>
+  params ? template.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match) : template;
+
+// Calendar dates (YYYY-MM-DD) are read as local dates; anything longer is a timestamp
+const toDate = (value: string) => value.length === 10 ? parseDate(value) : new Date(value);
+
+export const createI18n = (language: Language): I18n => {
+  const locale = LOCALES[language];
+  const messages = MESSAGES[language];
+  const t = (key: MessageKey, params?: MessageParams) => interpolate(messages[key], params);
+  return {
+    language,
+    t,
+    formatDate: (date, options) => toDate(date).toLocaleDateString(locale, options),
+    formatDateTime: (at) => new Date(at).toLocaleString(locale),
+    formatTime: (at) => at.toLocaleTimeString(locale),
+    formatNumber: (value) => value.toLocaleString(locale),
+    monthName: (month) => new Date(2000, month).toLocaleString(locale, { month: 'long' }),
+    statusLabel: (status) => ATTENDANCE_STATUSES.some(s => s.value === status) ? t(`status.${status}`) : status,
+    roleLabel: (role) => TEACHER_ROLES.some(r => r.value === role) ? t(`role.${role}`) : role,
+    weekdayName: (weekday) => t(`weekday.${weekday}` as MessageKey)
+  };
+};
+
+// Stored records and official reports are written in BM
+export const MALAY = createI18n('ms');
@@ -0,0 +1,136 @@
+import { LETTER_REFERENCE_PREFIX, PROGRAMME_NAME, SCHOOL_NAME } from '../constants';
+import { LetterStatus, MissedSession, Pupil, SavedReport, WarningLetter, WarningLevel } from '../types';
+import { buildPupilProfile } from './analytics';
+import { MALAY } from './i18n';
+import { weekdayOf } from './timetable';
+
+// Letters go to parents, so everything in this file is written in BM whatever the interface language
+
+export const WARNING_LEVELS: WarningLevel[] = [1, 2, 3];
+
+export const LEVEL_NAMES: Record<WarningLevel, string> = { 1: 'Pertama', 2: 'Kedua', 3: 'Ketiga' };
+
+// Only Tidak Hadir counts; Sakit and Cuti Bersebab are absences with a reason
+export const missedSessions = (pupil: Pupil, reports: SavedReport[], pupils: Pupil[], year: number): MissedSession[] =>
+  buildPupilProfile(pupil, reports.filter(r => r.date.startsWith(`${year}-`)), pupils).sessions
+    .filter(s => s.status === 'tidak_hadir')
+    .map(({ reportId, date, subject, timeslot }) => ({ reportId, date, subject, timeslot }));
+
+// Highest letter the absence count has reached; thresholds are for Surat Amaran 1, 2 and 3 in that order
+export const reachedLevel = (absences: number, thresholds: number[]): WarningLevel | 0 =>
+  [...WARNING_LEVELS].reverse().find(level => thresholds[level - 1] > 0 && absences >= thresholds[level - 1]) || 0;
+
+/**
+ * Where every pupil stands for the calendar year: how many sessions they
+ * missed without a reason, which letters already went out and which one is
+ * due next. A pupil who jumps past several thresholds at once still gets the
+ * letters one at a time, so no step of the warning is skipped. Pupils with no
+ * absence and no letter are left out; those with a letter due come first.
+ */
+export const buildLetterStatuses = (
+  reports: SavedReport[],
+  pupils: Pupil[],
+  letters: WarningLetter[],
+  thresholds: number[],
+  year: number
+): LetterStatus[] =>
+  pupils
+    .filter(p => p.active)
+    .map(pupil => {
+      const absences = missedSessions(pupil, reports, pupils, year);
+      const issued = letters
+        .filter(l => l.pupilId === pupil.id && l.year === year)
+        .sort((a, b) => a.issuedAt.localeCompare(b.issuedAt));
+      const reached = reachedLevel(absences.length, thresholds);
+      const issuedLevel = issued.reduce<WarningLevel | 0>((max, l) => l.level > max ? l.level : max, 0);
+      return {
+        pupil,
+        absences,
+        reachedLevel: reached,
+        issuedLevel,
+        dueLevel: reached > issuedLevel ? (issuedLevel + 1) as WarningLevel : null,
+        letters: issued
+      };
+    })
+    .filter(s => s.absences.length > 0 || s.letters.length > 0)
+    .sort((a, b) =>
+      Number(b.dueLevel !== null) - Number(a.dueLevel !== null) ||
+      b.absences.length - a.absences.length ||
+      a.pupil.name.localeCompare(b.pupil.name));
+
+// "SKKKP/GP/2025/007": numbered through the year across all pupils, after the highest number still in the log
+export const nextReference = (letters: WarningLetter[], year: number): string => {
+  const prefix = `${LETTER_REFERENCE_PREFIX}/${year}/`;
+  const highest = letters
+    .filter(l => l.reference.startsWith(prefix))
+    .reduce((max, l) => Math.max(max, parseInt(l.reference.slice(prefix.length), 10) || 0), 0);
+  return `${prefix}${String(highest + 1).padStart(3, '0')}`;
+};
+
+export const missedLine = (s: MissedSession): string =>
+  `${MALAY.formatDate(s.date)} (${MALAY.weekdayName(weekdayOf(s.date))}) - ${s.subject}, ${s.timeslot}`;
+
+const guardianOf = (pupil: { guardianName?: string }) => pupil.guardianName?.trim() || 'Ibu Bapa/Penjaga';
+
+export const letterTitle = (level: WarningLevel): string =>
+  `Surat Amaran ${LEVEL_NAMES[level]}: Ketidakhadiran ke ${PROGRAMME_NAME}`;
+
+export const letterAddressee = (letter: WarningLetter): string[] =>
+  ['Kepada:', guardianOf(letter), `Ibu bapa/penjaga kepada ${letter.pupilName} (Tahun ${letter.pupilYear})`];
+
+// Body of the printed letter, split around the table of missed sessions
+export const letterParagraphs = (letter: WarningLetter): { before: string[]; after: string[] } => ({
+  before: [
+    'Dengan hormatnya perkara di atas adalah dirujuk.',
+    `2. Pihak sekolah ingin memaklumkan bahawa anak/jagaan tuan/puan, ${letter.pupilName} (Tahun ${letter.pupilYear}), telah tidak hadir ke ${PROGRAMME_NAME} sebanyak ${letter.absences.length} kali tanpa sebab pada tahun ${letter.year}, seperti butiran berikut:`
+  ],
+  after: [
+    {
+      1: '3. Tuan/puan dimohon menasihati anak/jagaan tuan/puan supaya hadir ke kelas dengan konsisten. Sekiranya terdapat sebab ketidakhadiran, sila maklumkan kepada guru kelas atau pihak sekolah.',
+      2: '3. Ini merupakan amaran kedua. Tuan/puan dimohon berjumpa guru kelas atau Penolong Kanan bagi membincangkan kehadiran anak/jagaan tuan/puan.',
+      3: '3. Ini merupakan amaran terakhir. Tuan/puan diminta hadir ke sekolah dalam tempoh tujuh (7) hari dari tarikh surat ini. Sekiranya ketidakhadiran berterusan, penyertaan anak/jagaan tuan/puan dalam program ini akan dikaji semula.'
+    }[letter.level],
+    'Kerjasama dan perhatian daripada pihak tuan/puan amatlah dihargai.',
+    'Sekian, terima kasih.'
+  ]
+});
+
+export const acknowledgementText = (letter: WarningLetter): string =>
+  `Saya, ........................................................ ibu bapa/penjaga kepada ${letter.pupilName} (Tahun ${letter.pupilYear}), mengaku telah menerima Surat Amaran ${LEVEL_NAMES[letter.level]} (Ruj. ${letter.reference}) dan akan memastikan anak/jagaan saya hadir ke kelas.`;
+
+// Text ready to paste into WhatsApp or SMS, mentioning the latest letter when one has gone out
+export const guardianMessage = (pupil: Pupil, absences: MissedSession[], year: number, teacherName: string, letter?: WarningLetter): string => [
+  `Salam sejahtera Tuan/Puan ${guardianOf(pupil)},`,
+  '',
+  `Dimaklumkan bahawa ${pupil.name} (Tahun ${letter ? letter.pupilYear : pupil.year}) tidak hadir ke ${PROGRAMME_NAME} di ${SCHOOL_NAME} sebanyak ${absences.length} kali tanpa sebab pada tahun ${year}:`,
+  ...absences.map(s => `- ${missedLine(s)}`),
+  '',
+  ...(letter ? [`Surat Amaran ${LEVEL_NAMES[letter.level]} (Ruj. ${letter.reference}) telah dikeluarkan dan akan diserahkan melalui murid.`] : []),
+  'Mohon tuan/puan menasihati anak/jagaan supaya hadir ke kelas. Sekiranya ada sebab ketidakhadiran, sila maklumkan kepada pihak sekolah.',
+  '',
+  'Terima kasih.',
+  `${teacherName}, ${SCHOOL_NAME}`
+].join('\n');
+
+// Several messages in one file, each headed with who it is for
+export const messagesFile = (entries: { pupil: Pupil; message: string }[]): string =>
+  entries
+    .map(({ pupil, message }) => [
+      `KEPADA: ${guardianOf(pupil)}${pupil.guardianPhone ? ` (${pupil.guardianPhone})` : ' (tiada nombor telefon)'}`,
+      `MURID: ${pupil.name} (Tahun ${pupil.year})`,
+      '',
+      message
+    ].join('\n'))
+    .join('\n\n----------------------------------------\n\n');
+
+// Malaysian numbers are usually written 012-345 6789; WhatsApp wants 60123456789
+export const whatsAppNumber = (phone: string): string | null => {
+  const digits = phone.replace(/\D/g, '');
+  if (digits.length < 9) return null;
+  return digits.startsWith('0') ? `6${digits}` : digits;
+};
+
+export const whatsAppLink = (phone: string, message: string): string | null => {
+  const number = whatsAppNumber(phone);
+  return number ? `https://wa.me/${number}?text=${encodeURIComponent(message)}` : null;
+};
@@ -0,0 +1,1150 @@
+import { Language } from '../types';
+
+// BM is the source catalogue; every key must also exist in English or tsc fails
+const ms = {
+  // Shared
+  'common.teacher': 'Guru',
+  'common.subject': 'Subjek',
+  'common.timeslot': 'Slot Masa',
+  'common.date': 'Tarikh',
+  'common.year': 'Tahun {year}',
+  'common.yearLabel': 'Tahun',
+  'common.none': 'Tiada',
+  'common.noData': 'Tiada data.',
+  'common.view': 'Lihat',
+  'common.delete': 'Padam',
+  'common.remove': 'Buang',
+  'common.edit': 'Ubah',
+  'common.save': 'Simpan',
+  'common.cancel': 'Batal',
+  'common.close': 'Tutup',
+  'common.deactivate': 'Nyahaktif',
+  'common.activate': 'Aktifkan',
+  'common.showInactive': 'Papar tidak aktif',
+  'common.unknownTeacher': 'Guru tidak dikenali',
+  'common.presentOf': '{present} / {total} Hadir',
+  // Attendance statuses, roles and weekdays
+  'status.hadir': 'Hadir',
+  'status.tidak_hadir': 'Tidak Hadir',
+  'status.lewat': 'Lewat',
+  'status.sakit': 'Sakit',
+  'status.cuti_bersebab': 'Cuti Bersebab',
+  'role.guru': 'Guru',
+  'role.penolong_kanan': 'Penolong Kanan',
+  'role.guru_besar': 'Guru Besar',
+  'weekday.0': 'Ahad',
+  'weekday.1': 'Isnin',
+  'weekday.2': 'Selasa',
+  'weekday.3': 'Rabu',
+  'weekday.4': 'Khamis',
+  'weekday.5': 'Jumaat',
+  'weekday.6': 'Sabtu',
+  // Header and navigation
+  'header.subtitle': 'Dashboard Kehadiran • Kelas Gilap Permata',
+  'header.signOut': 'Log Keluar',
+  'header.onlineHint': 'Rekod dihantar ke Google Sheets secara automatik',
+  'header.offlineHint': 'Rekod disimpan dalam peranti dan dihantar apabila kembali dalam talian',
+  'header.sending': 'Menghantar...',
+  'header.online': 'Dalam Talian',
+  'header.offline': 'Luar Talian',
+  'header.unsent': '{count} belum dihantar',
+  'header.install': '📲 Pasang Aplikasi',
+  'header.language': 'Bahasa',
+  'tab.record': 'Rekod',
+  'tab.preview': 'Pratonton',
+  'tab.history': 'Sejarah',
+  'tab.analytics': 'Analisis',
+  'tab.timetable': 'Jadual',
+  'tab.roster': 'Senarai Nama',
+  'tab.data': 'Data',
+  // Notifications
+  'notify.unmappedPupils': '{count} rekod lama mengandungi murid yang tidak dapat dipadankan. Lihat tab Senarai Nama.',
+  'notify.storageOpenFailed': 'Gagal membuka storan peranti. Rekod tidak akan disimpan.',
+  'notify.storageSaveFailed': 'Gagal menyimpan rekod ke storan peranti.',
+  'notify.storage.blocked': 'Tutup tab lain yang membuka aplikasi ini supaya kemas kini storan dapat diteruskan.',
+  'notify.storage.replaced': 'Versi baharu aplikasi dibuka di tab lain. Muat semula halaman ini sebelum meneruskan.',
+  'notify.online': 'Kembali dalam talian.',
+  'notify.offline': 'Luar talian. Rekod tetap disimpan dalam peranti dan dihantar kemudian.',
+  'notify.offlineReady': 'Aplikasi kini boleh dibuka tanpa internet.',
+  'notify.syncSent': 'Berjaya dihantar ke Google Sheets! ({count} rekod)',
+  'notify.syncFailed': 'Gagal simpan {count} rekod ke awan. Akan dicuba semula secara automatik.',
+  'notify.yearAllPresent': 'Semua murid Tahun {year} ditanda hadir.',
+  'notify.yearReset': 'Kehadiran Tahun {year} telah diset semula.',
+  'notify.merged': 'Rekod telah digabungkan dengan rekod sedia ada.',
+  'notify.replaced': 'Rekod sedia ada telah diganti.',
+  'notify.selectSession': 'Sila pilih Guru, Subjek, dan Slot Masa.',
+  'notify.selectYear': 'Sila pilih sekurang-kurangnya satu Tahun sasaran.',
+  'notify.ownRecordsOnly': 'Anda hanya boleh menyunting rekod anda sendiri.',
+  'notify.sessionClash': 'Sesi {subject} pada {date} ({timeslot}) sudah direkodkan oleh {teacher}.',
+  'notify.updatedAndSubmitted': 'Rekod dikemas kini dan dihantar untuk semakan.',
+  'notify.updated': 'Rekod dikemas kini.',
+  'notify.offlineUpdateQueued': 'Tiada sambungan internet. Kemas kini akan dihantar apabila peranti kembali dalam talian.',
+  'notify.noChanges': 'Tiada perubahan untuk disimpan.',
+  'notify.savedAndSubmitted': 'Rekod disimpan dan dihantar untuk semakan.',
+  'notify.draftSaved': 'Draf disimpan secara lokal.',
+  'notify.noScriptUrl': 'URL Google Script tidak ditetapkan. Data hanya disimpan di peranti ini.',
+  'notify.offlineQueued': 'Tiada sambungan internet. Rekod akan dihantar apabila peranti kembali dalam talian.',
+  'notify.pdfDownloaded': 'PDF berjaya dimuat turun!',
+  'notify.pdfFailed': 'Gagal menjana PDF.',
+  'notify.prefilled': 'Borang diisi mengikut jadual. Semak sebelum menyimpan.',
+  'notify.welcome': 'Selamat datang, {name}.',
+  'notify.editEnded': 'Mod sunting ditamatkan. Sedia untuk sesi baharu.',
+  'notify.nothingToExport': 'Tiada rekod untuk dieksport.',
+  'notify.exportDownloaded': 'Fail eksport berjaya dimuat turun!',
+  'notify.csvReadFailed': 'Gagal membaca fail CSV.',
+  'notify.imported': '{count} sesi berjaya diimport.',
+  'notify.snapshotFull': 'Ruang storan penuh. Salinan automatik tidak dapat disimpan.',
+  'notify.restored': 'Pemulihan selesai: {count} rekod daripada sandaran.',
+  'notify.submitted': 'Rekod dihantar untuk semakan.',
+  'notify.reviewed': 'Rekod telah disemak.',
+  'notify.approved': 'Rekod telah disahkan.',
+  'notify.returned': 'Rekod dipulangkan kepada guru untuk pembetulan.',
+  'notify.deleted': 'Rekod telah dipadam daripada sejarah.',
+  'notify.historyCleared': 'Semua rekod sejarah telah dikosongkan.',
+  'confirm.deleteRecord': 'Padam rekod ini secara kekal?',
+  'confirm.clearHistory': 'Padam SEMUA rekod sejarah? Salinan automatik akan disimpan di tab Data.',
+  'prompt.returnReason': 'Sebab rekod {subject} ({date}) dipulangkan kepada {teacher}:',
+  // Edit banner
+  'edit.mode': 'Mod Sunting',
+  'edit.returnedBy': 'Dipulangkan oleh {name}',
+  'edit.updatesOriginal': 'Menyimpan akan mengemas kini rekod asal, bukan mencipta rekod baharu.',
+  'edit.viewOnly': 'Paparan sahaja. Rekod ini milik {teacher}.',
+  'edit.auditTrail': 'Jejak Audit ({count})',
+  'edit.end': 'Tamat Sunting / Sesi Baharu',
+  // Record tab
+  'record.date': 'Tarikh Sesi',
+  'record.noTeacher': 'Tiada Guru Dipilih',
+  'record.teacherHint': 'Rekod disimpan di bawah nama guru yang log masuk',
+  'record.chooseSubject': 'Pilih Subjek',
+  'record.chooseTimeslot': 'Pilih Slot Masa',
+  'record.targetYears': 'Tahun Sasaran',
+  'record.all': 'Semua',
+  'record.reset': 'Reset',
+  'record.profile': 'Profil kehadiran',
+  'record.notePlaceholder': 'Catatan / sebab (pilihan)',
+  'record.continue': 'Teruskan ke Pratonton & Simpan',
+  'record.totalPresent': 'Jumlah Hadir',
+  'record.preview': 'Pratonton Laporan',
+  // Preview tab
+  'preview.title': 'Pratonton Sesi',
+  'preview.noSubject': 'Tiada Subjek',
+  'preview.saving': 'Menyimpan...',
+  'preview.updateAndSubmit': 'Kemas Kini & Hantar',
+  'preview.saveAndSubmit': 'Simpan & Hantar',
+  'preview.updateRecord': 'Kemas Kini Rekod',
+  'preview.saveDraft': 'Simpan Draf',
+  'preview.downloadPdf': 'Muat Turun PDF',
+  'preview.offline': '📴 Luar talian. Menyimpan tetap selamat: rekod disimpan dalam peranti dan dihantar ke Google Sheets secara automatik apabila sambungan pulih.',
+  'preview.heading': 'Rekod Kehadiran',
+  'preview.reportDate': 'Tarikh Laporan',
+  'preview.signedOn': 'Tarikh: {date}',
+  'preview.totalPresent': 'Jumlah Murid Hadir',
+  // History tab and review
+  'history.title': 'Sejarah Rekod',
+  'history.subtitle': 'Senarai semua sesi kehadiran yang telah disimpan.',
+  'history.viewProfile': '👤 Lihat Profil Murid',
+  'history.inactive': '(tidak aktif)',
+  'history.importCsv': '📥 Import CSV',
+  'history.export': '📤 Eksport',
+  'history.exportCsv': 'CSV (Kehadiran)',
+  'history.exportSummary': 'CSV (Ringkasan)',
+  'history.exportXlsx': 'Excel (.xlsx)',
+  'history.clear': '🗑️ Kosongkan Sejarah',
+  'history.empty': 'Tiada rekod ditemui. Sila rekod kehadiran di tab pertama.',
+  'history.duplicate': 'Pendua',
+  'history.presentLower': '{present} / {total} hadir',
+  'history.editedTimes': 'Disunting {count} kali',
+  'history.retry': 'Cuba Semula',
+  'history.viewEdit': 'Lihat / Sunting Rekod',
+  'history.viewRecord': 'Lihat Rekod',
+  'review.queueTitle': '🛡️ Menunggu Tindakan Anda ({count})',
+  'review.queueHint': 'Semak atau sahkan rekod, atau pulangkan kepada guru dengan ulasan.',
+  'review.reviewedBy': 'Disemak {name}',
+  'review.approvedBy': 'Disahkan {name}',
+  'review.return': 'Pulangkan',
+  'review.semak': 'Semak',
+  'review.sahkan': 'Sahkan',
+  'review.submit': 'Hantar',
+  'review.draft': 'Draf',
+  'review.submitted': 'Menunggu Semakan',
+  'review.disemak': 'Disemak',
+  'review.disahkan': 'Disahkan',
+  'sync.pending': 'Menunggu Dihantar',
+  'sync.sent': 'Dihantar',
+  'sync.failed': 'Gagal Dihantar',
+  'sync.unknown': 'Belum Disahkan',
+  'sync.send': 'Hantar',
+  // Analytics tab
+  'analytics.chooseYear': 'Pilih Tahun',
+  'analytics.chooseMonth': 'Pilih Bulan',
+  'analytics.excludeExcused': 'Kecualikan Sakit & Cuti Bersebab daripada jumlah dijangka',
+  'analytics.forceMalayPdf': 'PDF rasmi sentiasa dalam Bahasa Melayu',
+  'analytics.savePdf': '💾 Simpan Laporan Analisis PDF',
+  'analytics.registerPdf': '📋 Daftar Kehadiran Bulanan PDF',
+  'analytics.duplicatesTitle': '⚠️ Rekod Bertindih Dikesan',
+  'analytics.duplicatesHint': '{count} sesi direkodkan lebih daripada sekali dan dikira berganda dalam analisis. Sila semak dan padam rekod yang tidak diperlukan.',
+  'analytics.duplicateEntry': '{teacher} • {time} • {count} hadir',
+  'analytics.atRiskTitle': 'Murid Perlu Perhatian',
+  'analytics.atRiskHint': 'Murid aktif yang tidak hadir berturut-turut sekurang-kurangnya {count} sesi. Sila hubungi ibu bapa.',
+  'analytics.absenceThreshold': 'Had Tidak Hadir',
+  'analytics.noneAtRisk': '✅ Tiada murid melepasi had ketidakhadiran.',
+  'analytics.atRiskEntry': 'Tahun {year} • {streak} sesi berturut • {percentage}% hadir',
+  'analytics.heading': 'Analisis Prestasi Subjek',
+  'analytics.monthlySubject': 'Kehadiran Subjek Bulanan',
+  'analytics.bySubject': 'Pecahan Mengikut Subjek',
+  'analytics.monthly': 'Bulanan',
+  'analytics.classesRecorded': '{count} Kelas Direkodkan',
+  'analytics.yearlySubject': 'Kehadiran Subjek Tahunan',
+  'analytics.yearlySummary': 'Ringkasan Tahunan {year}',
+  'analytics.yearly': 'Tahunan',
+  'analytics.yearlyOf': 'Tahunan {year}',
+  'analytics.totalSessions': '{count} Jumlah Sesi',
+  'analytics.byYear': 'Kehadiran Mengikut Tahun',
+  'analytics.byYearHint': 'Dikira berdasarkan murid yang disasarkan bagi setiap sesi',
+  'analytics.sessions': '{count} Sesi',
+  'analytics.yearlyAverage': 'Purata Kadar Kehadiran Tahunan',
+  'analytics.overall': 'Jumlah Keseluruhan',
+  // Signatures and PDF reports
+  'signature.preparedBy': 'Disediakan oleh:',
+  'signature.reviewedBy': 'Disemak oleh:',
+  'signature.approvedBy': 'Disahkan oleh:',
+  'signature.dutyTeacher': 'Guru Bertugas',
+  'signature.date': 'Tarikh:',
+  'pdf.generatedOn': 'Dijana pada {date}',
+  'pdf.page': 'Halaman {page} / {total}',
+  'pdf.yearHeading': 'TAHUN {year}',
+  'pdf.yearPresent': 'TAHUN {year}  ({present} / {total} hadir)',
+  'pdf.number': 'No.',
+  'pdf.pupilName': 'Nama Murid',
+  'pdf.attendance': 'Kehadiran',
+  'pdf.notes': 'Catatan',
+  'pdf.sessions': 'Sesi',
+  'pdf.present': 'Hadir',
+  'pdf.expected': 'Dijangka',
+  'pdf.percentage': 'Peratus',
+  'pdf.yearlyAverage': 'Purata Kadar Kehadiran Tahunan: {percentage}%',
+  'pdf.notTargeted': '-  Bukan sasaran sesi',
+  'pdf.noSessionsThisMonth': 'Tiada sesi direkodkan untuk bulan ini.',
+  'pdf.registerTitle': 'Daftar Kehadiran Bulanan',
+  'pdf.registerSubtitle': '{period} • {sessions} sesi • {pupils} murid',
+  // Trends and term comparison
+  'trends.overall': 'Keseluruhan',
+  'trends.title': 'Trend Kehadiran',
+  'trends.hintWeekly': 'Peratus kehadiran mengikut minggu. Garis merah menurun sekurang-kurangnya {threshold} mata peratus dalam julat ini.',
+  'trends.hintMonthly': 'Peratus kehadiran mengikut bulan. Garis merah menurun sekurang-kurangnya {threshold} mata peratus dalam julat ini.',
+  'trends.from': 'Dari',
+  'trends.to': 'Hingga',
+  'trends.preset3m': '3 Bulan',
+  'trends.preset6m': '6 Bulan',
+  'trends.presetYear': 'Tahun Ini',
+  'trends.presetAll': 'Semua',
+  'trends.weekly': 'Mingguan',
+  'trends.monthly': 'Bulanan',
+  'trends.bySubject': 'Ikut Subjek',
+  'trends.byYear': 'Ikut Tahun',
+  'trends.declining': '↘ Kehadiran menurun: {series}',
+  'trends.decliningHint': 'Perubahan dalam mata peratus, dikira daripada garis lurus terbaik merentas julat tarikh.',
+  'trends.noData': 'Tiada data dalam julat tarikh ini.',
+  'terms.title': 'Perbandingan Penggal',
+  'terms.hint': 'Angka kecil menunjukkan perubahan berbanding penggal sebelumnya.',
+  'terms.edit': 'Ubah Tarikh Penggal',
+  'terms.done': 'Selesai',
+  'terms.namePlaceholder': 'Nama Penggal',
+  'terms.newName': 'Penggal {number}',
+  'terms.add': '+ Tambah Penggal',
+  'terms.none': 'Tiada penggal ditetapkan.',
+  'terms.confirmRemove': 'Buang {name}? Rekod kehadiran tidak terjejas.',
+  'terms.invalid': 'Setiap penggal perlukan nama, dan tarikh mula mesti sebelum tarikh tamat.',
+  'terms.saved': 'Tarikh penggal disimpan.',
+  // Timetable
+  'timetable.title': 'Jadual Mingguan',
+  'timetable.subtitle': 'Tetapkan kelas bagi setiap hari. Borang Rekod diisi secara automatik apabila guru dipilih.',
+  'timetable.missingTitle': 'Sesi Belum Direkod',
+  'timetable.missingHint': 'Kelas dalam jadual yang tiada rekod kehadiran sehingga semalam.',
+  'timetable.lookbackBefore': 'Semak',
+  'timetable.lookbackAfter': 'hari lepas',
+  'timetable.allRecorded': 'Semua sesi dalam jadual telah direkod. 🎉',
+  'timetable.recordNow': 'Rekod Sekarang',
+  'timetable.day': 'Hari',
+  'timetable.chooseTimeslot': 'Pilih Slot Masa',
+  'timetable.chooseSubject': 'Pilih Subjek',
+  'timetable.chooseTeacher': 'Pilih Guru',
+  'timetable.targetYears': 'Tahun Sasaran',
+  'timetable.add': 'Tambah ke Jadual',
+  'timetable.empty': 'Jadual masih kosong.',
+  'timetable.needSlot': 'Sila pilih slot masa, subjek dan guru.',
+  'timetable.needYear': 'Sila pilih sekurang-kurangnya satu Tahun.',
+  'timetable.clash': '{subject} sudah dijadualkan pada {day}, {timeslot} ({teacher}).',
+  'timetable.added': '{subject} ditambah ke jadual {day}.',
+  'timetable.reassigned': 'Guru untuk {subject} ({day}) ditukar.',
+  'timetable.confirmRemove': 'Buang {subject} pada {day} daripada jadual? Rekod lama tidak terjejas.',
+  'timetable.removed': 'Kelas dibuang daripada jadual.',
+  // Sign-in
+  'signIn.teacherName': 'Nama Guru',
+  'signIn.chooseName': 'Pilih Nama Anda',
+  'signIn.firstTime': 'Log masuk kali pertama. Cipta PIN 4 hingga 6 digit untuk nama ini.',
+  'signIn.newPin': 'PIN Baharu',
+  'signIn.pin': 'PIN',
+  'signIn.confirmPin': 'Sahkan PIN',
+  'signIn.createAndSignIn': 'Cipta PIN & Log Masuk',
+  'signIn.signIn': 'Log Masuk',
+  'signIn.forgotPin': 'Lupa PIN? Minta Penolong Kanan atau Guru Besar menetapkan semula PIN anda.',
+  'signIn.needName': 'Sila pilih nama anda.',
+  'signIn.lockedOut': 'Terlalu banyak cubaan. Sila tunggu 30 saat.',
+  'signIn.pinFormat': 'PIN mestilah 4 hingga 6 digit.',
+  'signIn.pinMismatch': 'PIN pengesahan tidak sepadan.',
+  'signIn.setup': 'Persediaan awal: Guru Besar atau Penolong Kanan perlu log masuk dan menetapkan PIN dahulu. Selepas itu PIN guru lain dikeluarkan melalui tab Senarai Nama.',
+  'signIn.awaitingPin': 'Nama ini belum mempunyai PIN. Minta Penolong Kanan atau Guru Besar mengeluarkan PIN sementara.',
+  'signIn.temporaryPin': 'PIN Sementara',
+  'signIn.replaceTemporary': 'PIN sementara diterima. Pilih PIN 4 hingga 6 digit anda sendiri.',
+  'signIn.cryptoUnavailable': 'PIN tidak dapat disemak pada sambungan ini. Buka aplikasi melalui https atau localhost.',
+  'signIn.wrongPin': 'PIN salah. {remaining} cubaan lagi.',
+  // Roster
+  'roster.title': 'Pengurusan Senarai Nama',
+  'roster.subtitle': 'Tambah, kemas kini atau nyahaktif murid dan guru. Rekod lama tidak terjejas.',
+  'roster.pupils': 'Murid',
+  'roster.teachers': 'Guru',
+  'roster.migrationTitle': 'Laporan Migrasi ID Murid',
+  'roster.migrationBody': '{count} rekod dikemas kini pada {date}. Rekod berikut mengandungi ID murid lama yang tidak dapat dipadankan dengan sebarang nama:',
+  'roster.newPupil': 'Nama Murid Baharu',
+  'roster.pupilPlaceholder': 'Nama penuh murid',
+  'roster.addPupil': 'Tambah Murid',
+  'roster.yearBadge': 'TAHUN {year}',
+  'roster.activeCount': '{count} Aktif',
+  'roster.noPupils': 'Tiada murid.',
+  'roster.yearShort': 'T{year}',
+  'roster.newTeacher': 'Nama Guru Baharu',
+  'roster.teacherPlaceholder': 'Nama penuh guru',
+  'roster.addTeacher': 'Tambah Guru',
+  'roster.resetPin': 'Set Semula PIN',
+  'roster.issuePin': 'Keluarkan PIN',
+  'roster.pinTemporary': 'PIN Sementara',
+  'roster.needPupilName': 'Sila masukkan nama murid.',
+  'roster.duplicatePupil': 'Nama murid ini sudah wujud dalam senarai.',
+  'roster.pupilAdded': '{name} ditambah ke Tahun {year}.',
+  'roster.needTeacherName': 'Sila masukkan nama guru.',
+  'roster.duplicateTeacher': 'Nama guru ini sudah wujud dalam senarai.',
+  'roster.teacherAdded': '{name} ditambah ke senarai guru.',
+  'roster.emptyName': 'Nama tidak boleh kosong.',
+  'roster.renamed': 'Nama telah dikemas kini.',
+  'roster.moved': '{name} dipindahkan ke Tahun {year}.',
+  'roster.deactivated': '{name} dinyahaktifkan. Rekod lama kekal.',
+  'roster.reactivated': '{name} diaktifkan semula.',
+  'roster.cannotDeactivateSelf': 'Anda tidak boleh menyahaktifkan akaun sendiri.',
+  'roster.needSupervisor': 'Sekurang-kurangnya seorang Penolong Kanan atau Guru Besar mesti aktif.',
+  'roster.roleChanged': 'Peranan {name} ditukar kepada {role}.',
+  'roster.confirmResetPin': 'Tetapkan semula PIN {name}? PIN lama tidak lagi boleh digunakan dan PIN sementara akan dikeluarkan.',
+  'roster.temporaryPinIssued': 'PIN sementara untuk {name}: {pin}. Berikan PIN ini kepada guru tersebut. Mereka perlu memilih PIN sendiri semasa log masuk seterusnya.',
+  'roster.pinReset': 'PIN {name} telah ditetapkan semula.',
+  // Subjects and timeslots
+  'catalogue.title': 'Subjek & Slot Masa',
+  'catalogue.subtitle': 'Tambah, namakan semula atau persarakan subjek dan slot masa program.',
+  'catalogue.subjects': 'Subjek',
+  'catalogue.timeslots': 'Slot Masa',
+  'catalogue.nounSubject': 'Subjek',
+  'catalogue.nounTimeslot': 'Slot masa',
+  'catalogue.newEntry': '{noun} Baharu',
+  'catalogue.addEntry': 'Tambah {noun}',
+  'catalogue.subjectPlaceholder': 'cth. Bahasa Melayu',
+  'catalogue.timeslotPlaceholder': 'cth. 08:00 - 10:00 am (Sabtu)',
+  'catalogue.retire': 'Persarakan',
+  'catalogue.needName': 'Sila masukkan nama {noun}.',
+  'catalogue.duplicate': '{noun} ini sudah wujud dalam senarai.',
+  'catalogue.added': '{name} ditambah.',
+  'catalogue.renamed': 'Nama telah dikemas kini. Rekod lama mengekalkan nama asal.',
+  'catalogue.needActive': 'Sekurang-kurangnya satu {noun} mesti aktif.',
+  'catalogue.retired': '{name} dipersarakan. Rekod lama kekal.',
+  'catalogue.reactivated': '{name} diaktifkan semula.',
+  // Pupil profile
+  'profile.heading': 'Profil Kehadiran Murid • Tahun {year}',
+  'profile.inactive': 'Tidak Aktif',
+  'profile.percentage': 'Peratus Hadir',
+  'profile.present': 'Hadir',
+  'profile.absenceStreak': 'Tidak Hadir Berturut',
+  'profile.longestStreak': 'Rekod Terpanjang',
+  'profile.noSessions': 'Tiada sesi yang melibatkan murid ini direkodkan.',
+  'profile.bySubject': 'Mengikut Subjek',
+  'profile.subjectLine': '{present} hadir • {missed} tidak • {percentage}%',
+  'profile.byMonth': 'Mengikut Bulan',
+  'profile.attended': '{count} hadir',
+  'profile.missed': '{count} tidak',
+  'profile.recent': 'Sesi Terkini',
+  // CSV import preview
+  'import.title': 'Semak Import CSV',
+  'import.newSessions': 'Sesi Baharu',
+  'import.duplicates': 'Pendua (Dilangkau)',
+  'import.errors': 'Ralat',
+  'import.existing': 'Sesi Sedia Ada',
+  'import.alreadyRecorded': 'sudah direkodkan oleh {teacher}',
+  'import.rejected': 'Baris Ditolak',
+  'import.confirm': 'Import {count} Sesi',
+  // Duplicate session
+  'duplicate.title': '⚠️ Sesi Ini Sudah Direkodkan',
+  'duplicate.existing': 'Rekod Sedia Ada',
+  'duplicate.incoming': 'Rekod Baharu',
+  'duplicate.savedAt': 'Disimpan {time}',
+  'duplicate.merge': 'Gabung',
+  'duplicate.replace': 'Ganti',
+  'duplicate.mergeHint': 'murid yang hadir dalam mana-mana rekod ditanda hadir.',
+  'duplicate.replaceHint': 'rekod sedia ada digantikan sepenuhnya dengan rekod baharu.',
+  'duplicate.notOwner': 'Rekod ini milik {teacher}. Hanya guru tersebut, Penolong Kanan atau Guru Besar boleh mengubahnya.',
+  // Backup and restore
+  'data.title': 'Sandaran & Pemulihan Data',
+  'data.subtitle': 'Semua data disimpan dalam peranti ini sahaja. Muat turun sandaran secara berkala.',
+  'data.downloadTitle': 'Muat Turun Sandaran',
+  'data.downloadSummary': '{reports} rekod sesi, {pupils} murid, {teachers} guru, {assessments} pentaksiran dan {letters} surat amaran, bersama tetapan aplikasi.',
+  'data.downloadButton': '💾 Muat Turun Fail Sandaran',
+  'data.restoreTitle': 'Pulihkan Daripada Fail',
+  'data.restoreHint': 'Rekod dalam sandaran akan ditambah atau menggantikan rekod dengan ID yang sama. Rekod lain dikekalkan.',
+  'data.chooseFile': '📂 Pilih Fail Sandaran',
+  'data.previewTitle': 'Pratonton Pemulihan',
+  'data.createdAt': 'dicipta {date}',
+  'data.added': 'Rekod Ditambah',
+  'data.overwritten': 'Rekod Ditulis Ganti',
+  'data.unchanged': 'Rekod Sama',
+  'data.roster': 'Senarai Nama',
+  'data.pupilChanges': '+{added} / ~{overwritten} murid',
+  'data.teacherChanges': '+{added} / ~{overwritten} guru',
+  'data.catalogueChanges': '+{subjects} subjek, +{timeslots} slot',
+  'data.timetableChanges': '+{count} kelas jadual',
+  'data.assessmentChanges': '+{added} / ~{overwritten} pentaksiran',
+  'data.letterChanges': '+{count} surat amaran dalam log',
+  'data.overwrittenLine': 'Ditulis ganti: {date} • {subject} • {timeslot} ({teacher})',
+  'data.settingsReplaced': 'Tetapan aplikasi akan digantikan dengan tetapan dalam sandaran.',
+  'data.confirmRestore': 'Teruskan Pemulihan',
+  'data.snapshotsTitle': 'Salinan Automatik',
+  'data.snapshotsHint': 'Salinan data diambil secara automatik sebelum sebarang tindakan memadam atau menulis ganti. {count} salinan terkini disimpan dalam peranti.',
+  'data.noSnapshots': 'Tiada salinan lagi.',
+  'data.snapshotRecords': '{count} rekod',
+  'data.snapshotSource': 'Salinan: {reason}',
+  'data.restore': 'Pulihkan',
+  'data.downloaded': 'Fail sandaran berjaya dimuat turun!',
+  'data.readFailed': 'Gagal membaca fail sandaran.',
+  // Assessments
+  'tab.assessments': 'Pentaksiran',
+  'assessmentKind.pre_test': 'Ujian Pra',
+  'assessmentKind.monthly_quiz': 'Kuiz Bulanan',
+  'assessmentKind.uasa_practice': 'Latihan UASA',
+  'assessments.title': 'Pentaksiran Gilap Permata',
+  'assessments.subtitle': 'Rekod markah ujian pra, kuiz bulanan dan latihan UASA bagi setiap murid mengikut subjek.',
+  'assessments.newTitle': 'Rekod Pentaksiran Baharu',
+  'assessments.editTitle': 'Ubah Pentaksiran',
+  'assessments.kind': 'Jenis',
+  'assessments.paperTitle': 'Tajuk',
+  'assessments.paperTitlePlaceholder': 'cth. Kuiz Mac',
+  'assessments.maxScore': 'Markah Penuh',
+  'assessments.targetYears': 'Tahun Sasaran',
+  'assessments.scores': 'Markah Murid',
+  'assessments.scoresHint': 'Biarkan kosong bagi murid yang tidak menduduki ujian.',
+  'assessments.noPupils': 'Tiada murid aktif dalam Tahun yang dipilih.',
+  'assessments.outOf': '/ {max}',
+  'assessments.save': 'Simpan Markah',
+  'assessments.saved': 'Markah {title} disimpan.',
+  'assessments.updated': 'Markah {title} dikemas kini.',
+  'assessments.deleted': '{title} dipadam.',
+  'assessments.confirmDelete': 'Padam {title} dan semua markahnya?',
+  'assessments.needDetails': 'Sila isi tajuk, subjek dan markah penuh.',
+  'assessments.needScores': 'Sila masukkan sekurang-kurangnya satu markah.',
+  'assessments.invalidScores': 'Markah mesti antara 0 dan {max}: {names}',
+  'assessments.savedList': 'Pentaksiran Direkod',
+  'assessments.none': 'Tiada pentaksiran direkod lagi.',
+  'assessments.summary': '{count} murid • purata {average}%',
+  'assessments.recordedBy': 'oleh {teacher}',
+  // Programme impact
+  'impact.heading': 'Impak Program Gilap Permata',
+  'impact.hint': 'Kehadiran setiap murid dalam subjek (sehingga ujian terkini) berbanding perubahan markah dari ujian pertama ke ujian terkini.',
+  'impact.empty': 'Rekod markah dalam tab Pentaksiran untuk melihat kaitan antara kehadiran dan pencapaian.',
+  'impact.savePdf': '📄 Simpan PDF Impak',
+  'impact.correlation': 'Korelasi kehadiran dengan peningkatan markah: r = {r} ({strength})',
+  'impact.correlationNone': 'Korelasi belum dapat dikira: perlukan sekurang-kurangnya 3 murid dengan dua ujian atau lebih.',
+  'impact.strength.strong': 'kuat',
+  'impact.strength.moderate': 'sederhana',
+  'impact.strength.weak': 'lemah',
+  'impact.band': 'Kehadiran',
+  'impact.bandRange': '{min}% – {max}%',
+  'impact.pupils': 'Murid',
+  'impact.averageLatest': 'Purata Markah Terkini',
+  'impact.averageGain': 'Purata Peningkatan',
+  'impact.attendance': 'Kehadiran',
+  'impact.firstScore': 'Markah Pertama',
+  'impact.latestScore': 'Markah Terkini',
+  'impact.gain': 'Perubahan',
+  'impact.papers': '{count} ujian',
+  'impact.pdfSubtitle': 'Kehadiran berbanding pencapaian bagi {subjects} subjek',
+  // Warning letters
+  'tab.letters': 'Surat Amaran',
+  'letters.title': 'Surat Amaran Ketidakhadiran',
+  'letters.subtitle': 'Ketidakhadiran tanpa sebab (Tidak Hadir) bagi tahun {year}. Sakit dan Cuti Bersebab tidak dikira.',
+  'letters.dueOnly': 'Perlu surat sahaja ({count})',
+  'letters.downloadMessages': 'Muat Turun Mesej ({count})',
+  'letters.messagesDownloaded': '{count} mesej penjaga dimuat turun.',
+  'letters.thresholdsTitle': 'Had Surat Amaran',
+  'letters.thresholdsHint': 'Bilangan ketidakhadiran tanpa sebab dalam setahun sebelum setiap surat perlu dikeluarkan.',
+  'letters.thresholdsInvalid': 'Had mesti nombor bulat, sekurang-kurangnya 1, dan meningkat dari Surat 1 ke Surat 3.',
+  'letters.thresholdsSaved': 'Had Surat Amaran disimpan.',
+  'letters.thresholdLine': 'Surat {level}: {count} kali',
+  'letters.levelShort': 'Surat {level}',
+  'letters.noLetter': 'Belum ada surat',
+  'letters.noGuardian': 'Tiada maklumat penjaga. Kemas kini di tab Senarai Nama.',
+  'letters.absences': '{count} tidak hadir',
+  'letters.message': 'Mesej',
+  'letters.whatsApp': 'WhatsApp',
+  'letters.issue': 'Keluarkan Surat {level}',
+  'letters.confirmIssue': 'Keluarkan Surat Amaran {level} untuk {name}? Surat ini akan direkodkan dalam log.',
+  'letters.confirmNoGuardian': 'Nama penjaga {name} belum direkodkan. Surat akan dialamatkan kepada "Ibu Bapa/Penjaga". Teruskan?',
+  'letters.log': 'Surat Dikeluarkan',
+  'letters.issuedBy': '{date} oleh {teacher} ({count} tidak hadir)',
+  'letters.reprint': 'Cetak Semula',
+  'letters.confirmDelete': 'Padam {reference} daripada log? Salinan automatik akan disimpan di tab Data.',
+  'letters.deleted': '{reference} dipadam daripada log.',
+  'letters.none': 'Tiada murid tidak hadir tanpa sebab pada tahun {year}.',
+  'letters.noneDue': 'Tiada surat perlu dikeluarkan buat masa ini.',
+  'letters.day': 'Hari',
+  'roster.guardian': 'Penjaga',
+  'roster.guardianName': 'Nama ibu bapa/penjaga',
+  'roster.guardianPhone': 'No. telefon',
+  'roster.noGuardian': 'Tiada maklumat penjaga',
+  'roster.invalidPhone': 'Nombor telefon tidak sah. Gunakan digit sahaja, cth. 012-345 6789.',
+  'roster.guardianSaved': 'Maklumat penjaga {name} dikemas kini.',
+  // School year rollover
+  'roster.rolloverTitle': 'Tahun Baru',
+  'roster.rolloverHint': 'Naikkan semua murid aktif satu Tahun pada awal tahun persekolahan. Murid Tahun {final} direkodkan sebagai tamat sekolah.',
+  'roster.rolloverLast': 'Tahun akademik semasa: {year}, bermula {date}.',
+  'roster.rolloverOpen': 'Mulakan Tahun Baru',
+  'roster.rolloverStart': 'Tarikh Mula Sesi',
+  'roster.rolloverSummary': 'Tahun akademik {year}: {promoted} murid naik Tahun, {graduated} murid tamat sekolah.',
+  'roster.rolloverGraduates': 'Tamat sekolah {year}:',
+  'roster.rolloverNote': 'Rekod lama kekal dianalisis mengikut Tahun murid pada tarikh sesi. Salinan automatik akan disimpan di tab Data.',
+  'roster.rolloverConfirm': 'Naikkan Tahun untuk {year}',
+  'roster.confirmRollover': 'Mulakan tahun akademik {year}? {promoted} murid akan naik Tahun dan {graduated} murid Tahun 6 akan diarkibkan sebagai tamat sekolah.',
+  'roster.rolloverDone': 'Tahun Baru {year} telah pun dilaksanakan.',
+  'roster.graduated': 'Tamat {year}',
+  'notify.newSchoolYear': 'Tahun akademik {year} bermula. Murid telah dinaikkan Tahun.',
+  'analytics.academicYear': 'Tahun Akademik',
+  'analytics.allAcademicYears': 'Semua',
+  // History filters
+  'history.searchTeacher': 'Cari Guru',
+  'history.searchPlaceholder': 'Nama guru...',
+  'history.from': 'Dari',
+  'history.to': 'Hingga',
+  'history.any': 'Semua',
+  'history.resultCount': '{count} daripada {total} rekod',
+  'history.resetFilters': 'Set Semula Tapisan',
+  'history.sortBy': 'Susun',
+  'history.sort.date_desc': 'Tarikh (terkini dahulu)',
+  'history.sort.date_asc': 'Tarikh (terawal dahulu)',
+  'history.sort.subject': 'Subjek (A-Z)',
+  'history.sort.teacher': 'Guru (A-Z)',
+  'history.sort.attendance': 'Kehadiran (terendah dahulu)',
+  'history.noMatch': 'Tiada rekod sepadan dengan tapisan ini.',
+  'history.select': 'Pilih rekod',
+  'history.selectAll': 'Pilih Semua ({count})',
+  'history.selectedCount': '{count} dipilih',
+  'history.clearSelection': 'Nyahpilih',
+  'history.exportSelected': '📤 Eksport Pilihan',
+  'history.deleteSelected': 'Padam Pilihan',
+  'history.page': 'Halaman {page} / {count}',
+  'history.prev': '← Sebelum',
+  'history.next': 'Seterusnya →',
+  'confirm.deleteSelected': 'Padam {count} rekod terpilih? Salinan automatik akan disimpan di tab Data.',
+  'notify.deletedSelected': '{count} rekod telah dipadam daripada sejarah.',
+  // Pull from Google Sheets
+  'history.pull': '⬇️ Tarik dari Sheets',
+  'history.pulling': 'Menarik...',
+  'pull.title': 'Tarik Rekod dari Google Sheets',
+  'pull.subtitle': 'Sesi yang disimpan oleh peranti lain akan digabungkan ke dalam sejarah peranti ini.',
+  'pull.added': 'Rekod Baharu',
+  'pull.updated': 'Dikemas Kini',
+  'pull.unchanged': 'Tiada Perubahan',
+  'pull.conflicts': 'Konflik',
+  'pull.removed': '{count} rekod telah dipadam di peranti lain dan akan dibuang daripada sejarah ini.',
+  'pull.unknownPupils': '{count} murid dalam rekod ini tiada dalam Senarai Nama peranti ini. Pulihkan sandaran dari peranti asal untuk memaparkan nama mereka.',
+  'pull.resolve': 'Selesaikan Konflik',
+  'pull.resolveHint': 'Rekod ini telah diubah di Sheets sementara peranti ini masih ada perubahan yang belum dihantar. Pilih salinan yang hendak disimpan.',
+  'pull.keepLocal': 'Salinan Peranti Ini',
+  'pull.useRemote': 'Salinan Google Sheets',
+  'pull.changedAt': 'Diubah {time}',
+  'pull.neverEdited': 'Belum pernah disunting',
+  'pull.lastEditBy': 'Suntingan terakhir: {name}',
+  'pull.confirm': 'Gabungkan ke Sejarah',
+  'notify.pullOffline': 'Tiada sambungan internet. Cuba tarik rekod apabila dalam talian.',
+  'notify.pullFailed': 'Gagal menarik rekod dari Google Sheets: {error}',
+  'notify.pullUpToDate': 'Sejarah sudah terkini dengan Google Sheets.',
+  'notify.pulled': '{added} rekod baharu, {updated} dikemas kini dan {removed} dibuang mengikut Google Sheets.'
+};
+
+export type MessageKey = keyof typeof ms;
+
+const en: Record<MessageKey, string> = {
+  // Shared
+  'common.teacher': 'Teacher',
+  'common.subject': 'Subject',
+  'common.timeslot': 'Timeslot',
+  'common.date': 'Date',
+  'common.year': 'Year {year}',
+  'common.yearLabel': 'Year',
+  'common.none': 'None',
+  'common.noData': 'No data.',
+  'common.view': 'View',
+  'common.delete': 'Delete',
+  'common.remove': 'Remove',
+  'common.edit': 'Edit',
+  'common.save': 'Save',
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.deactivate': 'Deactivate',
+  'common.activate': 'Activate',
+  'common.showInactive': 'Show inactive',
+  'common.unknownTeacher': 'Unknown teacher',
+  'common.presentOf': '{present} / {total} Present',
+  // Attendance statuses, roles and weekdays
+  'status.hadir': 'Present',
+  'status.tidak_hadir': 'Absent',
+  'status.lewat': 'Late',
+  'status.sakit': 'Sick',
+  'status.cuti_bersebab': 'Excused',
+  'role.guru': 'Teacher',
+  'role.penolong_kanan': 'Senior Assistant',
+  'role.guru_besar': 'Headteacher',
+  'weekday.0': 'Sunday',
+  'weekday.1': 'Monday',
+  'weekday.2': 'Tuesday',
+  'weekday.3': 'Wednesday',
+  'weekday.4': 'Thursday',
+  'weekday.5': 'Friday',
+  'weekday.6': 'Saturday',
+  // Header and navigation
+  'header.subtitle': 'Attendance Dashboard • Kelas Gilap Permata',
+  'header.signOut': 'Sign Out',
+  'header.onlineHint': 'Records are sent to Google Sheets automatically',
+  'header.offlineHint': 'Records are kept on this device and sent when back online',
+  'header.sending': 'Sending...',
+  'header.online': 'Online',
+  'header.offline': 'Offline',
+  'header.unsent': '{count} not sent',
+  'header.install': '📲 Install App',
+  'header.language': 'Language',
+  'tab.record': 'Record',
+  'tab.preview': 'Preview',
+  'tab.history': 'History',
+  'tab.analytics': 'Analytics',
+  'tab.timetable': 'Timetable',
+  'tab.roster': 'Roster',
+  'tab.data': 'Data',
+  // Notifications
+  'notify.unmappedPupils': '{count} older records contain pupils that could not be matched. See the Roster tab.',
+  'notify.storageOpenFailed': 'Could not open device storage. Records will not be saved.',
+  'notify.storageSaveFailed': 'Could not save records to device storage.',
+  'notify.storage.blocked': 'Close other tabs running this app so the storage update can continue.',
+  'notify.storage.replaced': 'A newer version of the app was opened in another tab. Reload this page before continuing.',
+  'notify.online': 'Back online.',
+  'notify.offline': 'Offline. Records are still saved on this device and sent later.',
+  'notify.offlineReady': 'The app can now be opened without internet.',
+  'notify.syncSent': 'Sent to Google Sheets! ({count} records)',
+  'notify.syncFailed': 'Could not save {count} records to the cloud. Will retry automatically.',
+  'notify.yearAllPresent': 'All Year {year} pupils marked present.',
+  'notify.yearReset': 'Year {year} attendance has been reset.',
+  'notify.merged': 'Record merged with the existing record.',
+  'notify.replaced': 'The existing record has been replaced.',
+  'notify.selectSession': 'Please choose a Teacher, Subject and Timeslot.',
+  'notify.selectYear': 'Please choose at least one target Year.',
+  'notify.ownRecordsOnly': 'You can only edit your own records.',
+  'notify.sessionClash': 'The {subject} session on {date} ({timeslot}) was already recorded by {teacher}.',
+  'notify.updatedAndSubmitted': 'Record updated and submitted for review.',
+  'notify.updated': 'Record updated.',
+  'notify.offlineUpdateQueued': 'No internet connection. The update will be sent when the device is back online.',
+  'notify.noChanges': 'No changes to save.',
+  'notify.savedAndSubmitted': 'Record saved and submitted for review.',
+  'notify.draftSaved': 'Draft saved locally.',
+  'notify.noScriptUrl': 'No Google Script URL is set. Data is only kept on this device.',
+  'notify.offlineQueued': 'No internet connection. The record will be sent when the device is back online.',
+  'notify.pdfDownloaded': 'PDF downloaded!',
+  'notify.pdfFailed': 'Could not generate the PDF.',
+  'notify.prefilled': 'Form filled in from the timetable. Check before saving.',
+  'notify.welcome': 'Welcome, {name}.',
+  'notify.editEnded': 'Edit mode ended. Ready for a new session.',
+  'notify.nothingToExport': 'No records to export.',
+  'notify.exportDownloaded': 'Export file downloaded!',
+  'notify.csvReadFailed': 'Could not read the CSV file.',
+  'notify.imported': '{count} sessions imported.',
+  'notify.snapshotFull': 'Storage is full. The automatic copy could not be saved.',
+  'notify.restored': 'Restore complete: {count} records from the backup.',
+  'notify.submitted': 'Record submitted for review.',
+  'notify.reviewed': 'Record reviewed.',
+  'notify.approved': 'Record approved.',
+  'notify.returned': 'Record returned to the teacher for correction.',
+  'notify.deleted': 'Record deleted from history.',
+  'notify.historyCleared': 'All history records have been cleared.',
+  'confirm.deleteRecord': 'Permanently delete this record?',
+  'confirm.clearHistory': 'Delete ALL history records? An automatic copy will be kept in the Data tab.',
+  'prompt.returnReason': 'Reason for returning the {subject} record ({date}) to {teacher}:',
+  // Edit banner
+  'edit.mode': 'Edit Mode',
+  'edit.returnedBy': 'Returned by {name}',
+  'edit.updatesOriginal': 'Saving updates the original record instead of creating a new one.',
+  'edit.viewOnly': 'View only. This record belongs to {teacher}.',
+  'edit.auditTrail': 'Audit Trail ({count})',
+  'edit.end': 'End Editing / New Session',
+  // Record tab
+  'record.date': 'Session Date',
+  'record.noTeacher': 'No Teacher Selected',
+  'record.teacherHint': 'Records are saved under the signed-in teacher',
+  'record.chooseSubject': 'Choose Subject',
+  'record.chooseTimeslot': 'Choose Timeslot',
+  'record.targetYears': 'Target Years',
+  'record.all': 'All',
+  'record.reset': 'Reset',
+  'record.profile': 'Attendance profile',
+  'record.notePlaceholder': 'Note / reason (optional)',
+  'record.continue': 'Continue to Preview & Save',
+  'record.totalPresent': 'Total Present',
+  'record.preview': 'Preview Report',
+  // Preview tab
+  'preview.title': 'Session Preview',
+  'preview.noSubject': 'No Subject',
+  'preview.saving': 'Saving...',
+  'preview.updateAndSubmit': 'Update & Submit',
+  'preview.saveAndSubmit': 'Save & Submit',
+  'preview.updateRecord': 'Update Record',
+  'preview.saveDraft': 'Save Draft',
+  'preview.downloadPdf': 'Download PDF',
+  'preview.offline': '📴 Offline. Saving is still safe: records are kept on this device and sent to Google Sheets automatically once the connection returns.',
+  'preview.heading': 'Attendance Record',
+  'preview.reportDate': 'Report Date',
+  'preview.signedOn': 'Date: {date}',
+  'preview.totalPresent': 'Pupils Present',
+  // History tab and review
+  'history.title': 'Record History',
+  'history.subtitle': 'All attendance sessions that have been saved.',
+  'history.viewProfile': '👤 View Pupil Profile',
+  'history.inactive': '(inactive)',
+  'history.importCsv': '📥 Import CSV',
+  'history.export': '📤 Export',
+  'history.exportCsv': 'CSV (Attendance)',
+  'history.exportSummary': 'CSV (Summary)',
+  'history.exportXlsx': 'Excel (.xlsx)',
+  'history.clear': '🗑️ Clear History',
+  'history.empty': 'No records found. Record attendance in the first tab.',
+  'history.duplicate': 'Duplicate',
+  'history.presentLower': '{present} / {total} present',
+  'history.editedTimes': 'Edited {count} times',
+  'history.retry': 'Retry',
+  'history.viewEdit': 'View / Edit Record',
+  'history.viewRecord': 'View Record',
+  'review.queueTitle': '🛡️ Awaiting Your Action ({count})',
+  'review.queueHint': 'Review or approve records, or return them to the teacher with a comment.',
+  'review.reviewedBy': 'Reviewed by {name}',
+  'review.approvedBy': 'Approved by {name}',
+  'review.return': 'Return',
+  'review.semak': 'Review',
+  'review.sahkan': 'Approve',
+  'review.submit': 'Submit',
+  'review.draft': 'Draft',
+  'review.submitted': 'Awaiting Review',
+  'review.disemak': 'Reviewed',
+  'review.disahkan': 'Approved',
+  'sync.pending': 'Waiting to Send',
+  'sync.sent': 'Sent',
+  'sync.failed': 'Send Failed',
+  'sync.unknown': 'Unconfirmed',
+  'sync.send': 'Send',
+  // Analytics tab
+  'analytics.chooseYear': 'Choose Year',
+  'analytics.chooseMonth': 'Choose Month',
+  'analytics.excludeExcused': 'Leave Sick & Excused out of the expected total',
+  'analytics.forceMalayPdf': 'Official PDFs always in Bahasa Melayu',
+  'analytics.savePdf': '💾 Save Analysis Report PDF',
+  'analytics.registerPdf': '📋 Monthly Attendance Register PDF',
+  'analytics.duplicatesTitle': '⚠️ Overlapping Records Found',
+  'analytics.duplicatesHint': '{count} sessions were recorded more than once and are counted twice in the analysis. Please check and delete the records that are not needed.',
+  'analytics.duplicateEntry': '{teacher} • {time} • {count} present',
+  'analytics.atRiskTitle': 'Pupils Needing Attention',
+  'analytics.atRiskHint': 'Active pupils absent for at least {count} sessions in a row. Please contact the parents.',
+  'analytics.absenceThreshold': 'Absence Threshold',
+  'analytics.noneAtRisk': '✅ No pupil has passed the absence threshold.',
+  'analytics.atRiskEntry': 'Year {year} • {streak} sessions in a row • {percentage}% present',
+  'analytics.heading': 'Subject Performance Analysis',
+  'analytics.monthlySubject': 'Monthly Subject Attendance',
+  'analytics.bySubject': 'Breakdown by Subject',
+  'analytics.monthly': 'Monthly',
+  'analytics.classesRecorded': '{count} Classes Recorded',
+  'analytics.yearlySubject': 'Yearly Subject Attendance',
+  'analytics.yearlySummary': 'Yearly Summary {year}',
+  'analytics.yearly': 'Yearly',
+  'analytics.yearlyOf': 'Yearly {year}',
+  'analytics.totalSessions': '{count} Sessions in Total',
+  'analytics.byYear': 'Attendance by Year',
+  'analytics.byYearHint': 'Based on the pupils targeted at each session',
+  'analytics.sessions': '{count} Sessions',
+  'analytics.yearlyAverage': 'Average Yearly Attendance Rate',
+  'analytics.overall': 'Overall',
+  // Signatures and PDF reports
+  'signature.preparedBy': 'Prepared by:',
+  'signature.reviewedBy': 'Reviewed by:',
+  'signature.approvedBy': 'Approved by:',
+  'signature.dutyTeacher': 'Teacher on Duty',
+  'signature.date': 'Date:',
+  'pdf.generatedOn': 'Generated on {date}',
+  'pdf.page': 'Page {page} / {total}',
+  'pdf.yearHeading': 'YEAR {year}',
+  'pdf.yearPresent': 'YEAR {year}  ({present} / {total} present)',
+  'pdf.number': 'No.',
+  'pdf.pupilName': 'Pupil Name',
+  'pdf.attendance': 'Attendance',
+  'pdf.notes': 'Notes',
+  'pdf.sessions': 'Sessions',
+  'pdf.present': 'Present',
+  'pdf.expected': 'Expected',
+  'pdf.percentage': 'Percentage',
+  'pdf.yearlyAverage': 'Average Yearly Attendance Rate: {percentage}%',
+  'pdf.notTargeted': '-  Not targeted at the session',
+  'pdf.noSessionsThisMonth': 'No sessions recorded this month.',
+  'pdf.registerTitle': 'Monthly Attendance Register',
+  'pdf.registerSubtitle': '{period} • {sessions} sessions • {pupils} pupils',
+  // Trends and term comparison
+  'trends.overall': 'Overall',
+  'trends.title': 'Attendance Trends',
+  'trends.hintWeekly': 'Attendance rate by week. Red lines fall by at least {threshold} percentage points in this range.',
+  'trends.hintMonthly': 'Attendance rate by month. Red lines fall by at least {threshold} percentage points in this range.',
+  'trends.from': 'From',
+  'trends.to': 'To',
+  'trends.preset3m': '3 Months',
+  'trends.preset6m': '6 Months',
+  'trends.presetYear': 'This Year',
+  'trends.presetAll': 'All',
+  'trends.weekly': 'Weekly',
+  'trends.monthly': 'Monthly',
+  'trends.bySubject': 'By Subject',
+  'trends.byYear': 'By Year',
+  'trends.declining': '↘ Attendance falling: {series}',
+  'trends.decliningHint': 'Change in percentage points, from the best-fit straight line across the date range.',
+  'trends.noData': 'No data in this date range.',
+  'terms.title': 'Term Comparison',
+  'terms.hint': 'Small figures show the change from the previous term.',
+  'terms.edit': 'Edit Term Dates',
+  'terms.done': 'Done',
+  'terms.namePlaceholder': 'Term Name',
+  'terms.newName': 'Term {number}',
+  'terms.add': '+ Add Term',
+  'terms.none': 'No terms set.',
+  'terms.confirmRemove': 'Remove {name}? Attendance records are not affected.',
+  'terms.invalid': 'Every term needs a name, and its start date must be before its end date.',
+  'terms.saved': 'Term dates saved.',
+  // Timetable
+  'timetable.title': 'Weekly Timetable',
+  'timetable.subtitle': 'Set the classes for each day. The Record form fills itself in when a teacher is chosen.',
+  'timetable.missingTitle': 'Unrecorded Sessions',
+  'timetable.missingHint': 'Timetabled classes with no attendance record up to yesterday.',
+  'timetable.lookbackBefore': 'Check the last',
+  'timetable.lookbackAfter': 'days',
+  'timetable.allRecorded': 'Every timetabled session has been recorded. 🎉',
+  'timetable.recordNow': 'Record Now',
+  'timetable.day': 'Day',
+  'timetable.chooseTimeslot': 'Choose Timeslot',
+  'timetable.chooseSubject': 'Choose Subject',
+  'timetable.chooseTeacher': 'Choose Teacher',
+  'timetable.targetYears': 'Target Years',
+  'timetable.add': 'Add to Timetable',
+  'timetable.empty': 'The timetable is empty.',
+  'timetable.needSlot': 'Please choose a timeslot, subject and teacher.',
+  'timetable.needYear': 'Please choose at least one Year.',
+  'timetable.clash': '{subject} is already timetabled on {day}, {timeslot} ({teacher}).',
+  'timetable.added': '{subject} added to the {day} timetable.',
+  'timetable.reassigned': 'Teacher for {subject} ({day}) changed.',
+  'timetable.confirmRemove': 'Remove {subject} on {day} from the timetable? Earlier records are not affected.',
+  'timetable.removed': 'Class removed from the timetable.',
+  // Sign-in
+  'signIn.teacherName': 'Teacher Name',
+  'signIn.chooseName': 'Choose Your Name',
+  'signIn.firstTime': 'First sign-in. Create a 4 to 6 digit PIN for this name.',
+  'signIn.newPin': 'New PIN',
+  'signIn.pin': 'PIN',
+  'signIn.confirmPin': 'Confirm PIN',
+  'signIn.createAndSignIn': 'Create PIN & Sign In',
+  'signIn.signIn': 'Sign In',
+  'signIn.forgotPin': 'Forgot your PIN? Ask the Senior Assistant or Headteacher to reset it.',
+  'signIn.needName': 'Please choose your name.',
+  'signIn.lockedOut': 'Too many attempts. Please wait 30 seconds.',
+  'signIn.pinFormat': 'The PIN must be 4 to 6 digits.',
+  'signIn.pinMismatch': 'The confirmation PIN does not match.',
+  'signIn.setup': 'First-time setup: the Headteacher or Senior Assistant must sign in and set a PIN first. After that, other teachers\' PINs are issued from the Roster tab.',
+  'signIn.awaitingPin': 'This name has no PIN yet. Ask the Senior Assistant or Headteacher to issue a temporary PIN.',
+  'signIn.temporaryPin': 'Temporary PIN',
+  'signIn.replaceTemporary': 'Temporary PIN accepted. Choose your own 4 to 6 digit PIN.',
+  'signIn.cryptoUnavailable': 'The PIN cannot be checked on this connection. Open the app over https or on localhost.',
+  'signIn.wrongPin': 'Wrong PIN. {remaining} attempts left.',
+  // Roster
+  'roster.title': 'Roster Management',
+  'roster.subtitle': 'Add, update or deactivate pupils and teachers. Earlier records are not affected.',
+  'roster.pupils': 'Pupils',
+  'roster.teachers': 'Teachers',
+  'roster.migrationTitle': 'Pupil ID Migration Report',
+  'roster.migrationBody': '{count} records updated on {date}. These records contain old pupil IDs that could not be matched to any name:',
+  'roster.newPupil': 'New Pupil Name',
+  'roster.pupilPlaceholder': 'Pupil full name',
+  'roster.addPupil': 'Add Pupil',
+  'roster.yearBadge': 'YEAR {year}',
+  'roster.activeCount': '{count} Active',
+  'roster.noPupils': 'No pupils.',
+  'roster.yearShort': 'Y{year}',
+  'roster.newTeacher': 'New Teacher Name',
+  'roster.teacherPlaceholder': 'Teacher full name',
+  'roster.addTeacher': 'Add Teacher',
+  'roster.resetPin': 'Reset PIN',
+  'roster.issuePin': 'Issue PIN',
+  'roster.pinTemporary': 'Temporary PIN',
+  'roster.needPupilName': 'Please enter the pupil\'s name.',
+  'roster.duplicatePupil': 'This pupil name is already on the roster.',
+  'roster.pupilAdded': '{name} added to Year {year}.',
+  'roster.needTeacherName': 'Please enter the teacher\'s name.',
+  'roster.duplicateTeacher': 'This teacher name is already on the roster.',
+  'roster.teacherAdded': '{name} added to the teacher list.',
+  'roster.emptyName': 'The name cannot be empty.',
+  'roster.renamed': 'Name updated.',
+  'roster.moved': '{name} moved to Year {year}.',
+  'roster.deactivated': '{name} deactivated. Earlier records are kept.',
+  'roster.reactivated': '{name} reactivated.',
+  'roster.cannotDeactivateSelf': 'You cannot deactivate your own account.',
+  'roster.needSupervisor': 'At least one Senior Assistant or Headteacher must stay active.',
+  'roster.roleChanged': '{name}\'s role changed to {role}.',
+  'roster.confirmResetPin': 'Reset {name}\'s PIN? The old PIN stops working and a temporary PIN is issued.',
+  'roster.temporaryPinIssued': 'Temporary PIN for {name}: {pin}. Give this PIN to the teacher. They will choose their own PIN at their next sign-in.',
+  'roster.pinReset': '{name}\'s PIN has been reset.',
+  // Subjects and timeslots
+  'catalogue.title': 'Subjects & Timeslots',
+  'catalogue.subtitle': 'Add, rename or retire the programme\'s subjects and timeslots.',
+  'catalogue.subjects': 'Subjects',
+  'catalogue.timeslots': 'Timeslots',
+  'catalogue.nounSubject': 'Subject',
+  'catalogue.nounTimeslot': 'Timeslot',
+  'catalogue.newEntry': 'New {noun}',
+  'catalogue.addEntry': 'Add {noun}',
+  'catalogue.subjectPlaceholder': 'e.g. Bahasa Melayu',
+  'catalogue.timeslotPlaceholder': 'e.g. 08:00 - 10:00 am (Saturday)',
+  'catalogue.retire': 'Retire',
+  'catalogue.needName': 'Please enter the {noun} name.',
+  'catalogue.duplicate': 'This {noun} is already on the list.',
+  'catalogue.added': '{name} added.',
+  'catalogue.renamed': 'Name updated. Earlier records keep the original name.',
+  'catalogue.needActive': 'At least one {noun} must stay active.',
+  'catalogue.retired': '{name} retired. Earlier records are kept.',
+  'catalogue.reactivated': '{name} reactivated.',
+  // Pupil profile
+  'profile.heading': 'Pupil Attendance Profile • Year {year}',
+  'profile.inactive': 'Inactive',
+  'profile.percentage': 'Attendance Rate',
+  'profile.present': 'Present',
+  'profile.absenceStreak': 'Consecutive Absences',
+  'profile.longestStreak': 'Longest Run',
+  'profile.noSessions': 'No sessions involving this pupil have been recorded.',
+  'profile.bySubject': 'By Subject',
+  'profile.subjectLine': '{present} present • {missed} missed • {percentage}%',
+  'profile.byMonth': 'By Month',
+  'profile.attended': '{count} present',
+  'profile.missed': '{count} missed',
+  'profile.recent': 'Recent Sessions',
+  // CSV import preview
+  'import.title': 'Review CSV Import',
+  'import.newSessions': 'New Sessions',
+  'import.duplicates': 'Duplicates (Skipped)',
+  'import.errors': 'Errors',
+  'import.existing': 'Existing Sessions',
+  'import.alreadyRecorded': 'already recorded by {teacher}',
+  'import.rejected': 'Rejected Rows',
+  'import.confirm': 'Import {count} Sessions',
+  // Duplicate session
+  'duplicate.title': '⚠️ This Session Is Already Recorded',
+  'duplicate.existing': 'Existing Record',
+  'duplicate.incoming': 'New Record',
+  'duplicate.savedAt': 'Saved {time}',
+  'duplicate.merge': 'Merge',
+  'duplicate.replace': 'Replace',
+  'duplicate.mergeHint': 'pupils present in either record are marked present.',
+  'duplicate.replaceHint': 'the existing record is replaced entirely by the new one.',
+  'duplicate.notOwner': 'This record belongs to {teacher}. Only that teacher, the Senior Assistant or the Headteacher can change it.',
+  // Backup and restore
+  'data.title': 'Data Backup & Restore',
+  'data.subtitle': 'All data is kept on this device only. Download a backup regularly.',
+  'data.downloadTitle': 'Download Backup',
+  'data.downloadSummary': '{reports} session records, {pupils} pupils, {teachers} teachers, {assessments} assessments and {letters} warning letters, with the app settings.',
+  'data.downloadButton': '💾 Download Backup File',
+  'data.restoreTitle': 'Restore From File',
+  'data.restoreHint': 'Records in the backup are added or replace records with the same ID. Other records are kept.',
+  'data.chooseFile': '📂 Choose Backup File',
+  'data.previewTitle': 'Restore Preview',
+  'data.createdAt': 'created {date}',
+  'data.added': 'Records Added',
+  'data.overwritten': 'Records Overwritten',
+  'data.unchanged': 'Records Unchanged',
+  'data.roster': 'Roster',
+  'data.pupilChanges': '+{added} / ~{overwritten} pupils',
+  'data.teacherChanges': '+{added} / ~{overwritten} teachers',
+  'data.catalogueChanges': '+{subjects} subjects, +{timeslots} timeslots',
+  'data.timetableChanges': '+{count} timetable classes',
+  'data.assessmentChanges': '+{added} / ~{overwritten} assessments',
+  'data.letterChanges': '+{count} warning letters in the log',
+  'data.overwrittenLine': 'Overwritten: {date} • {subject} • {timeslot} ({teacher})',
+  'data.settingsReplaced': 'The app settings will be replaced by the settings in the backup.',
+  'data.confirmRestore': 'Continue Restore',
+  'data.snapshotsTitle': 'Automatic Copies',
+  'data.snapshotsHint': 'A copy of the data is taken automatically before anything is deleted or overwritten. The {count} latest copies are kept on this device.',
+  'data.noSnapshots': 'No copies yet.',
+  'data.snapshotRecords': '{count} records',
+  'data.snapshotSource': 'Copy: {reason}',
+  'data.restore': 'Restore',
+  'data.downloaded': 'Backup file downloaded!',
+  'data.readFailed': 'Could not read the backup file.',
+  // Assessments
+  'tab.assessments': 'Assessments',
+  'assessmentKind.pre_test': 'Pre-test',
+  'assessmentKind.monthly_quiz': 'Monthly Quiz',
+  'assessmentKind.uasa_practice': 'UASA Practice',
+  'assessments.title': 'Gilap Permata Assessments',
+  'assessments.subtitle': 'Record pre-test, monthly quiz and UASA practice marks for each pupil by subject.',
+  'assessments.newTitle': 'Record New Assessment',
+  'assessments.editTitle': 'Edit Assessment',
+  'assessments.kind': 'Type',
+  'assessments.paperTitle': 'Title',
+  'assessments.paperTitlePlaceholder': 'e.g. March Quiz',
+  'assessments.maxScore': 'Full Marks',
+  'assessments.targetYears': 'Target Years',
+  'assessments.scores': 'Pupil Marks',
+  'assessments.scoresHint': 'Leave blank for pupils who did not sit the paper.',
+  'assessments.noPupils': 'No active pupils in the chosen Years.',
+  'assessments.outOf': '/ {max}',
+  'assessments.save': 'Save Marks',
+  'assessments.saved': 'Marks for {title} saved.',
+  'assessments.updated': 'Marks for {title} updated.',
+  'assessments.deleted': '{title} deleted.',
+  'assessments.confirmDelete': 'Delete {title} and all its marks?',
+  'assessments.needDetails': 'Please fill in the title, subject and full marks.',
+  'assessments.needScores': 'Please enter at least one mark.',
+  'assessments.invalidScores': 'Marks must be between 0 and {max}: {names}',
+  'assessments.savedList': 'Recorded Assessments',
+  'assessments.none': 'No assessments recorded yet.',
+  'assessments.summary': '{count} pupils • average {average}%',
+  'assessments.recordedBy': 'by {teacher}',
+  // Programme impact
+  'impact.heading': 'Gilap Permata Programme Impact',
+  'impact.hint': 'Each pupil\'s attendance in the subject (up to their latest paper) against the change in marks from their first paper to their latest.',
+  'impact.empty': 'Record marks in the Assessments tab to see how attendance relates to results.',
+  'impact.savePdf': '📄 Save Impact PDF',
+  'impact.correlation': 'Correlation between attendance and mark gain: r = {r} ({strength})',
+  'impact.correlationNone': 'Correlation not available yet: needs at least 3 pupils with two or more papers.',
+  'impact.strength.strong': 'strong',
+  'impact.strength.moderate': 'moderate',
+  'impact.strength.weak': 'weak',
+  'impact.band': 'Attendance',
+  'impact.bandRange': '{min}% – {max}%',
+  'impact.pupils': 'Pupils',
+  'impact.averageLatest': 'Average Latest Mark',
+  'impact.averageGain': 'Average Gain',
+  'impact.attendance': 'Attendance',
+  'impact.firstScore': 'First Mark',
+  'impact.latestScore': 'Latest Mark',
+  'impact.gain': 'Change',
+  'impact.papers': '{count} papers',
+  'impact.pdfSubtitle': 'Attendance against results for {subjects} subjects',
+  // Warning letters
+  'tab.letters': 'Warning Letters',
+  'letters.title': 'Absence Warning Letters',
+  'letters.subtitle': 'Absences without a reason (Tidak Hadir) for {year}. Sick and excused leave are not counted.',
+  'letters.dueOnly': 'Letter due only ({count})',
+  'letters.downloadMessages': 'Download Messages ({count})',
+  'letters.messagesDownloaded': '{count} guardian messages downloaded.',
+  'letters.thresholdsTitle': 'Warning Letter Thresholds',
+  'letters.thresholdsHint': 'Number of unexcused absences in a year before each letter is due.',
+  'letters.thresholdsInvalid': 'Thresholds must be whole numbers of at least 1, rising from Letter 1 to Letter 3.',
+  'letters.thresholdsSaved': 'Warning letter thresholds saved.',
+  'letters.thresholdLine': 'Letter {level}: {count} absences',
+  'letters.levelShort': 'Letter {level}',
+  'letters.noLetter': 'No letter yet',
+  'letters.noGuardian': 'No guardian details. Update them in the Roster tab.',
+  'letters.absences': '{count} absences',
+  'letters.message': 'Message',
+  'letters.whatsApp': 'WhatsApp',
+  'letters.issue': 'Issue Letter {level}',
+  'letters.confirmIssue': 'Issue Warning Letter {level} for {name}? The letter will be recorded in the log.',
+  'letters.confirmNoGuardian': 'No guardian name is recorded for {name}. The letter will be addressed to "Ibu Bapa/Penjaga". Continue?',
+  'letters.log': 'Letters Issued',
+  'letters.issuedBy': '{date} by {teacher} ({count} absences)',
+  'letters.reprint': 'Reprint',
+  'letters.confirmDelete': 'Delete {reference} from the log? An automatic copy will be kept in the Data tab.',
+  'letters.deleted': '{reference} deleted from the log.',
+  'letters.none': 'No pupil has missed a session without a reason in {year}.',
+  'letters.noneDue': 'No letters are due at the moment.',
+  'letters.day': 'Day',
+  'roster.guardian': 'Guardian',
+  'roster.guardianName': 'Parent/guardian name',
+  'roster.guardianPhone': 'Phone no.',
+  'roster.noGuardian': 'No guardian details',
+  'roster.invalidPhone': 'Invalid phone number. Use digits only, e.g. 012-345 6789.',
+  'roster.guardianSaved': 'Guardian details for {name} updated.',
+  // School year rollover
+  'roster.rolloverTitle': 'New School Year',
+  'roster.rolloverHint': 'Move every active pupil up one Year at the start of the school year. Year {final} pupils are recorded as having finished school.',
+  'roster.rolloverLast': 'Current academic year: {year}, started {date}.',
+  'roster.rolloverOpen': 'Start New School Year',
+  'roster.rolloverStart': 'Session Start Date',
+  'roster.rolloverSummary': 'Academic year {year}: {promoted} pupils move up, {graduated} pupils finish school.',
+  'roster.rolloverGraduates': 'Finished school in {year}:',
+  'roster.rolloverNote': 'Older records are still analysed by the Year pupils were in on the session date. An automatic copy will be kept in the Data tab.',
+  'roster.rolloverConfirm': 'Promote pupils for {year}',
+  'roster.confirmRollover': 'Start academic year {year}? {promoted} pupils will move up a Year and {graduated} Year 6 pupils will be archived as finished school.',
+  'roster.rolloverDone': 'The {year} rollover has already been done.',
+  'roster.graduated': 'Left {year}',
+  'notify.newSchoolYear': 'Academic year {year} has started. Pupils have moved up a Year.',
+  'analytics.academicYear': 'Academic Year',
+  'analytics.allAcademicYears': 'All',
+  // History filters
+  'history.searchTeacher': 'Search Teacher',
+  'history.searchPlaceholder': 'Teacher name...',
+  'history.from': 'From',
+  'history.to': 'To',
+  'history.any': 'All',
+  'history.resultCount': '{count} of {total} records',
+  'history.resetFilters': 'Reset Filters',
+  'history.sortBy': 'Sort',
+  'history.sort.date_desc': 'Date (newest first)',
+  'history.sort.date_asc': 'Date (oldest first)',
+  'history.sort.subject': 'Subject (A-Z)',
+  'history.sort.teacher': 'Teacher (A-Z)',
+  'history.sort.attendance': 'Attendance (lowest first)',
+  'history.noMatch': 'No records match these filters.',
+  'history.select': 'Select record',
+  'history.selectAll': 'Select All ({count})',
+  'history.selectedCount': '{count} selected',
+  'history.clearSelection': 'Clear Selection',
+  'history.exportSelected': '📤 Export Selected',
+  'history.deleteSelected': 'Delete Selected',
+  'history.page': 'Page {page} of {count}',
+  'history.prev': '← Previous',
+  'history.next': 'Next →',
+  'confirm.deleteSelected': 'Delete {count} selected records? An automatic copy will be kept in the Data tab.',
+  'notify.deletedSelected': '{count} records deleted from history.',
+  // Pull from Google Sheets
+  'history.pull': '⬇️ Pull from Sheets',
+  'history.pulling': 'Pulling...',
+  'pull.title': 'Pull Records from Google Sheets',
+  'pull.subtitle': 'Sessions saved on other devices will be merged into this device\'s history.',
+  'pull.added': 'New Records',
+  'pull.updated': 'Updated',
+  'pull.unchanged': 'Unchanged',
+  'pull.conflicts': 'Conflicts',
+  'pull.removed': '{count} records were deleted on another device and will be removed from this history.',
+  'pull.unknownPupils': '{count} pupils in these records are not in this device\'s roster. Restore a backup from the original device to show their names.',
+  'pull.resolve': 'Resolve Conflicts',
+  'pull.resolveHint': 'These records changed on the sheet while this device still has changes that were not sent. Choose which copy to keep.',
+  'pull.keepLocal': 'This Device\'s Copy',
+  'pull.useRemote': 'Google Sheets Copy',
+  'pull.changedAt': 'Changed {time}',
+  'pull.neverEdited': 'Never edited',
+  'pull.lastEditBy': 'Last edited by {name}',
+  'pull.confirm': 'Merge into History',
+  'notify.pullOffline': 'No internet connection. Try pulling records when online.',
+  'notify.pullFailed': 'Could not pull records from Google Sheets: {error}',
+  'notify.pullUpToDate': 'History is already up to date with Google Sheets.',
+  'notify.pulled': '{added} new, {updated} updated and {removed} removed records from Google Sheets.'
+};
+
+export const MESSAGES: Record<Language, Record<MessageKey, string>> = { ms, en };
@@ -0,0 +1,137 @@
+import { DEFAULT_PUPILS, DEFAULT_TEACHERS, LEGACY_PUPIL_IDS } from '../constants';
+import { AttendanceStatus, Pupil, PupilIdMigrationReport, SavedReport, Teacher, UnmappedRecord } from '../types';
+import { expectedPupilIdsOf, targetYearsOf } from './analytics';
+import { createPupilId } from './roster';
+import { createCatalogueId } from './catalogue';
+
+const LEGACY_ID_PATTERN = /^p-\d+$/;
+
+interface PupilIdMigrationResult {
+  pupils: Pupil[];
+  reports: SavedReport[];
+  report: PupilIdMigrationReport;
+}
+
+/**
+ * Replaces index-based pupil ids (`p-0`, `p-1`, ...) with stable ids, both in
+ * the roster and in every stored attendance map. Old ids are matched back to
+ * names through the roster saved on the device, falling back to the original
+ * RAW_PUPILS order. Ids that cannot be matched are left untouched and listed
+ * in the returned report.
+ */
+export const migrateLegacyPupilIds = (
+  storedPupils: Pupil[] | null,
+  reports: SavedReport[]
+): PupilIdMigrationResult => {
+  const legacyNames: Record<string, string> = { ...LEGACY_PUPIL_IDS };
+  const idMap: Record<string, string> = {};
+  let pupils: Pupil[];
+
+  if (storedPupils) {
+    const takenIds = storedPupils.filter(p => !LEGACY_ID_PATTERN.test(p.id)).map(p => p.id);
+    pupils = storedPupils.map(p => {
+      if (!LEGACY_ID_PATTERN.test(p.id)) return p;
+      const id = createPupilId(p.name, takenIds);
+      takenIds.push(id);
+      legacyNames[p.id] = p.name;
+      idMap[p.id] = id;
+      return { ...p, id };
+    });
+  } else {
+    pupils = DEFAULT_PUPILS;
+  }
+
+  const idByName = new Map(pupils.map(p => [p.name, p.id]));
+  const knownIds = new Set(pupils.map(p => p.id));
+  Object.entries(legacyNames).forEach(([legacyId, name]) => {
+    const id = idByName.get(name);
+    if (!idMap[legacyId] && id) idMap[legacyId] = id;
+  });
+
+  const unmapped: UnmappedRecord[] = [];
+  let reportsUpdated = 0;
+
+  const migratedReports = reports.map(r => {
+    const attendance: SavedReport['attendance'] = {};
+    const missing: string[] = [];
+    let changed = false;
+    Object.entries(r.attendance).forEach(([pupilId, status]) => {
+      if (idMap[pupilId]) {
+        attendance[idMap[pupilId]] = status;
+        changed = true;
+      } else {
+        if (!knownIds.has(pupilId)) missing.push(pupilId);
+        attendance[pupilId] = status;
+      }
+    });
+    if (missing.length > 0) {
+      unmapped.push({ reportId: r.id, date: r.date, subject: r.subject, pupilIds: missing });
+    }
+    if (!changed) return r;
+    reportsUpdated++;
+    return { ...r, attendance };
+  });
+
+  return {
+    pupils,
+    reports: migratedReports,
+    report: { migratedAt: new Date().toISOString(), reportsUpdated, unmapped }
+  };
+};
+
+/**
+ * Reports saved before attendance statuses stored true/false per pupil.
+ * true becomes Hadir and false Tidak Hadir; reports that already use statuses
+ * are returned as they are.
+ */
+export const upgradeAttendanceStatuses = (report: SavedReport): SavedReport => {
+  const entries = Object.entries(report.attendance as Record<string, AttendanceStatus | boolean>);
+  if (!entries.some(([, value]) => typeof value === 'boolean')) return report;
+  const attendance: SavedReport['attendance'] = {};
+  entries.forEach(([pupilId, value]) => {
+    attendance[pupilId] = value === true ? 'hadir' : value === false ? 'tidak_hadir' : value;
+  });
+  return { ...report, attendance };
+};
+
+/**
+ * Reports saved before subjects and timeslots were configurable only carry
+ * their labels. The ids given here are the ones DEFAULT_SUBJECTS and
+ * DEFAULT_TIMESLOTS derive from the same labels.
+ */
+export const upgradeSessionIds = (report: SavedReport): SavedReport => {
+  if (report.subjectId && report.timeslotId) return report;
+  return {
+    ...report,
+    subjectId: report.subjectId || createCatalogueId('s', report.subject, []),
+    timeslotId: report.timeslotId || createCatalogueId('ts', report.timeslot, [])
+  };
+};
+
+/**
+ * Reports saved before each pupil's Tahun was recorded on the session. Who was
+ * expected, and in which Tahun, is read from the roster as it stands, which is
+ * right until the first Tahun Baru rollover. Runs on load, on restore and just
+ * before a rollover, so no report is left to guess once pupils move up.
+ */
+export const upgradePupilYears = (report: SavedReport, pupils: Pupil[]): SavedReport => {
+  if (report.pupilYears && report.targetYears && report.expectedPupilIds) return report;
+  const expectedPupilIds = expectedPupilIdsOf(report, pupils);
+  const byId = new Map(pupils.map(p => [p.id, p]));
+  return {
+    ...report,
+    targetYears: targetYearsOf(report, pupils),
+    expectedPupilIds,
+    pupilYears: {
+      ...Object.fromEntries(expectedPupilIds.flatMap(id => byId.has(id) ? [[id, byId.get(id)!.year]] : [])),
+      ...report.pupilYears
+    }
+  };
+};
+
+/**
+ * Rosters saved before sign-in have no roles. Teachers from the initial roster
+ * get their default role back; anyone added later starts as a guru.
+ */
+export const upgradeTeacherRoles = (teachers: Teacher[]): Teacher[] =>
+  teachers.map(t => t.role ? t : { ...t, role: DEFAULT_TEACHERS.find(d => d.id === t.id)?.role || 'guru' });
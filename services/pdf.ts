@@ -0,0 +1,503 @@
+import { jsPDF } from 'jspdf';
+import autoTable, { RowInput } from 'jspdf-autotable';
+import { ATTENDANCE_STATUSES, APPROVER, PROGRAMME_NAME, REVIEWER, SCHOOL_LOCATION, SCHOOL_NAME } from '../constants';
+import { AttendanceRate, AttendanceStatus, MonthlyRegister, Pupil, ReviewStamp, SavedReport, SubjectImpact, SubjectStats, Teacher, WarningLetter, YearStats } from '../types';
+import { countPresent, isExcusedStatus, isPresentStatus, statusOf } from './attendance';
+import { correlationStrength } from './assessments';
+import { I18n, LONG_DATE, MALAY } from './i18n';
+import { acknowledgementText, letterAddressee, letterParagraphs, letterTitle, LEVEL_NAMES } from './letters';
+import { weekdayOf } from './timetable';
+
+const MARGIN = 15;
+const CONTENT_TOP = 40;
+const FOOTER_SPACE = 18;
+const SIGNATURE_HEIGHT = 42;
+const SECTION_MIN_HEIGHT = 20; // Heading, table head and one row
+const INDIGO: [number, number, number] = [67, 56, 202];
+const SLATE: [number, number, number] = [100, 116, 139];
+const EMERALD: [number, number, number] = [5, 150, 105];
+const ROSE: [number, number, number] = [225, 29, 72];
+const AMBER: [number, number, number] = [217, 119, 6];
+
+const statusColour = (status: AttendanceStatus) =>
+  isPresentStatus(status) ? (status === 'lewat' ? AMBER : EMERALD) : isExcusedStatus(status) ? SLATE : ROSE;
+
+export interface SignatureSlot {
+  label: string; // e.g. "Disediakan oleh:"
+  name: string;
+  role: string;
+  date?: string;
+}
+
+type PdfWithTable = jsPDF & { lastAutoTable: { finalY: number } };
+
+const createDocument = (orientation: 'p' | 'l' = 'p') => new jsPDF(orientation, 'mm', 'a4') as PdfWithTable;
+
+const tableDefaults = {
+  theme: 'grid' as const,
+  margin: { top: CONTENT_TOP, bottom: FOOTER_SPACE, left: MARGIN, right: MARGIN },
+  showHead: 'everyPage' as const,
+  styles: { font: 'helvetica', fontSize: 9, cellPadding: 2, textColor: [30, 41, 59] as [number, number, number] },
+  headStyles: { fillColor: INDIGO, textColor: 255, fontStyle: 'bold' as const }
+};
+
+// School header and page footer, drawn on every page once all content is laid out
+const drawPageFrames = (doc: jsPDF, title: string, subtitle: string, i18n: I18n) => {
+  const width = doc.internal.pageSize.getWidth();
+  const height = doc.internal.pageSize.getHeight();
+  const total = doc.getNumberOfPages();
+  const generated = i18n.formatDateTime(new Date().toISOString());
+  for (let page = 1; page <= total; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(15);
+    doc.setTextColor(...INDIGO);
+    doc.text(title.toUpperCase(), MARGIN, 18);
+    doc.setFontSize(10);
+    doc.setTextColor(30, 41, 59);
+    doc.text(`${SCHOOL_NAME} • ${PROGRAMME_NAME}`, MARGIN, 25);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(...SLATE);
+    doc.text(subtitle, MARGIN, 31);
+    doc.setDrawColor(...INDIGO);
+    doc.setLineWidth(0.8);
+    doc.line(MARGIN, 34, width - MARGIN, 34);
+
+    doc.setFontSize(8);
+    doc.text(i18n.t('pdf.generatedOn', { date: generated }), MARGIN, height - 8);
+    doc.text(i18n.t('pdf.page', { page, total }), width - MARGIN, height - 8, { align: 'right' });
+  }
+};
+
+// Signature block goes on the last page, moving to a fresh page if it does not fit; returns where the block ends
+const drawSignatures = (doc: PdfWithTable, startY: number, slots: SignatureSlot[], i18n: I18n) => {
+  const width = doc.internal.pageSize.getWidth();
+  const height = doc.internal.pageSize.getHeight();
+  let y = startY + 12;
+  if (y + SIGNATURE_HEIGHT > height - FOOTER_SPACE) {
+    doc.addPage();
+    y = CONTENT_TOP + 5;
+  }
+  const slotWidth = (width - MARGIN * 2) / slots.length;
+  slots.forEach((slot, index) => {
+    const x = MARGIN + slotWidth * index;
+    const lineEnd = x + slotWidth - 8;
+    doc.setFont('helvetica', 'italic');
+    doc.setFontSize(8);
+    doc.setTextColor(...SLATE);
+    doc.text(slot.label, x, y);
+    doc.setDrawColor(203, 213, 225);
+    doc.setLineWidth(0.3);
+    doc.line(x, y + 16, lineEnd, y + 16);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(8);
+    doc.setTextColor(30, 41, 59);
+    doc.text(doc.splitTextToSize(`(${slot.name})`, slotWidth - 8), x, y + 21);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7);
+    doc.setTextColor(...SLATE);
+    doc.text(doc.splitTextToSize(slot.role, slotWidth - 8), x, y + 29);
+    doc.text(slot.date ? `${i18n.t('signature.date')} ${slot.date}` : i18n.t('signature.date'), x, y + 37);
+  });
+  return y + SIGNATURE_HEIGHT;
+};
+
+export const defaultSignatures = (i18n: I18n, preparedBy?: string): SignatureSlot[] => [
+  ...(preparedBy ? [{ label: i18n.t('signature.preparedBy'), name: preparedBy, role: i18n.t('signature.dutyTeacher') }] : []),
+  { label: i18n.t('signature.reviewedBy'), name: REVIEWER.name, role: `${REVIEWER.role}, ${SCHOOL_LOCATION}` },
+  { label: i18n.t('signature.approvedBy'), name: APPROVER.name, role: `${APPROVER.role}, ${SCHOOL_LOCATION}` }
+];
+
+/**
+ * Signature slots for one session. Once a step of the review is done the slot
+ * shows who did it and when; until then it names the officer who is expected
+ * to sign, as on the paper form.
+ */
+export const reportSignatures = (preparedBy: string, report: SavedReport | null, teachers: Teacher[], i18n: I18n): SignatureSlot[] => {
+  const [reviewer, approver] = defaultSignatures(i18n);
+  const stampDate = (at: string) => i18n.formatDate(at, LONG_DATE);
+  const stamped = (slot: SignatureSlot, stamp?: ReviewStamp): SignatureSlot => {
+    if (!stamp) return slot;
+    const role = teachers.find(t => t.id === stamp.byId)?.role;
+    return { ...slot, name: stamp.byName, role: role ? `${i18n.roleLabel(role)}, ${SCHOOL_LOCATION}` : slot.role, date: stampDate(stamp.at) };
+  };
+  return [
+    { label: i18n.t('signature.preparedBy'), name: preparedBy, role: i18n.t('signature.dutyTeacher'), date: report?.submittedAt ? stampDate(report.submittedAt) : undefined },
+    stamped(reviewer, report?.reviewedBy),
+    stamped(approver, report?.approvedBy)
+  ];
+};
+
+export interface SessionPdfInput {
+  formattedDate: string;
+  teacherName: string;
+  subject: string;
+  timeslot: string;
+  years: number[];
+  pupils: Pupil[]; // Pupils expected at the session
+  attendance: SavedReport['attendance'];
+  notes: Record<string, string>;
+  signatures: SignatureSlot[];
+}
+
+export const buildSessionPdf = (input: SessionPdfInput, i18n: I18n): jsPDF => {
+  const { t } = i18n;
+  const doc = createDocument();
+  const present = countPresent(input.attendance, input.pupils.map(p => p.id));
+
+  autoTable(doc, {
+    ...tableDefaults,
+    startY: CONTENT_TOP,
+    theme: 'plain',
+    showHead: 'never',
+    styles: { ...tableDefaults.styles, fontSize: 10 },
+    columnStyles: { 0: { fontStyle: 'bold', cellWidth: 30, textColor: SLATE } },
+    body: [
+      [t('common.date'), input.formattedDate],
+      [t('common.teacher'), input.teacherName],
+      [t('common.subject'), input.subject],
+      [t('common.timeslot'), input.timeslot],
+      [t('record.totalPresent'), `${present} / ${input.pupils.length}`]
+    ]
+  });
+
+  const body: RowInput[] = [];
+  input.years.forEach(year => {
+    const yearPupils = input.pupils.filter(p => p.year === year);
+    if (yearPupils.length === 0) return;
+    const yearPresent = countPresent(input.attendance, yearPupils.map(p => p.id));
+    body.push([{
+      content: t('pdf.yearPresent', { year, present: yearPresent, total: yearPupils.length }),
+      colSpan: 4,
+      styles: { fillColor: [238, 242, 255], fontStyle: 'bold', textColor: INDIGO }
+    }]);
+    yearPupils.forEach((p, index) => {
+      const status = statusOf(input.attendance, p.id);
+      body.push([
+        String(index + 1),
+        p.name,
+        { content: i18n.statusLabel(status).toUpperCase(), styles: { fontStyle: 'bold', textColor: statusColour(status) } },
+        input.notes[p.id] || ''
+      ]);
+    });
+  });
+
+  autoTable(doc, {
+    ...tableDefaults,
+    startY: doc.lastAutoTable.finalY + 6,
+    head: [[t('pdf.number'), t('pdf.pupilName'), t('pdf.attendance'), t('pdf.notes')]],
+    body,
+    columnStyles: { 0: { cellWidth: 12, halign: 'center' }, 2: { cellWidth: 30, halign: 'center' }, 3: { cellWidth: 40, fontSize: 8 } }
+  });
+
+  drawSignatures(doc, doc.lastAutoTable.finalY, input.signatures, i18n);
+  drawPageFrames(doc, t('preview.heading'), `${input.subject} • ${input.formattedDate} • ${input.timeslot}`, i18n);
+  return doc;
+};
+
+const rateCells = (s: AttendanceRate) => [String(s.sessionCount), String(s.totalPresent), String(s.totalPossible), `${s.percentage}%`];
+
+export interface AnalyticsPdfInput {
+  periodLabel: string; // e.g. "Mac 2025"
+  year: number;
+  monthly: SubjectStats[];
+  yearly: SubjectStats[];
+  monthlyByYear: YearStats[];
+  yearlyByYear: YearStats[];
+  yearlyAverage: number;
+}
+
+export const buildAnalyticsPdf = (input: AnalyticsPdfInput, i18n: I18n): jsPDF => {
+  const { t } = i18n;
+  const doc = createDocument();
+  const head = [['', t('pdf.sessions'), t('pdf.present'), t('pdf.expected'), t('pdf.percentage')]];
+  const columnStyles = { 0: { fontStyle: 'bold' as const }, 1: { halign: 'center' as const }, 2: { halign: 'center' as const }, 3: { halign: 'center' as const }, 4: { halign: 'center' as const, fontStyle: 'bold' as const } };
+
+  const height = doc.internal.pageSize.getHeight();
+
+  // Moves to a fresh page when fewer than `needed` mm are left above the footer
+  const keepRoom = (y: number, needed: number) => {
+    if (y + needed <= height - FOOTER_SPACE) return y;
+    doc.addPage();
+    return CONTENT_TOP + 2;
+  };
+
+  const section = (title: string, rows: RowInput[], startY: number) => {
+    const top = keepRoom(startY, SECTION_MIN_HEIGHT);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(11);
+    doc.setTextColor(30, 41, 59);
+    doc.text(title, MARGIN, top);
+    autoTable(doc, { ...tableDefaults, startY: top + 3, head, body: rows, columnStyles });
+    return doc.lastAutoTable.finalY + 10;
+  };
+
+  let y = CONTENT_TOP + 2;
+  y = section(`${t('analytics.monthlySubject')} — ${input.periodLabel}`, input.monthly.map(s => [s.subject, ...rateCells(s)]), y);
+  y = section(`${t('analytics.yearlySubject')} — ${input.year}`, input.yearly.map(s => [s.subject, ...rateCells(s)]), y);
+  y = section(`${t('analytics.byYear')} — ${input.periodLabel}`, input.monthlyByYear.map(s => [t('common.year', { year: s.year }), ...rateCells(s)]), y);
+  y = section(`${t('analytics.byYear')} — ${input.year}`, input.yearlyByYear.map(s => [t('common.year', { year: s.year }), ...rateCells(s)]), y);
+
+  y = keepRoom(y, 6);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.setTextColor(...INDIGO);
+  doc.text(t('pdf.yearlyAverage', { percentage: input.yearlyAverage }), MARGIN, y);
+
+  drawSignatures(doc, y, defaultSignatures(i18n), i18n);
+  drawPageFrames(doc, t('analytics.heading'), `${SCHOOL_NAME} • ${input.periodLabel}`, i18n);
+  return doc;
+};
+
+// Helvetica has no tick or cross glyphs, so register marks are drawn in ZapfDingbats
+const CHECK_GLYPH = '4';
+const CROSS_GLYPH = '8';
+
+// Hadir and Tidak Hadir get a tick or cross; other statuses print their letter code
+const drawMark = (doc: jsPDF, status: AttendanceStatus, x: number, y: number) => {
+  doc.setTextColor(...statusColour(status));
+  if (status === 'hadir' || status === 'tidak_hadir') {
+    doc.setFont('ZapfDingbats', 'normal');
+    doc.setFontSize(7);
+    doc.text(status === 'hadir' ? CHECK_GLYPH : CROSS_GLYPH, x, y, { align: 'center', baseline: 'middle' });
+  } else {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(7);
+    doc.text(ATTENDANCE_STATUSES.find(s => s.value === status)!.code, x, y, { align: 'center', baseline: 'middle' });
+  }
+};
+
+// "Bahasa Inggeris" -> "BI", "Sains" -> "SAI"
+const subjectCode = (subject: string) => {
+  const words = subject.split(' ');
+  return (words.length > 1 ? words.map(w => w[0]).join('') : subject.slice(0, 3)).toUpperCase();
+};
+
+export const buildMonthlyRegisterPdf = (periodLabel: string, register: MonthlyRegister, i18n: I18n): jsPDF => {
+  const { t } = i18n;
+  const doc = createDocument('l');
+  const { sessions, rows } = register;
+  const columnCount = sessions.length + 4;
+
+  const body: RowInput[] = [];
+  const rowMarks: (AttendanceStatus | null)[][] = [];
+  let currentYear = 0;
+  let number = 0;
+  rows.forEach(row => {
+    if (row.year !== currentYear) {
+      currentYear = row.year;
+      number = 0;
+      body.push([{ content: t('pdf.yearHeading', { year: currentYear }), colSpan: columnCount, styles: { fillColor: [238, 242, 255], fontStyle: 'bold', textColor: INDIGO } }]);
+      rowMarks.push([]);
+    }
+    body.push([
+      String(++number),
+      row.pupil.name,
+      ...row.marks.map(mark => mark === null ? '-' : ''),
+      `${row.totalPresent}/${row.totalPossible}`,
+      { content: `${row.percentage}%`, styles: { fontStyle: 'bold' } }
+    ]);
+    rowMarks.push(row.marks);
+  });
+
+  const sessionColumns: Record<number, { cellWidth: number; halign: 'center' }> = {};
+  sessions.forEach((_, i) => { sessionColumns[i + 2] = { cellWidth: 9, halign: 'center' }; });
+
+  autoTable(doc, {
+    ...tableDefaults,
+    startY: CONTENT_TOP,
+    styles: { ...tableDefaults.styles, fontSize: 7, cellPadding: 1.2 },
+    headStyles: { ...tableDefaults.headStyles, halign: 'center', fontSize: 6.5 },
+    horizontalPageBreak: true,
+    horizontalPageBreakRepeat: [0, 1],
+    head: [[t('pdf.number'), t('pdf.pupilName'), ...sessions.map(r => `${r.date.substring(8, 10)}\n${subjectCode(r.subject)}`), t('pdf.present'), '%']],
+    body: body.length > 0 ? body : [[{ content: t('pdf.noSessionsThisMonth'), colSpan: columnCount, styles: { halign: 'center', textColor: SLATE } }]],
+    columnStyles: {
+      0: { cellWidth: 8, halign: 'center' },
+      1: { cellWidth: 62 },
+      ...sessionColumns,
+      [sessions.length + 2]: { cellWidth: 14, halign: 'center' },
+      [sessions.length + 3]: { cellWidth: 12, halign: 'center' }
+    },
+    didDrawCell: (data) => {
+      if (data.section !== 'body') return;
+      const mark = rowMarks[data.row.index]?.[data.column.index - 2];
+      if (mark) drawMark(doc, mark, data.cell.x + data.cell.width / 2, data.cell.y + data.cell.height / 2);
+    }
+  });
+
+  // Legend: mark meanings and subject codes
+  let y = doc.lastAutoTable.finalY + 8;
+  if (y + 10 > doc.internal.pageSize.getHeight() - FOOTER_SPACE) {
+    doc.addPage();
+    y = CONTENT_TOP + 5;
+  }
+  let x = MARGIN;
+  ATTENDANCE_STATUSES.forEach(({ value }) => {
+    const label = i18n.statusLabel(value);
+    drawMark(doc, value, x + 1.5, y);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(...SLATE);
+    doc.text(label, x + 5, y, { baseline: 'middle' });
+    x += doc.getTextWidth(label) + 10;
+  });
+  doc.text(t('pdf.notTargeted'), x, y, { baseline: 'middle' });
+  const codes = Array.from(new Set(sessions.map(r => r.subject))).map(subject => `${subjectCode(subject)} = ${subject}`);
+  if (codes.length > 0) doc.text(codes.join('   '), x + 40, y, { baseline: 'middle' });
+
+  drawSignatures(doc, y, defaultSignatures(i18n), i18n);
+  drawPageFrames(doc, t('pdf.registerTitle'), t('pdf.registerSubtitle', { period: periodLabel, sessions: sessions.length, pupils: rows.length }), i18n);
+  return doc;
+};
+
+const signed = (value: number | null) => value === null ? '-' : `${value > 0 ? '+' : ''}${value}`;
+
+// One section per subject: attendance bands first, then every pupil who sat a paper
+export const buildImpactPdf = (impact: SubjectImpact[], i18n: I18n): jsPDF => {
+  const { t } = i18n;
+  const doc = createDocument();
+  const centred = { halign: 'center' as const };
+
+  let y = CONTENT_TOP + 2;
+  impact.forEach(subject => {
+    if (y + 40 > doc.internal.pageSize.getHeight() - FOOTER_SPACE) {
+      doc.addPage();
+      y = CONTENT_TOP + 2;
+    }
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(11);
+    doc.setTextColor(30, 41, 59);
+    doc.text(subject.subject, MARGIN, y);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.setTextColor(...SLATE);
+    doc.text(subject.correlation === null
+      ? t('impact.correlationNone')
+      : t('impact.correlation', { r: subject.correlation, strength: t(`impact.strength.${correlationStrength(subject.correlation)}`) }), MARGIN, y + 5);
+
+    autoTable(doc, {
+      ...tableDefaults,
+      startY: y + 8,
+      head: [[t('impact.band'), t('impact.pupils'), t('impact.averageLatest'), t('impact.averageGain')]],
+      body: subject.bands.map(b => [
+        t('impact.bandRange', { min: b.min, max: b.max }),
+        String(b.pupilCount),
+        b.averageLatest === null ? '-' : `${b.averageLatest}%`,
+        signed(b.averageGain)
+      ]),
+      columnStyles: { 0: { fontStyle: 'bold' }, 1: centred, 2: centred, 3: centred }
+    });
+
+    autoTable(doc, {
+      ...tableDefaults,
+      startY: doc.lastAutoTable.finalY + 4,
+      head: [[t('pdf.number'), t('pdf.pupilName'), t('common.yearLabel'), t('impact.attendance'), t('impact.firstScore'), t('impact.latestScore'), t('impact.gain')]],
+      body: subject.pupils.map((p, index) => [
+        String(index + 1),
+        p.pupil.name,
+        String(p.pupil.year),
+        p.attendance.sessionCount > 0 ? `${p.attendance.percentage}%` : '-',
+        `${p.firstScore}%`,
+        `${p.latestScore}%`,
+        { content: signed(p.gain), styles: { fontStyle: 'bold', textColor: p.gain === null ? SLATE : p.gain >= 0 ? EMERALD : ROSE } }
+      ]),
+      columnStyles: { 0: { cellWidth: 12, halign: 'center' }, 2: centred, 3: centred, 4: centred, 5: centred, 6: centred }
+    });
+    y = doc.lastAutoTable.finalY + 12;
+  });
+
+  drawSignatures(doc, y - 12, defaultSignatures(i18n), i18n);
+  drawPageFrames(doc, t('impact.heading'), `${SCHOOL_NAME} • ${t('impact.pdfSubtitle', { subjects: impact.length })}`, i18n);
+  return doc;
+};
+
+/**
+ * Surat Amaran to a pupil's parent or guardian, always in BM. The pupil and
+ * missed sessions come from the log entry, so a reprint matches what was sent. A
+ * tear-off acknowledgement slip goes at the bottom for the pupil to bring back.
+ */
+export const buildWarningLetterPdf = (letter: WarningLetter): jsPDF => {
+  const doc = createDocument();
+  const width = doc.internal.pageSize.getWidth();
+  const height = doc.internal.pageSize.getHeight();
+  const textWidth = width - MARGIN * 2;
+  const issuedOn = MALAY.formatDate(letter.issuedAt, LONG_DATE);
+  const { before, after } = letterParagraphs(letter);
+
+  const paragraphs = (lines: string[], startY: number) => {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.setTextColor(30, 41, 59);
+    let y = startY;
+    lines.forEach(line => {
+      const wrapped = doc.splitTextToSize(line, textWidth);
+      if (y + wrapped.length * 5 > height - FOOTER_SPACE) {
+        doc.addPage();
+        y = CONTENT_TOP + 5;
+      }
+      doc.text(wrapped, MARGIN, y);
+      y += wrapped.length * 5 + 3;
+    });
+    return y;
+  };
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.setTextColor(30, 41, 59);
+  doc.text(`Ruj. Kami: ${letter.reference}`, width - MARGIN, CONTENT_TOP + 2, { align: 'right' });
+  doc.text(`Tarikh: ${issuedOn}`, width - MARGIN, CONTENT_TOP + 7, { align: 'right' });
+  doc.text(letterAddressee(letter), MARGIN, CONTENT_TOP + 14);
+  doc.text('Tuan/Puan,', MARGIN, CONTENT_TOP + 34);
+  doc.setFont('helvetica', 'bold');
+  const title = doc.splitTextToSize(letterTitle(letter.level).toUpperCase(), textWidth);
+  doc.text(title, MARGIN, CONTENT_TOP + 42);
+
+  let y = paragraphs(before, CONTENT_TOP + 44 + title.length * 5);
+  autoTable(doc, {
+    ...tableDefaults,
+    startY: y,
+    head: [[MALAY.t('pdf.number'), MALAY.t('common.date'), MALAY.t('letters.day'), MALAY.t('common.subject'), MALAY.t('common.timeslot')]],
+    body: letter.absences.map((s, index) => [String(index + 1), MALAY.formatDate(s.date), MALAY.weekdayName(weekdayOf(s.date)), s.subject, s.timeslot]),
+    columnStyles: { 0: { cellWidth: 12, halign: 'center' } }
+  });
+  y = paragraphs(after, doc.lastAutoTable.finalY + 8);
+
+  // Closing and signatures stay together
+  if (y + 10 + SIGNATURE_HEIGHT > height - FOOTER_SPACE) {
+    doc.addPage();
+    y = CONTENT_TOP + 5;
+  }
+  doc.setFont('helvetica', 'bold');
+  doc.text('"BERKHIDMAT UNTUK NEGARA"', MARGIN, y + 2);
+  doc.setFont('helvetica', 'normal');
+  doc.text('Saya yang menjalankan amanah,', MARGIN, y + 9);
+  y = drawSignatures(doc, y, [
+    { label: '', name: APPROVER.name, role: `${APPROVER.role}, ${SCHOOL_LOCATION}` },
+    { label: '', name: letter.issuedByName, role: MALAY.t('signature.dutyTeacher') }
+  ], MALAY);
+
+  // Tear-off slip at the foot of the last page, or on a page of its own when there is no room
+  let slipY = height - FOOTER_SPACE - 48;
+  if (slipY < y + 4) {
+    doc.addPage();
+    slipY = CONTENT_TOP + 5;
+  }
+  doc.setDrawColor(...SLATE);
+  doc.setLineWidth(0.3);
+  doc.setLineDashPattern([2, 2], 0);
+  doc.line(MARGIN, slipY, width - MARGIN, slipY);
+  doc.setLineDashPattern([], 0);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10);
+  doc.setTextColor(30, 41, 59);
+  doc.text(`AKUAN PENERIMAAN SURAT AMARAN ${LEVEL_NAMES[letter.level].toUpperCase()}`, MARGIN, slipY + 8);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.text(doc.splitTextToSize(acknowledgementText(letter), textWidth), MARGIN, slipY + 15);
+  doc.text(['Tandatangan: ..............................', 'Nama: ..............................', 'No. Telefon: ..............................'], MARGIN, slipY + 30);
+  doc.text('Tarikh: ..............................', width / 2 + 10, slipY + 30);
+
+  drawPageFrames(doc, `Surat Amaran ${letter.level}`, `${SCHOOL_NAME} • Ruj. ${letter.reference}`, MALAY);
+  return doc;
+};
@@ -0,0 +1,26 @@
+// Chrome's install prompt event; not in the DOM typings yet
+export interface InstallPromptEvent extends Event {
+  prompt: () => Promise<void>;
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+}
+
+// Local dev servers are skipped so a cached module never hides an edit
+const isDevHost = () => ['localhost', '127.0.0.1'].includes(location.hostname);
+
+/**
+ * Registers public/sw.js. `onOfflineReady` fires once, the first time a
+ * service worker takes control of this device, i.e. when the app shell has
+ * just been cached and the app can now open without a connection.
+ */
+export const registerServiceWorker = async (onOfflineReady: () => void): Promise<void> => {
+  if (!('serviceWorker' in navigator) || isDevHost()) return;
+  const hadController = !!navigator.serviceWorker.controller;
+  try {
+    await navigator.serviceWorker.register('/sw.js');
+    if (!hadController) {
+      navigator.serviceWorker.addEventListener('controllerchange', onOfflineReady, { once: true });
+    }
+  } catch (e) {
+    console.error("Service worker registration failed", e);
+  }
+};
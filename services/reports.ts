@@ -0,0 +1,74 @@
+import { Pupil, SavedReport } from '../types';
+import { isPresentStatus, statusLabel, statusOf } from './attendance';
+
+const pupilName = (pupils: Pupil[], id: string) =>
+  pupils.find(p => p.id === id)?.name || id;
+
+// Human-readable list of what an edit changed, used for the audit trail
+export const describeChanges = (before: SavedReport, after: SavedReport, pupils: Pupil[]): string[] => {
+  const changes: string[] = [];
+  if (before.date !== after.date) changes.push(`Tarikh: ${before.date} → ${after.date}`);
+  if (before.teacherId !== after.teacherId) changes.push(`Guru: ${before.teacherName} → ${after.teacherName}`);
+  if (before.subjectId !== after.subjectId) changes.push(`Subjek: ${before.subject} → ${after.subject}`);
+  if (before.timeslotId !== after.timeslotId) changes.push(`Slot Masa: ${before.timeslot} → ${after.timeslot}`);
+
+  const beforeYears = (before.targetYears || []).join(', ');
+  const afterYears = (after.targetYears || []).join(', ');
+  if (beforeYears !== afterYears) changes.push(`Tahun Sasaran: ${beforeYears || '-'} → ${afterYears || '-'}`);
+
+  const ids = new Set([...Object.keys(before.attendance), ...Object.keys(after.attendance)]);
+  ids.forEach(id => {
+    const was = statusOf(before.attendance, id);
+    const now = statusOf(after.attendance, id);
+    if (was !== now) changes.push(`${pupilName(pupils, id)}: ${statusLabel(was)} → ${statusLabel(now)}`);
+  });
+
+  const noteIds = new Set([...Object.keys(before.notes || {}), ...Object.keys(after.notes || {})]);
+  noteIds.forEach(id => {
+    const was = before.notes?.[id] || '';
+    const now = after.notes?.[id] || '';
+    if (was !== now) changes.push(`Catatan ${pupilName(pupils, id)}: ${was || '-'} → ${now || '-'}`);
+  });
+  return changes;
+};
+
+type SessionFields = Pick<SavedReport, 'date' | 'subjectId' | 'timeslotId'>;
+
+// Two reports describe the same session when date, subject and timeslot match
+export const sessionKey = (report: SessionFields): string =>
+  `${report.date}|${report.subjectId}|${report.timeslotId}`;
+
+export const findDuplicateSession = (
+  reports: SavedReport[],
+  session: SessionFields,
+  excludeId?: string
+): SavedReport | undefined =>
+  reports.find(r => r.id !== excludeId && sessionKey(r) === sessionKey(session));
+
+// Groups of two or more stored reports for the same session, oldest first
+export const findDuplicateGroups = (reports: SavedReport[]): SavedReport[][] => {
+  const groups = new Map<string, SavedReport[]>();
+  reports.forEach(r => {
+    const key = sessionKey(r);
+    groups.set(key, [...(groups.get(key) || []), r]);
+  });
+  return Array.from(groups.values())
+    .filter(group => group.length > 1)
+    .map(group => [...group].sort((a, b) => a.id.localeCompare(b.id)));
+};
+
+// A pupil counts as present if either record marked them present; otherwise
+// a recorded reason (Sakit, Cuti Bersebab) wins over a plain Tidak Hadir
+export const mergeAttendance = (
+  a: SavedReport['attendance'],
+  b: SavedReport['attendance']
+): SavedReport['attendance'] => {
+  const merged: SavedReport['attendance'] = { ...a };
+  Object.entries(b).forEach(([id, status]) => {
+    const current = merged[id];
+    if (!current || current === 'tidak_hadir' || (isPresentStatus(status) && !isPresentStatus(current))) {
+      merged[id] = status;
+    }
+  });
+  return merged;
+};
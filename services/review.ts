@@ -0,0 +1,78 @@
+import { ReviewStamp, ReviewStatus, SavedReport, Teacher } from '../types';
+import { isSupervisor } from './auth';
+
+export type ReviewAction = 'semak' | 'sahkan';
+
+export const reviewStatusOf = (report: SavedReport): ReviewStatus => report.reviewStatus || 'submitted';
+
+const stampFor = (teacher: Teacher): ReviewStamp => ({ byId: teacher.id, byName: teacher.name, at: new Date().toISOString() });
+
+// The next step this teacher may take on a report: any supervisor can semak, only the Guru Besar can sahkan
+export const reviewActionFor = (teacher: Teacher | null | undefined, report: SavedReport): ReviewAction | null => {
+  if (!teacher || !isSupervisor(teacher)) return null;
+  const status = reviewStatusOf(report);
+  if (status === 'submitted') return 'semak';
+  if (status === 'disemak' && teacher.role === 'guru_besar') return 'sahkan';
+  return null;
+};
+
+export const canReturnReport = (teacher: Teacher | null | undefined, report: SavedReport): boolean =>
+  isSupervisor(teacher) && ['submitted', 'disemak'].includes(reviewStatusOf(report));
+
+// Reports waiting on this teacher, oldest session first
+export const reviewQueue = (reports: SavedReport[], teacher: Teacher | null | undefined): SavedReport[] =>
+  reports
+    .filter(r => reviewActionFor(teacher, r))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+
+export const submitPatch = (): Partial<SavedReport> => ({
+  reviewStatus: 'submitted',
+  submittedAt: new Date().toISOString(),
+  returnedBy: undefined,
+  returnComment: undefined
+});
+
+export const reviewPatch = (action: ReviewAction, teacher: Teacher): Partial<SavedReport> =>
+  action === 'semak'
+    ? { reviewStatus: 'disemak', reviewedBy: stampFor(teacher) }
+    : { reviewStatus: 'disahkan', approvedBy: stampFor(teacher) };
+
+export const returnPatch = (teacher: Teacher, comment: string): Partial<SavedReport> => ({
+  reviewStatus: 'draft',
+  reviewedBy: undefined,
+  approvedBy: undefined,
+  returnedBy: stampFor(teacher),
+  returnComment: comment
+});
+
+// A report whose content changes after review has to be reviewed again
+export const reopenPatch = (report: SavedReport): Partial<SavedReport> =>
+  report.reviewedBy || report.approvedBy
+    ? { reviewStatus: reviewStatusOf(report) === 'draft' ? 'draft' : 'submitted', reviewedBy: undefined, approvedBy: undefined }
+    : {};
+
+/**
+ * Review stamps on a report that came from outside this device, e.g. a pull
+ * from the sheet, are only kept when the stamp's teacher is on this roster
+ * with a role that may give it. Anyone able to post to the sheet could
+ * otherwise hand every device a forged Disahkan. Dropped stamps put the
+ * report back to the last step that still checks out.
+ */
+export const checkReviewStamps = (report: SavedReport, teachers: Teacher[]): SavedReport => {
+  const teacherOf = (stamp: ReviewStamp) => teachers.find(x => x.id === stamp.byId);
+  const reviewedOk = !report.reviewedBy || isSupervisor(teacherOf(report.reviewedBy));
+  const approvedOk = !report.approvedBy || teacherOf(report.approvedBy)?.role === 'guru_besar';
+  const returnedOk = !report.returnedBy || isSupervisor(teacherOf(report.returnedBy));
+  if (reviewedOk && approvedOk && returnedOk) return report;
+  const checked: SavedReport = {
+    ...report,
+    reviewedBy: reviewedOk ? report.reviewedBy : undefined,
+    approvedBy: approvedOk ? report.approvedBy : undefined,
+    ...(returnedOk ? {} : { returnedBy: undefined, returnComment: undefined })
+  };
+  const status = reviewStatusOf(report);
+  if (status === 'disahkan' && !checked.approvedBy) checked.reviewStatus = checked.reviewedBy ? 'disemak' : 'submitted';
+  if (status === 'disemak' && !checked.reviewedBy) checked.reviewStatus = 'submitted';
+  if (status === 'draft' && !checked.returnedBy) checked.reviewStatus = 'submitted';
+  return checked;
+};
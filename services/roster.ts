@@ -0,0 +1,34 @@
+import { Pupil, SavedReport, Teacher } from '../types';
+
+export const sortPupils = (pupils: Pupil[]): Pupil[] =>
+  [...pupils].sort((a, b) => {
+    if (a.year !== b.year) return a.year - b.year;
+    return a.name.localeCompare(b.name);
+  });
+
+export const sortTeachers = (teachers: Teacher[]): Teacher[] =>
+  [...teachers].sort((a, b) => a.name.localeCompare(b.name));
+
+export const createRosterId = (prefix: 'p' | 't' | 'j' | 'g' | 'a' | 'w'): string =>
+  `${prefix}-${Date.now().toString(36)}${Math.random().toString(36).substring(2, 6)}`;
+
+// Pupil ids are derived from the name once, at creation, and then persisted.
+// They never depend on list position, so adding or reordering pupils cannot
+// change the meaning of ids already stored in SavedReport.attendance.
+export const createPupilId = (name: string, takenIds: Iterable<string>): string => {
+  const taken = new Set(takenIds);
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'murid';
+  let id = `p-${slug}`;
+  for (let n = 2; taken.has(id); n++) {
+    id = `p-${slug}-${n}`;
+  }
+  return id;
+};
+
+export const normaliseName = (name: string): string =>
+  name.trim().replace(/\s+/g, ' ').toUpperCase();
+
+// Pupils shown on an attendance sheet: everyone active, plus anyone who has
+// since been deactivated but still appears in the loaded attendance record.
+export const pupilsForSheet = (pupils: Pupil[], attendance: SavedReport['attendance']): Pupil[] =>
+  pupils.filter(p => p.active || p.id in attendance);
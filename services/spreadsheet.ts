@@ -0,0 +1,270 @@
+import * as XLSX from 'xlsx';
+import { Catalogue, Pupil, SavedReport, Teacher } from '../types';
+import { YEARS } from '../constants';
+import { expectedPupilIdsOf, pupilYearAt } from './analytics';
+import { countPresent, isPresentStatus, parseStatus, statusLabel, statusOf } from './attendance';
+import { MALAY } from './i18n';
+import { findDuplicateSession, sessionKey } from './reports';
+
+// Column order of the attendance export. Import expects the same header row,
+// except that files exported before statuses existed may lack the optional columns.
+export const ATTENDANCE_COLUMNS = [
+  'report_id', 'tarikh', 'subjek', 'slot_masa', 'guru_id', 'guru', 'murid_id', 'murid', 'tahun', 'hadir', 'status', 'catatan',
+  'subjek_id', 'slot_masa_id'
+] as const;
+const OPTIONAL_COLUMNS: readonly string[] = ['status', 'catatan', 'subjek_id', 'slot_masa_id'];
+
+const SUMMARY_COLUMNS = ['bulan', 'subjek', 'sesi', 'hadir', 'dijangka', 'peratus'] as const;
+
+type Row = Record<string, string | number>;
+
+export const buildAttendanceRows = (reports: SavedReport[], pupils: Pupil[]): Row[] => {
+  const byId = new Map(pupils.map(p => [p.id, p]));
+  return [...reports]
+    .sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id))
+    .flatMap(r => expectedPupilIdsOf(r, pupils).map(pupilId => {
+      const pupil = byId.get(pupilId);
+      const status = statusOf(r.attendance, pupilId);
+      return {
+        report_id: r.id,
+        tarikh: r.date,
+        subjek: r.subject,
+        slot_masa: r.timeslot,
+        guru_id: r.teacherId,
+        guru: r.teacherName,
+        murid_id: pupilId,
+        murid: pupil?.name || '',
+        tahun: pupil ? pupilYearAt(r, pupil) : '',
+        hadir: isPresentStatus(status) ? 1 : 0,
+        status: statusLabel(status),
+        catatan: r.notes?.[pupilId] || '',
+        subjek_id: r.subjectId,
+        slot_masa_id: r.timeslotId
+      };
+    }));
+};
+
+export const buildSummaryRows = (reports: SavedReport[], pupils: Pupil[]): Row[] => {
+  const totals = new Map<string, { subject: string; sessions: number; present: number; expected: number }>();
+  [...reports].sort((a, b) => a.date.localeCompare(b.date)).forEach(r => {
+    const key = `${r.date.substring(0, 7)}|${r.subjectId}`;
+    const expected = expectedPupilIdsOf(r, pupils);
+    // Latest name wins when a subject was renamed mid-month
+    const entry = totals.get(key) || { subject: r.subject, sessions: 0, present: 0, expected: 0 };
+    entry.subject = r.subject;
+    entry.sessions++;
+    entry.expected += expected.length;
+    entry.present += countPresent(r.attendance, expected);
+    totals.set(key, entry);
+  });
+  return Array.from(totals.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, t]) => {
+      const [bulan] = key.split('|');
+      return {
+        bulan,
+        subjek: t.subject,
+        sesi: t.sessions,
+        hadir: t.present,
+        dijangka: t.expected,
+        peratus: t.expected > 0 ? Math.round((t.present / t.expected) * 100) : 0
+      };
+    });
+};
+
+// Spreadsheets run text starting with these as a formula; a leading ' keeps it text
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsv = (value: string | number) => {
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Undoes the formula guard so an exported file imports back unchanged
+const unescapeCsv = (text: string) => text.startsWith("'") && FORMULA_PREFIX.test(text.slice(1)) ? text.slice(1) : text;
+
+// The BOM makes Excel read the file as UTF-8 rather than the system code page
+export const toCsv = (rows: Row[], columns: readonly string[]): string =>
+  '\uFEFF' + [columns.join(','), ...rows.map(row => columns.map(c => escapeCsv(row[c] ?? '')).join(','))].join('\r\n');
+
+export const attendanceToCsv = (reports: SavedReport[], pupils: Pupil[]) =>
+  toCsv(buildAttendanceRows(reports, pupils), ATTENDANCE_COLUMNS);
+
+export const summaryToCsv = (reports: SavedReport[], pupils: Pupil[]) =>
+  toCsv(buildSummaryRows(reports, pupils), SUMMARY_COLUMNS);
+
+export const exportXlsx = (reports: SavedReport[], pupils: Pupil[], filename: string) => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.json_to_sheet(buildAttendanceRows(reports, pupils), { header: [...ATTENDANCE_COLUMNS] }),
+    'Kehadiran'
+  );
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.json_to_sheet(buildSummaryRows(reports, pupils), { header: [...SUMMARY_COLUMNS] }),
+    'Ringkasan'
+  );
+  XLSX.writeFile(workbook, filename);
+};
+
+// RFC 4180 parser: quoted fields, escaped quotes and newlines inside quotes
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else field += ch;
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+export interface ImportPreview {
+  reports: SavedReport[];
+  duplicates: { incoming: SavedReport; existing: SavedReport }[];
+  errors: string[];
+}
+
+/**
+ * Rebuilds SavedReports from an attendance CSV. Pupils are matched to the
+ * current roster by id, then by name; rows for unknown pupils are rejected.
+ * Sessions already in history (same report id, or same date/subject/timeslot)
+ * are returned separately as duplicates and are not imported.
+ */
+export const importAttendanceCsv = (
+  text: string,
+  existing: SavedReport[],
+  pupils: Pupil[],
+  teachers: Teacher[],
+  catalogue: Catalogue
+): ImportPreview => {
+  const errors: string[] = [];
+  const [header, ...body] = parseCsv(text);
+  if (!header) return { reports: [], duplicates: [], errors: ["Fail CSV kosong."] };
+
+  const columnIndex = Object.fromEntries(header.map((h, i) => [h.trim().toLowerCase(), i]));
+  const missing = ATTENDANCE_COLUMNS.filter(c => !OPTIONAL_COLUMNS.includes(c) && !(c in columnIndex));
+  if (missing.length > 0) {
+    return { reports: [], duplicates: [], errors: [`Lajur tiada dalam fail: ${missing.join(', ')}`] };
+  }
+
+  const pupilById = new Map(pupils.map(p => [p.id, p]));
+  const pupilByName = new Map(pupils.map(p => [p.name, p]));
+  const grouped = new Map<string, SavedReport>();
+
+  body.forEach((cells, index) => {
+    const line = index + 2;
+    const get = (col: typeof ATTENDANCE_COLUMNS[number]) => col in columnIndex ? unescapeCsv(cells[columnIndex[col]] || '').trim() : '';
+    const reportId = get('report_id');
+    const date = get('tarikh');
+    const subject = catalogue.subjects.find(s => s.id === get('subjek_id'))
+      || catalogue.subjects.find(s => s.name.toLowerCase() === get('subjek').toLowerCase());
+    const timeslot = catalogue.timeslots.find(t => t.id === get('slot_masa_id'))
+      || catalogue.timeslots.find(t => t.label.toLowerCase() === get('slot_masa').toLowerCase());
+
+    if (!reportId) {
+      errors.push(`Baris ${line}: report_id kosong.`);
+      return;
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime())) {
+      errors.push(`Baris ${line}: tarikh tidak sah "${date}".`);
+      return;
+    }
+    if (!subject) {
+      errors.push(`Baris ${line}: subjek tidak dikenali "${get('subjek')}".`);
+      return;
+    }
+    if (!timeslot) {
+      errors.push(`Baris ${line}: slot masa tidak dikenali "${get('slot_masa')}".`);
+      return;
+    }
+
+    const pupil = pupilById.get(get('murid_id')) || pupilByName.get(get('murid').toUpperCase());
+    if (!pupil) {
+      errors.push(`Baris ${line}: murid "${get('murid') || get('murid_id')}" tiada dalam senarai nama.`);
+      return;
+    }
+
+    // The status column, when filled in, is more specific than hadir 1/0
+    const hadir = get('hadir') === '1' || get('hadir').toLowerCase() === 'true';
+    const status = get('status') ? parseStatus(get('status')) : hadir ? 'hadir' : 'tidak_hadir';
+    if (!status) {
+      errors.push(`Baris ${line}: status kehadiran tidak dikenali "${get('status')}".`);
+      return;
+    }
+
+    let report = grouped.get(reportId);
+    if (!report) {
+      const teacher = teachers.find(t => t.id === get('guru_id')) || teachers.find(t => t.name === get('guru').toUpperCase());
+      report = {
+        id: reportId,
+        date,
+        // Imported sessions start over as drafts, like one saved in-app today
+        timestamp: MALAY.formatTime(new Date()),
+        teacherId: teacher?.id || get('guru_id'),
+        teacherName: teacher?.name || get('guru'),
+        // Keep the label the file was exported with, as for sessions saved in-app
+        subjectId: subject.id,
+        subject: get('subjek') || subject.name,
+        timeslotId: timeslot.id,
+        timeslot: get('slot_masa') || timeslot.label,
+        attendance: {},
+        totalPresent: 0,
+        targetYears: [],
+        expectedPupilIds: [],
+        pupilYears: {},
+        reviewStatus: 'draft'
+      };
+      grouped.set(reportId, report);
+    } else if (sessionKey(report) !== sessionKey({ date, subjectId: subject.id, timeslotId: timeslot.id })) {
+      errors.push(`Baris ${line}: maklumat sesi tidak sepadan dengan baris lain bagi report_id ${reportId}.`);
+      return;
+    }
+
+    report.attendance[pupil.id] = status;
+    if (get('catatan')) report.notes = { ...report.notes, [pupil.id]: get('catatan') };
+    // tahun is the pupil's Tahun at the session, which differs from the roster once pupils move up
+    const year = YEARS.includes(Number(get('tahun'))) ? Number(get('tahun')) : pupil.year;
+    if (!report.expectedPupilIds!.includes(pupil.id)) report.expectedPupilIds!.push(pupil.id);
+    report.pupilYears![pupil.id] = year;
+    if (!report.targetYears!.includes(year)) report.targetYears!.push(year);
+  });
+
+  const reports: SavedReport[] = [];
+  const duplicates: ImportPreview['duplicates'] = [];
+  grouped.forEach(report => {
+    report.targetYears!.sort((a, b) => a - b);
+    report.totalPresent = countPresent(report.attendance, report.expectedPupilIds!);
+    const clash = existing.find(r => r.id === report.id)
+      || findDuplicateSession(existing, report)
+      || findDuplicateSession(reports, report);
+    if (clash) duplicates.push({ incoming: report, existing: clash });
+    else reports.push(report);
+  });
+
+  return { reports, duplicates, errors };
+};
@@ -0,0 +1,198 @@
+import { SavedReport } from '../types';
+import { upgradeAttendanceStatuses, upgradeSessionIds } from './migrations';
+
+/**
+ * Local persistence backed by IndexedDB.
+ *
+ * Each entry in MIGRATIONS upgrades the database by exactly one version and
+ * runs inside the browser's versionchange transaction, so a device that skipped
+ * several releases applies every missing step in order. Never edit a step that
+ * has shipped; add a new one instead.
+ *
+ * Steps that rewrite stored reports use `upgradeReport`. All pending rewrites
+ * are applied in version order during a single pass over the store, since
+ * separate cursors in one transaction would overwrite each other's changes.
+ */
+
+const DB_NAME = 'sk_attendance';
+const REPORTS = 'reports';
+const KV = 'kv';
+
+// localStorage keys used before IndexedDB
+const LEGACY_KEYS: Record<string, string> = {
+  sk_roster_v1: 'roster',
+  sk_settings_v1: 'settings',
+  sk_pupil_id_migration_v1: 'pupilIdMigration',
+  sk_snapshots_v1: 'snapshots'
+};
+const LEGACY_HISTORY_KEY = 'sk_attendance_history_v2';
+
+export type StorageKey = 'roster' | 'catalogue' | 'timetable' | 'assessments' | 'warningLetters' | 'deletedReports' | 'settings' | 'pupilIdMigration' | 'snapshots';
+
+interface Migration {
+  version: number;
+  description: string;
+  upgrade?: (db: IDBDatabase, tx: IDBTransaction) => void;
+  upgradeReport?: (report: SavedReport) => SavedReport;
+}
+
+let importedLegacyData = false;
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create report and key-value stores',
+    upgrade: (db) => {
+      const reports = db.createObjectStore(REPORTS, { keyPath: 'id' });
+      reports.createIndex('date', 'date');
+      db.createObjectStore(KV);
+    }
+  },
+  {
+    version: 2,
+    description: 'Import history, roster and settings previously kept in localStorage',
+    upgrade: (_db, tx) => {
+      const reports = tx.objectStore(REPORTS);
+      const kv = tx.objectStore(KV);
+      try {
+        const history = JSON.parse(localStorage.getItem(LEGACY_HISTORY_KEY) || '[]');
+        if (Array.isArray(history)) history.forEach((r: SavedReport) => reports.put(r));
+      } catch (e) {
+        console.error("Failed to import legacy history", e);
+      }
+      Object.entries(LEGACY_KEYS).forEach(([legacyKey, key]) => {
+        const raw = localStorage.getItem(legacyKey);
+        if (raw === null) return;
+        try {
+          kv.put(JSON.parse(raw), key);
+        } catch (e) {
+          console.error(`Failed to import legacy ${legacyKey}`, e);
+        }
+      });
+      importedLegacyData = true;
+    }
+  },
+  {
+    version: 3,
+    description: 'Replace true/false attendance with Hadir / Tidak Hadir statuses',
+    upgradeReport: upgradeAttendanceStatuses
+  },
+  {
+    version: 4,
+    description: 'Give every report the id of its subject and timeslot',
+    upgradeReport: upgradeSessionIds
+  }
+];
+
+const rewriteReports = (tx: IDBTransaction, steps: ((report: SavedReport) => SavedReport)[]) => {
+  const request = tx.objectStore(REPORTS).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    const upgraded = steps.reduce((report, step) => step(report), cursor.value as SavedReport);
+    if (upgraded !== cursor.value) cursor.update(upgraded);
+    cursor.continue();
+  };
+};
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * 'blocked': an upgrade is waiting for another tab to close this database.
+ * 'replaced': another tab opened a newer version, so this tab must reload.
+ */
+export type StorageNotice = 'blocked' | 'replaced';
+
+let noticeHandler: (notice: StorageNotice) => void = () => {};
+
+export const onStorageNotice = (handler: (notice: StorageNotice) => void): void => {
+  noticeHandler = handler;
+};
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+      request.onupgradeneeded = (event) => {
+        const tx = request.transaction!;
+        const pending = MIGRATIONS.filter(m => m.version > event.oldVersion);
+        pending.forEach(m => m.upgrade?.(request.result, tx));
+        const reportSteps = pending.flatMap(m => m.upgradeReport ? [m.upgradeReport] : []);
+        if (reportSteps.length > 0) rewriteReports(tx, reportSteps);
+      };
+      request.onsuccess = () => {
+        // The upgrade transaction has committed, so the old copies can go
+        if (importedLegacyData) {
+          localStorage.removeItem(LEGACY_HISTORY_KEY);
+          Object.keys(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+        }
+        const db = request.result;
+        // Let a newer version in another tab upgrade instead of blocking it
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+          noticeHandler('replaced');
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      // The open stays pending and succeeds once the other tab lets go
+      request.onblocked = () => noticeHandler('blocked');
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const loadReports = async (): Promise<SavedReport[]> => {
+  const db = await openDb();
+  const reports: SavedReport[] = await promisify(db.transaction(REPORTS).objectStore(REPORTS).getAll());
+  // Newest first, matching the order the app has always kept in memory
+  return reports.sort((a, b) => b.date.localeCompare(a.date) || b.id.localeCompare(a.id));
+};
+
+/**
+ * Writes only what changed between two versions of the report list: reports
+ * whose object identity changed are put, reports that disappeared are deleted.
+ */
+export const persistReports = async (next: SavedReport[], previous: SavedReport[]): Promise<void> => {
+  const previousById = new Map(previous.map(r => [r.id, r]));
+  const nextIds = new Set(next.map(r => r.id));
+  const changed = next.filter(r => previousById.get(r.id) !== r);
+  const removed = previous.filter(r => !nextIds.has(r.id));
+  if (changed.length === 0 && removed.length === 0) return;
+
+  const db = await openDb();
+  const tx = db.transaction(REPORTS, 'readwrite');
+  const store = tx.objectStore(REPORTS);
+  changed.forEach(r => store.put(r));
+  removed.forEach(r => store.delete(r.id));
+  await transactionDone(tx);
+};
+
+export const getItem = async <T>(key: StorageKey): Promise<T | undefined> => {
+  const db = await openDb();
+  return promisify(db.transaction(KV).objectStore(KV).get(key));
+};
+
+export const setItem = async <T>(key: StorageKey, value: T): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(KV, 'readwrite');
+  tx.objectStore(KV).put(value, key);
+  await transactionDone(tx);
+};
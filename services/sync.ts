@@ -0,0 +1,249 @@
+import { DeletedReport, Pupil, SavedReport } from '../types';
+import { expectedPupilIdsOf, pupilYearAt } from './analytics';
+import { isPresentStatus, statusOf } from './attendance';
+
+// URL Google Apps Script yang telah di-deploy; VITE_GOOGLE_SCRIPT_URL in .env.local points it elsewhere,
+// e.g. at the mock server in scripts/mock-sheets-server.mjs
+export const GOOGLE_SCRIPT_URL = import.meta.env?.VITE_GOOGLE_SCRIPT_URL || "https://script.google.com/macros/s/AKfycbzcwYvFACKA0E08QH8P6Gqbb-P_azjiaF_DF0RIFIDd36HF2jtV6c8LhKF9PG0Pa_59Nw/exec";
+
+// Must match the SYNC_SECRET script property. It ships inside the app, so it keeps
+// out people who only found the URL, not anyone holding a copy of the app
+const SYNC_SECRET = import.meta.env?.VITE_SYNC_SECRET || '';
+
+// The Apps Script must answer every POST with JSON: { status: 'ok', id: <report id> }
+// or { status: 'error', message: string }. Anything else counts as not delivered.
+// Rows are keyed by report id: 'update' replaces the existing rows for that id
+// rather than appending, and an 'update' for an unknown id is stored as new.
+// Each pupilData entry carries isPresent for older sheets plus the full status
+// ('hadir', 'tidak_hadir', 'lewat', 'sakit', 'cuti_bersebab') and optional note.
+// Review state travels with the report (reviewStatus, reviewedBy, approvedBy),
+// so a review action is sent as an 'update'. The audit trail travels too, so
+// copies pulled onto other devices keep the edit history.
+// A deleted report is sent as { action: 'delete', id, deletedAt }; the sheet
+// drops its rows and remembers the id.
+// Every request carries the shared secret: as `secret` in a POST body and as
+// ?secret= on a GET. The script refuses requests without it.
+// A GET with ?action=list must answer { status: 'ok', reports: [...], deletedIds: [...] },
+// each report being the latest payload stored for that id. The full contract
+// and a reference script are in apps-script/Code.gs.
+interface SyncResponse {
+  status: 'ok' | 'error';
+  id?: string;
+  message?: string;
+  reports?: unknown[];
+  deletedIds?: unknown[];
+}
+
+const toPayload = (report: SavedReport, pupils: Pupil[]) => {
+  const { syncStatus, syncAttempts, lastSyncAt, lastSyncError, ...data } = report;
+  const pupilData = expectedPupilIdsOf(report, pupils)
+    .map(id => pupils.find(p => p.id === id))
+    .filter((p): p is Pupil => !!p)
+    .map(p => {
+      const status = statusOf(report.attendance, p.id);
+      return {
+        name: p.name,
+        year: pupilYearAt(report, p),
+        isPresent: isPresentStatus(status),
+        status,
+        note: report.notes?.[p.id] || ''
+      };
+    });
+  return { ...data, action: data.auditTrail?.length ? 'update' : 'insert', pupilData };
+};
+
+/**
+ * Posts one change and resolves only once the endpoint confirms it applied it
+ * to that report id. `text/plain` keeps the request "simple" so no CORS
+ * preflight is sent, which Apps Script cannot answer, while the response
+ * stays readable.
+ */
+const post = async (id: string, payload: object): Promise<void> => {
+  const response = await fetch(GOOGLE_SCRIPT_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'text/plain;charset=utf-8' },
+    body: JSON.stringify({ ...payload, secret: SYNC_SECRET })
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  let result: SyncResponse;
+  try {
+    result = await response.json();
+  } catch {
+    throw new Error("Respons pelayan bukan JSON");
+  }
+  if (result.status !== 'ok' || result.id !== id) {
+    throw new Error(result.message || "Penghantaran tidak disahkan oleh pelayan");
+  }
+};
+
+export const sendReport = (report: SavedReport, pupils: Pupil[]): Promise<void> =>
+  post(report.id, toPayload(report, pupils));
+
+export const sendDeletion = (deleted: DeletedReport): Promise<void> =>
+  post(deleted.id, { action: 'delete', id: deleted.id, deletedAt: deleted.deletedAt });
+
+// Device-only fields never come from the sheet; pupilData and action are sheet-only
+const LOCAL_FIELDS = ['syncStatus', 'syncAttempts', 'lastSyncAt', 'lastSyncError'] as const;
+
+const isRemoteReport = (value: unknown): value is SavedReport => {
+  const r = value as Partial<SavedReport> | null;
+  return !!r && typeof r.id === 'string' && typeof r.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(r.date) &&
+    typeof r.subjectId === 'string' && typeof r.timeslotId === 'string' &&
+    !!r.attendance && typeof r.attendance === 'object';
+};
+
+const fromPayload = (payload: SavedReport): SavedReport => {
+  const { action, pupilData, ...data } = payload as SavedReport & { action?: unknown; pupilData?: unknown };
+  LOCAL_FIELDS.forEach(field => delete data[field]);
+  return data;
+};
+
+export interface RemoteHistory {
+  reports: SavedReport[];
+  deletedIds: string[]; // Reports some device deleted after sending them
+}
+
+/**
+ * Fetches every session the sheet holds, whichever device sent it, and the
+ * ids deleted since. Entries that are not recognisable reports are dropped
+ * rather than failing the pull, so one bad row in the sheet cannot block
+ * every other device.
+ */
+export const fetchRemoteHistory = async (): Promise<RemoteHistory> => {
+  const response = await fetch(`${GOOGLE_SCRIPT_URL}?action=list&secret=${encodeURIComponent(SYNC_SECRET)}`);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  let result: SyncResponse;
+  try {
+    result = await response.json();
+  } catch {
+    throw new Error("Respons pelayan bukan JSON");
+  }
+  if (result.status !== 'ok' || !Array.isArray(result.reports)) {
+    throw new Error(result.message || "Senarai rekod tidak diterima daripada pelayan");
+  }
+  return {
+    reports: result.reports.filter(isRemoteReport).map(fromPayload),
+    // Sheets written by older script versions hand back digit-only ids as numbers
+    deletedIds: Array.isArray(result.deletedIds)
+      ? result.deletedIds.filter((id): id is string | number => typeof id === 'string' || typeof id === 'number').map(String)
+      : []
+  };
+};
+
+export interface PullConflict {
+  local: SavedReport;
+  remote: SavedReport;
+}
+
+export interface PullPreview {
+  added: SavedReport[]; // On the sheet only
+  updated: SavedReport[]; // Newer on the sheet than the delivered local copy
+  unchanged: number; // Same on both sides, or the local copy is newer and already delivered
+  conflicts: PullConflict[]; // Changed on the sheet while this device has changes not yet delivered
+  removed: SavedReport[]; // Deleted on another device; local copies with undelivered changes are kept
+  unknownPupilIds: string[]; // Pupils in pulled reports that this device's roster does not have
+  remote: RemoteHistory; // Everything the sheet returned, so the pull can be planned again when applied
+}
+
+// Same id can still hold different content; sync bookkeeping and fields left undefined are not content
+const contentOf = (report: SavedReport) => {
+  const data: Partial<SavedReport> = { ...report };
+  LOCAL_FIELDS.forEach(field => delete data[field]);
+  return JSON.stringify(Object.keys(data).sort().filter(key => data[key as keyof SavedReport] !== undefined).map(key => [key, data[key as keyof SavedReport]]));
+};
+
+// timestamp is only a time of day, so a report never edited is older than any edit
+const versionOf = (report: SavedReport) => report.updatedAt || '';
+
+// The sheet may hold several rows for one id; the latest edit wins, then the row stored last
+const latestById = (reports: SavedReport[]): SavedReport[] => {
+  const byId = new Map<string, SavedReport>();
+  reports.forEach(report => {
+    const kept = byId.get(report.id);
+    if (!kept || versionOf(report) >= versionOf(kept)) byId.set(report.id, report);
+  });
+  return [...byId.values()];
+};
+
+const hasUndelivered = (report: SavedReport) => report.syncStatus === 'pending' || report.syncStatus === 'failed';
+
+/**
+ * Compares the sheet with local history report by report id. A local copy
+ * that was delivered and has not changed since simply takes the sheet's newer
+ * version. A local copy still waiting in the outbox is a conflict when the
+ * sheet differs, because accepting either side silently would lose the other
+ * teacher's edit. Two different versions stamped with the same time are
+ * treated the same way. Reports deleted on this device, or on another one,
+ * are never brought back.
+ */
+export const planPull = (local: SavedReport[], remote: RemoteHistory, pupils: Pupil[], deletedHere: DeletedReport[]): PullPreview => {
+  const localById = new Map(local.map(r => [r.id, r]));
+  const deletedThere = new Set(remote.deletedIds);
+  const deleted = new Set([...remote.deletedIds, ...deletedHere.map(d => d.id)]);
+  const preview: PullPreview = {
+    added: [],
+    updated: [],
+    unchanged: 0,
+    conflicts: [],
+    removed: local.filter(r => deletedThere.has(r.id) && !hasUndelivered(r)),
+    unknownPupilIds: [],
+    remote
+  };
+  latestById(remote.reports).filter(r => !deleted.has(r.id)).forEach(report => {
+    const existing = localById.get(report.id);
+    if (!existing) {
+      preview.added.push(report);
+    } else if (contentOf(existing) === contentOf(report)) {
+      preview.unchanged++;
+    } else if (hasUndelivered(existing) || versionOf(existing) === versionOf(report)) {
+      preview.conflicts.push({ local: existing, remote: report });
+    } else if (versionOf(report) > versionOf(existing)) {
+      preview.updated.push(report);
+    } else {
+      preview.unchanged++;
+    }
+  });
+  const known = new Set(pupils.map(p => p.id));
+  const pulledIds = [...preview.added, ...preview.updated, ...preview.conflicts.map(c => c.remote)]
+    .flatMap(r => [...Object.keys(r.attendance), ...(r.expectedPupilIds || [])]);
+  preview.unknownPupilIds = Array.from(new Set(pulledIds.filter(id => !known.has(id))));
+  return preview;
+};
+
+/**
+ * Applies a pull to history as it is now, which may have moved on since the
+ * preview was shown: the pull is planned again, so a record edited in the
+ * meantime becomes a conflict and keeps the local copy. Conflicts default to
+ * the local copy, which stays in the outbox and so overwrites the sheet on
+ * the next delivery; the sheet's copy is only taken where the teacher chose
+ * it and the local copy is still the one they saw. Reports deleted on another
+ * device are removed. Reports taken from the sheet count as delivered, so
+ * they are not sent straight back.
+ */
+export const applyPull = (
+  local: SavedReport[],
+  shown: PullPreview,
+  useRemote: Set<string>,
+  pupils: Pupil[],
+  deletedHere: DeletedReport[],
+  now = new Date().toISOString()
+): SavedReport[] => {
+  const preview = planPull(local, shown.remote, pupils, deletedHere);
+  const removed = new Set(preview.removed.map(r => r.id));
+  const seen = new Map(shown.conflicts.map(c => [c.local.id, c.local]));
+  const delivered = (report: SavedReport): SavedReport => ({ ...report, syncStatus: 'sent', lastSyncAt: now, syncAttempts: undefined, lastSyncError: undefined });
+  const replacements = new Map([
+    ...preview.updated.map(r => [r.id, r] as const),
+    ...preview.conflicts
+      .filter(c => useRemote.has(c.remote.id) && seen.get(c.local.id)?.updatedAt === c.local.updatedAt)
+      .map(c => [c.remote.id, c.remote] as const)
+  ]);
+  return [
+    ...local.filter(r => !removed.has(r.id)).map(r => replacements.has(r.id) ? delivered(replacements.get(r.id)!) : r),
+    ...preview.added.map(delivered)
+  ].sort((a, b) => b.date.localeCompare(a.date) || b.id.localeCompare(a.id));
+};
@@ -0,0 +1,57 @@
+import { MissingSession, SavedReport, TimetableSlot, Timeslot } from '../types';
+import { addDays, parseDate, todayIso } from './dates';
+import { sessionKey } from './reports';
+
+export const weekdayOf = (date: string) => parseDate(date).getDay();
+
+export const byTimeslotOrder = (timeslots: Timeslot[]) => {
+  const order = new Map(timeslots.map((t, i): [string, number] => [t.id, i]));
+  return (a: TimetableSlot, b: TimetableSlot) => (order.get(a.timeslotId) ?? 99) - (order.get(b.timeslotId) ?? 99);
+};
+
+export const slotsOn = (timetable: TimetableSlot[], date: string, timeslots: Timeslot[]): TimetableSlot[] =>
+  timetable
+    .filter(s => s.weekday === weekdayOf(date) && s.startDate <= date)
+    .sort(byTimeslotOrder(timeslots));
+
+const isRecorded = (slot: TimetableSlot, date: string, reports: SavedReport[]) => {
+  const key = sessionKey({ date, subjectId: slot.subjectId, timeslotId: slot.timeslotId });
+  return reports.some(r => sessionKey(r) === key);
+};
+
+/**
+ * The class a teacher is timetabled for on a date, used to prefill the record
+ * form. When they have several, the first one not yet recorded is chosen.
+ */
+export const findScheduledSlot = (
+  timetable: TimetableSlot[],
+  date: string,
+  teacherId: string,
+  reports: SavedReport[],
+  timeslots: Timeslot[]
+): TimetableSlot | undefined => {
+  const mine = slotsOn(timetable, date, timeslots).filter(s => s.teacherId === teacherId);
+  return mine.find(s => !isRecorded(s, date, reports)) || mine[0];
+};
+
+// Timetabled sessions with no saved report, from `lookbackDays` ago up to yesterday, newest first
+export const findMissingSessions = (
+  timetable: TimetableSlot[],
+  reports: SavedReport[],
+  timeslots: Timeslot[],
+  lookbackDays: number,
+  today: string = todayIso()
+): MissingSession[] => {
+  const missing: MissingSession[] = [];
+  for (let i = 1; i <= lookbackDays; i++) {
+    const date = addDays(today, -i);
+    slotsOn(timetable, date, timeslots)
+      .filter(slot => !isRecorded(slot, date, reports))
+      .forEach(slot => missing.push({ date, slot }));
+  }
+  return missing;
+};
+
+// A subject can only be timetabled once per weekday and timeslot
+export const findTimetableClash = (timetable: TimetableSlot[], slot: Omit<TimetableSlot, 'id'>, excludeId?: string) =>
+  timetable.find(s => s.id !== excludeId && s.weekday === slot.weekday && s.timeslotId === slot.timeslotId && s.subjectId === slot.subjectId);
@@ -0,0 +1,137 @@
+import { DECLINE_THRESHOLD } from '../constants';
+import { AttendanceRate, Pupil, SavedReport, Subject, Term, TermComparison, TrendGranularity, TrendGrouping, TrendPoint, TrendSeries } from '../types';
+import { calculateSubjectStats, calculateYearStats, sumRates } from './analytics';
+import { subjectsForStats } from './catalogue';
+import { addDays, formatDate, parseDate } from './dates';
+import { I18n } from './i18n';
+
+export interface TrendOptions {
+  from: string;
+  to: string;
+  granularity: TrendGranularity;
+  grouping: TrendGrouping;
+}
+
+// Weeks start on Monday
+const periodOf = (date: string, granularity: TrendGranularity): string => {
+  if (granularity === 'month') return date.slice(0, 7);
+  const d = parseDate(date);
+  return addDays(date, -((d.getDay() + 6) % 7));
+};
+
+const periodLabel = (period: string, granularity: TrendGranularity, i18n: I18n): string =>
+  granularity === 'month'
+    ? i18n.formatDate(`${period}-01`, { month: 'short', year: 'numeric' })
+    : i18n.formatDate(period, { day: 'numeric', month: 'short' });
+
+// Every period in the range, including ones without sessions
+const periodsBetween = (from: string, to: string, granularity: TrendGranularity): string[] => {
+  const periods: string[] = [];
+  let cursor = periodOf(from, granularity);
+  while (cursor <= periodOf(to, granularity)) {
+    periods.push(cursor);
+    if (granularity === 'week') {
+      cursor = addDays(cursor, 7);
+    } else {
+      const d = parseDate(`${cursor}-01`);
+      d.setMonth(d.getMonth() + 1);
+      cursor = formatDate(d).slice(0, 7);
+    }
+  }
+  return periods;
+};
+
+/**
+ * Least-squares change across the range, in percentage points. Periods without
+ * sessions are skipped but keep their place on the time axis.
+ */
+const fittedChange = (points: TrendPoint[]): number | null => {
+  const samples = points.flatMap((p, x) => p.sessionCount > 0 ? [{ x, y: p.percentage }] : []);
+  if (samples.length < 3) return null;
+  const meanX = samples.reduce((sum, s) => sum + s.x, 0) / samples.length;
+  const meanY = samples.reduce((sum, s) => sum + s.y, 0) / samples.length;
+  const covariance = samples.reduce((sum, s) => sum + (s.x - meanX) * (s.y - meanY), 0);
+  const variance = samples.reduce((sum, s) => sum + (s.x - meanX) ** 2, 0);
+  const slope = covariance / variance;
+  return Math.round(slope * (samples[samples.length - 1].x - samples[0].x));
+};
+
+const toSeries = (id: string, label: string, points: TrendPoint[]): TrendSeries => {
+  const change = fittedChange(points);
+  return { id, label, points, change, declining: change !== null && change <= -DECLINE_THRESHOLD };
+};
+
+export const inDateRange = (reports: SavedReport[], from: string, to: string) =>
+  reports.filter(r => r.date >= from && r.date <= to);
+
+/**
+ * Attendance rate per week or month for each subject or each Tahun, plus an
+ * overall line. Subjects and Tahun without any session in the range are left out.
+ */
+export const buildTrends = (
+  reports: SavedReport[],
+  pupils: Pupil[],
+  subjects: Subject[],
+  options: TrendOptions,
+  i18n: I18n,
+  excludeExcused = false
+): TrendSeries[] => {
+  const { from, to, granularity, grouping } = options;
+  const inRange = inDateRange(reports, from, to);
+  const rangeSubjects = subjectsForStats(subjects, inRange);
+  const byPeriod = new Map<string, SavedReport[]>();
+  inRange.forEach(r => {
+    const period = periodOf(r.date, granularity);
+    byPeriod.set(period, [...(byPeriod.get(period) || []), r]);
+  });
+
+  const rows = periodsBetween(from, to, granularity).map(period => {
+    const periodReports = byPeriod.get(period) || [];
+    const subjectStats = calculateSubjectStats(periodReports, rangeSubjects, pupils, excludeExcused);
+    return {
+      period,
+      label: periodLabel(period, granularity, i18n),
+      subjectStats,
+      yearStats: grouping === 'year' ? calculateYearStats(periodReports, pupils, excludeExcused) : [],
+      overall: sumRates(subjectStats)
+    };
+  });
+  const point = (row: typeof rows[number], rate?: AttendanceRate): TrendPoint => ({
+    period: row.period,
+    label: row.label,
+    ...(rate || sumRates([]))
+  });
+
+  const groups = grouping === 'subject'
+    ? rangeSubjects.map(s => toSeries(s.id, s.name, rows.map(row => point(row, row.subjectStats.find(x => x.subjectId === s.id)))))
+    : calculateYearStats(inRange, pupils, excludeExcused)
+        .filter(y => y.sessionCount > 0)
+        .map(y => toSeries(`tahun-${y.year}`, i18n.t('common.year', { year: y.year }), rows.map(row => point(row, row.yearStats.find(x => x.year === y.year)))));
+
+  return [
+    ...groups.filter(series => series.points.some(p => p.sessionCount > 0)),
+    toSeries('keseluruhan', i18n.t('trends.overall'), rows.map(row => point(row, row.overall)))
+  ];
+};
+
+// Rates per Penggal, in date order, for side-by-side comparison
+export const compareTerms = (
+  reports: SavedReport[],
+  pupils: Pupil[],
+  subjects: Subject[],
+  terms: Term[],
+  excludeExcused = false
+): TermComparison[] => {
+  const sorted = [...terms].sort((a, b) => a.start.localeCompare(b.start));
+  const termSubjects = subjectsForStats(subjects, sorted.flatMap(t => inDateRange(reports, t.start, t.end)));
+  return sorted.map(term => {
+    const termReports = inDateRange(reports, term.start, term.end);
+    const bySubject = calculateSubjectStats(termReports, termSubjects, pupils, excludeExcused);
+    return {
+      term,
+      bySubject,
+      byYear: calculateYearStats(termReports, pupils, excludeExcused),
+      ...sumRates(bySubject)
+    };
+  });
+};
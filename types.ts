@@ -3,11 +3,28 @@ export interface Pupil {
   id: string;
   name: string;
   year: number;
+  active: boolean;
+  guardianName?: string; // Parent or guardian who receives Surat Amaran letters
+  guardianPhone?: string;
+  graduatedYear?: number; // Academic year the pupil finished Tahun 6; graduates stay on the roster, inactive
 }
 
+// Penolong Kanan and Guru Besar supervise: they verify and edit any record and
+// are the only ones allowed destructive actions
+export type TeacherRole = 'guru' | 'penolong_kanan' | 'guru_besar';
+
 export interface Teacher {
   id: string;
   name: string;
+  active: boolean;
+  role: TeacherRole;
+  pinHash?: string; // Absent until chosen at first sign-in or issued by a supervisor
+  pinTemporary?: boolean; // Set when a supervisor issued the PIN; the teacher picks their own at next sign-in
+}
+
+export interface Roster {
+  pupils: Pupil[];
+  teachers: Teacher[];
 }
 
 export interface AttendanceRecord {
@@ -21,20 +38,311 @@ export interface SavedReport {
   timestamp: string;
   teacherId: string;
   teacherName: string;
-  subject: Subject;
-  timeslot: Timeslot;
-  attendance: Record<string, boolean>;
+  subjectId: string;
+  subject: string; // Subject name when the session was saved; kept if the subject is later renamed
+  timeslotId: string;
+  timeslot: string; // Timeslot label when the session was saved
+  attendance: Record<string, AttendanceStatus>;
+  notes?: Record<string, string>; // Optional reason per pupil, e.g. why they were absent
   totalPresent: number;
+  targetYears?: number[];
+  expectedPupilIds?: string[]; // Snapshot of who was expected when the session was saved
+  pupilYears?: Record<string, number>; // Each expected pupil's Tahun when the session was saved
+  syncStatus?: SyncStatus; // Absent on records saved before delivery was tracked
+  syncAttempts?: number;
+  lastSyncAt?: string;
+  lastSyncError?: string;
+  updatedAt?: string;
+  auditTrail?: AuditEntry[];
+  reviewStatus?: ReviewStatus; // Absent on reports saved before review existed; read as submitted
+  submittedAt?: string;
+  reviewedBy?: ReviewStamp; // Disemak oleh
+  approvedBy?: ReviewStamp; // Disahkan oleh
+  returnedBy?: ReviewStamp; // Set when a supervisor sends the report back as a draft
+  returnComment?: string;
+}
+
+// draft → submitted → disemak (Penolong Kanan or Guru Besar) → disahkan (Guru Besar).
+// A supervisor can return a submitted or disemak report to draft with a comment.
+export type ReviewStatus = 'draft' | 'submitted' | 'disemak' | 'disahkan';
+
+export interface ReviewStamp {
+  byId: string;
+  byName: string;
+  at: string; // ISO timestamp
 }
 
-export interface SubjectStats {
-  subject: Subject;
+// Hadir and Lewat count as attended; Sakit and Cuti Bersebab are excused absences
+export type AttendanceStatus = 'hadir' | 'tidak_hadir' | 'lewat' | 'sakit' | 'cuti_bersebab';
+
+export interface AuditEntry {
+  at: string; // ISO timestamp
+  by?: string; // Name of the signed-in teacher; absent on entries made before sign-in existed
+  changes: string[];
+}
+
+export type SyncStatus = 'pending' | 'sent' | 'failed';
+
+// Kept after a record is deleted, so the deletion reaches the sheet and a pull does not bring the record back
+export interface DeletedReport {
+  id: string;
+  deletedAt: string; // ISO timestamp
+  syncStatus?: SyncStatus; // Absent when no sheet is configured
+}
+
+export interface AttendanceRate {
   totalPresent: number;
   totalPossible: number;
   percentage: number;
   sessionCount: number;
 }
 
-export type Subject = 'Sains' | 'Bahasa Inggeris' | 'Matematik' | 'Sejarah';
+export interface SubjectStats extends AttendanceRate {
+  subjectId: string;
+  subject: string;
+}
+
+export interface YearStats extends AttendanceRate {
+  year: number;
+}
+
+export type TrendGranularity = 'week' | 'month';
+export type TrendGrouping = 'subject' | 'year';
+
+// One week or month of a trend line; sessionCount 0 means no sessions, drawn as a gap
+export interface TrendPoint extends AttendanceRate {
+  period: string; // Monday of the week (YYYY-MM-DD) or the month (YYYY-MM)
+  label: string;
+}
+
+export interface TrendSeries {
+  id: string;
+  label: string;
+  points: TrendPoint[];
+  change: number | null; // Fitted change in percentage points across the range; null with fewer than 3 points
+  declining: boolean;
+}
+
+// School term (Penggal), inclusive dates
+export interface Term {
+  id: string;
+  name: string;
+  start: string;
+  end: string;
+}
+
+export interface TermComparison extends AttendanceRate {
+  term: Term;
+  bySubject: SubjectStats[];
+  byYear: YearStats[];
+}
+
+// Gilap Permata papers: a pre-test when pupils join, then monthly quizzes and UASA practice papers
+export type AssessmentKind = 'pre_test' | 'monthly_quiz' | 'uasa_practice';
+
+// One paper sat by the target Tahun groups; marks are raw scores out of maxScore
+export interface Assessment {
+  id: string;
+  kind: AssessmentKind;
+  title: string;
+  subjectId: string;
+  date: string; // YYYY-MM-DD
+  maxScore: number;
+  targetYears: number[];
+  scores: Record<string, number>; // Pupils who did not sit the paper have no entry
+  teacherId: string;
+  teacherName: string;
+  updatedAt: string;
+}
+
+export interface ScorePoint {
+  assessmentId: string;
+  date: string;
+  kind: AssessmentKind;
+  title: string;
+  percentage: number;
+}
+
+// One pupil in one subject: attendance up to their latest paper next to how their marks moved
+export interface PupilImpact {
+  pupil: Pupil;
+  attendance: AttendanceRate;
+  scores: ScorePoint[]; // Oldest first
+  firstScore: number;
+  latestScore: number;
+  gain: number | null; // Latest minus first, in percentage points; null with a single paper
+}
+
+export interface ImpactBand {
+  min: number; // Attendance rate range, inclusive
+  max: number;
+  pupilCount: number;
+  averageLatest: number | null;
+  averageGain: number | null;
+}
+
+export interface SubjectImpact {
+  subjectId: string;
+  subject: string;
+  pupils: PupilImpact[];
+  bands: ImpactBand[];
+  correlation: number | null; // Pearson r between attendance rate and gain; null with fewer than 3 pupils to compare
+}
+
+// Subjects and timeslots are managed in-app. Ids never change; retired
+// entries stay in the list so older reports still resolve.
+export interface Subject {
+  id: string;
+  name: string;
+  active: boolean;
+}
+
+export interface Timeslot {
+  id: string;
+  label: string;
+  active: boolean;
+}
+
+export interface Catalogue {
+  subjects: Subject[];
+  timeslots: Timeslot[];
+}
+
+export interface PupilSession {
+  reportId: string;
+  date: string;
+  subjectId: string;
+  subject: string;
+  timeslot: string;
+  status: AttendanceStatus;
+  isPresent: boolean;
+  note?: string;
+}
+
+export interface PupilProfile extends AttendanceRate {
+  pupil: Pupil;
+  sessions: PupilSession[]; // Oldest first
+  bySubject: SubjectStats[];
+  byMonth: { month: string; attended: number; missed: number }[]; // month as YYYY-MM
+  currentAbsenceStreak: number;
+  longestAbsenceStreak: number;
+}
+
+// One row of the monthly register; marks line up with MonthlyRegister.sessions
+export interface RegisterRow extends AttendanceRate {
+  pupil: Pupil;
+  year: number; // Tahun at the pupil's latest session in the register
+  marks: (AttendanceStatus | null)[]; // null when the pupil was not expected at that session
+}
+
+export interface MonthlyRegister {
+  sessions: SavedReport[]; // Oldest first
+  rows: RegisterRow[];
+}
+
+// Interface language; records, CSV exports and the audit trail are always kept in BM
+export type Language = 'ms' | 'en';
+
+export interface AppSettings {
+  language: Language;
+  forceMalayPdf: boolean; // Official PDF reports stay in BM whatever the interface language
+  absenceStreakThreshold: number;
+  excludeExcusedAbsences: boolean; // Leave Sakit / Cuti Bersebab out of expected totals
+  missingSessionLookbackDays: number;
+  terms: Term[];
+  warningThresholds: number[]; // Unexcused absences in a calendar year that call for Surat Amaran 1, 2 and 3
+  academicYears: AcademicYear[]; // One per Tahun Baru rollover, oldest first
+  lastTeacherId?: string; // Teacher who last signed in on this device, preselected on the sign-in screen
+}
+
+// A school year opened by the Tahun Baru rollover
+export interface AcademicYear {
+  year: number; // Calendar year the session starts in
+  startDate: string; // YYYY-MM-DD
+}
+
+// One recurring class in the weekly timetable
+export interface TimetableSlot {
+  id: string;
+  weekday: number; // As Date.getDay(): 0 = Ahad, 1 = Isnin, ... 6 = Sabtu
+  timeslotId: string;
+  subjectId: string;
+  teacherId: string;
+  targetYears: number[];
+  startDate: string; // YYYY-MM-DD; sessions before this are never reported missing
+}
+
+export type WarningLevel = 1 | 2 | 3;
+
+export interface MissedSession {
+  reportId: string;
+  date: string;
+  subject: string;
+  timeslot: string;
+}
+
+// A Surat Amaran as issued; the absences are kept so a reprint matches the original letter
+export interface WarningLetter {
+  id: string;
+  pupilId: string;
+  // The pupil as on the day the letter went out, so a reprint matches the copy sent home
+  pupilName: string;
+  pupilYear: number;
+  guardianName?: string;
+  level: WarningLevel;
+  year: number; // Calendar year whose absences were counted
+  reference: string; // Ruj. Kami
+  absences: MissedSession[];
+  issuedAt: string; // ISO timestamp
+  issuedById: string;
+  issuedByName: string;
+}
+
+export interface LetterStatus {
+  pupil: Pupil;
+  absences: MissedSession[]; // Tidak Hadir only; Sakit and Cuti Bersebab never count towards a letter
+  reachedLevel: WarningLevel | 0;
+  issuedLevel: WarningLevel | 0;
+  dueLevel: WarningLevel | null; // Next letter to issue; letters go out one level at a time
+  letters: WarningLetter[]; // Issued this year, oldest first
+}
+
+export interface MissingSession {
+  date: string;
+  slot: TimetableSlot;
+}
+
+export interface BackupFile {
+  format: 'sk-attendance-backup';
+  version: number;
+  createdAt: string;
+  reports: SavedReport[];
+  roster: Roster;
+  catalogue: Catalogue;
+  timetable: TimetableSlot[];
+  assessments: Assessment[];
+  warningLetters: WarningLetter[];
+  settings: AppSettings;
+}
+
+export interface Snapshot {
+  id: string;
+  createdAt: string;
+  reason: string;
+  backup: BackupFile;
+}
+
+export interface UnmappedRecord {
+  reportId: string;
+  date: string;
+  subject: string;
+  pupilIds: string[];
+}
+
+export interface PupilIdMigrationReport {
+  migratedAt: string;
+  reportsUpdated: number;
+  unmapped: UnmappedRecord[];
+}
 
-export type Timeslot = '02:30 - 03:30 pm' | '07:00 - 08:00 pm' | '08:00 - 09:00 pm' | '08:30 - 09:30 pm';
+export type NotificationType = 'success' | 'info' | 'error';
@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_GOOGLE_SCRIPT_URL?: string;
+  readonly VITE_SYNC_SECRET?: string;
+}